@@ -0,0 +1,35 @@
+import React from 'react';
+
+import { HoneyCssGridStyled } from './HoneyCssGridStyled';
+import type { HoneyCssGridStyledProps } from './HoneyCssGridStyled';
+
+export type HoneyCssGridProps = HoneyCssGridStyledProps;
+
+/**
+ * A layout grid built on CSS Grid, with fixed, auto-fitting or named-area templates that can change
+ * per breakpoint. Children are placed with `HoneyCssGridItem`.
+ *
+ * @example
+ * ```tsx
+ * <HoneyCssGrid
+ *   columns={{ xs: 1, md: '240px 1fr' }}
+ *   areas={{ xs: ['header', 'sidebar', 'main'], md: ['header header', 'sidebar main'] }}
+ *   spacing={2}
+ * >
+ *   <HoneyCssGridItem area="header">Header</HoneyCssGridItem>
+ *   <HoneyCssGridItem area="sidebar">Sidebar</HoneyCssGridItem>
+ *   <HoneyCssGridItem area="main">Main</HoneyCssGridItem>
+ * </HoneyCssGrid>
+ * ```
+ */
+export const HoneyCssGrid = ({ children, ...props }: HoneyCssGridProps) => {
+  return (
+    <HoneyCssGridStyled
+      // Data
+      data-testid="honey-css-grid"
+      {...props}
+    >
+      {children}
+    </HoneyCssGridStyled>
+  );
+};
@@ -0,0 +1,29 @@
+import type { HoneyBreakpointName } from '@react-hive/honey-style';
+
+/**
+ * The rows of named grid areas, each row listing the area names of its cells separated by spaces,
+ * e.g. `['header header', 'sidebar main']`. A `.` names an empty cell.
+ */
+export type HoneyCssGridAreaRows = string[];
+
+/**
+ * Named grid areas, either fixed or set per breakpoint. A breakpoint value applies from the
+ * breakpoint width up, until a larger breakpoint sets other areas.
+ */
+export type HoneyCssGridAreas =
+  HoneyCssGridAreaRows | Partial<Record<HoneyBreakpointName, HoneyCssGridAreaRows>>;
+
+/**
+ * How columns sized from `minItemWidth` are repeated:
+ * - `auto-fit` - Empty columns collapse, so the items stretch to fill the row.
+ * - `auto-fill` - Empty columns are kept, so the items keep the size of a full row.
+ */
+export type HoneyCssGridAutoRepeat = 'auto-fit' | 'auto-fill';
+
+/**
+ * Which tracks of a nested grid are taken from its parent grid:
+ * - `true` - Both the columns and the rows.
+ * - `columns` - Only the columns.
+ * - `rows` - Only the rows.
+ */
+export type HoneyCssGridSubgrid = boolean | 'columns' | 'rows';
@@ -0,0 +1,23 @@
+import React from 'react';
+import type { ElementType } from 'react';
+
+import { HoneyCssGridItemStyled } from './HoneyCssGridItemStyled';
+import type { HoneyCssGridItemStyledProps } from './HoneyCssGridItemStyled';
+
+export type HoneyCssGridItemProps<Element extends ElementType = 'div'> =
+  HoneyCssGridItemStyledProps<Element>;
+
+export const HoneyCssGridItem = <Element extends ElementType = 'div'>({
+  children,
+  ...props
+}: HoneyCssGridItemProps<Element>) => {
+  return (
+    <HoneyCssGridItemStyled
+      // Data
+      data-testid="honey-css-grid-item"
+      {...props}
+    >
+      {children}
+    </HoneyCssGridItemStyled>
+  );
+};
@@ -0,0 +1,69 @@
+import { css, styled } from '@react-hive/honey-style';
+import type { ElementType } from 'react';
+
+import { applyResponsiveStyles, resolveResponsiveValue } from '../../helpers';
+import { HoneyBox } from '../HoneyBox';
+import type { HoneyResponsiveValue } from '../../types';
+import type { HoneyBoxProps } from '../HoneyBox';
+
+export type HoneyCssGridItemStyledProps<Element extends ElementType = 'div'> =
+  HoneyBoxProps<Element> & {
+    /**
+     * The name of the grid area the item is placed in, fixed or per breakpoint.
+     */
+    area?: HoneyResponsiveValue<string>;
+    /**
+     * The number of columns the item spans, fixed or per breakpoint. `full` spans all explicit
+     * columns of the grid.
+     *
+     * Takes precedence over the columns of `area`.
+     */
+    colSpan?: HoneyResponsiveValue<number | 'full'>;
+    /**
+     * The number of rows the item spans, fixed or per breakpoint.
+     *
+     * Takes precedence over the rows of `area`.
+     */
+    rowSpan?: HoneyResponsiveValue<number>;
+  };
+
+const getGridSpan = (span: number | 'full') => (span === 'full' ? '1 / -1' : `span ${span}`);
+
+/**
+ * Places an item inside a `HoneyCssGrid`, either in a named area or by spanning columns and rows.
+ */
+export const HoneyCssGridItemStyled = styled<HoneyCssGridItemStyledProps>(HoneyBox)`
+  ${({ area, colSpan, rowSpan }) => css`
+    min-width: 0;
+
+    ${applyResponsiveStyles([area], breakpoint => {
+      const breakpointArea = resolveResponsiveValue(area, breakpoint);
+
+      return breakpointArea === undefined
+        ? null
+        : css`
+            grid-area: ${breakpointArea};
+          `;
+    })};
+
+    ${applyResponsiveStyles([colSpan], breakpoint => {
+      const breakpointColSpan = resolveResponsiveValue(colSpan, breakpoint);
+
+      return breakpointColSpan === undefined
+        ? null
+        : css`
+            grid-column: ${getGridSpan(breakpointColSpan)};
+          `;
+    })};
+
+    ${applyResponsiveStyles([rowSpan], breakpoint => {
+      const breakpointRowSpan = resolveResponsiveValue(rowSpan, breakpoint);
+
+      return breakpointRowSpan === undefined
+        ? null
+        : css`
+            grid-row: ${getGridSpan(breakpointRowSpan)};
+          `;
+    })};
+  `}
+`;
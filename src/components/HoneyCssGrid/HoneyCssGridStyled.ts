@@ -0,0 +1,168 @@
+import { css, styled, resolveSpacing, HONEY_BREAKPOINTS } from '@react-hive/honey-style';
+import type { HoneyBreakpointName } from '@react-hive/honey-style';
+
+import { applyResponsiveStyles, resolveResponsiveValue } from '../../helpers';
+import { HoneyCssGridItemStyled } from './HoneyCssGridItemStyled';
+import type { HoneyResponsiveValue } from '../../types';
+import type { HoneyCssGridItemStyledProps } from './HoneyCssGridItemStyled';
+import type {
+  HoneyCssGridAreaRows,
+  HoneyCssGridAreas,
+  HoneyCssGridAutoRepeat,
+  HoneyCssGridSubgrid,
+} from './HoneyCssGrid.types';
+
+export type HoneyCssGridStyledProps = HoneyCssGridItemStyledProps & {
+  /**
+   * The columns of the grid, fixed or per breakpoint. A number creates that many equal columns,
+   * a string is used as the `grid-template-columns` value, e.g. `200px 1fr`.
+   *
+   * Takes precedence over `minItemWidth` at the breakpoints it applies to.
+   */
+  columns?: HoneyResponsiveValue<number | string>;
+  /**
+   * The minimum width of the columns, fixed or per breakpoint. A number is in pixels. As many
+   * columns as fit in the grid width are created, repeated according to `autoRepeat`.
+   */
+  minItemWidth?: HoneyResponsiveValue<number | string>;
+  /**
+   * How columns sized from `minItemWidth` are repeated.
+   *
+   * @default 'auto-fit'
+   */
+  autoRepeat?: HoneyCssGridAutoRepeat;
+  /**
+   * The rows of the grid, fixed or per breakpoint. A number creates that many equal rows, a string
+   * is used as the `grid-template-rows` value.
+   */
+  rows?: HoneyResponsiveValue<number | string>;
+  /**
+   * The named areas of the grid, fixed or per breakpoint.
+   */
+  areas?: HoneyCssGridAreas;
+  /**
+   * The spacing between the rows and the columns, fixed or per breakpoint. When omitted, a subgrid
+   * keeps the spacing of its parent grid.
+   *
+   * @default 0
+   */
+  spacing?: HoneyResponsiveValue<number>;
+  /**
+   * Takes the tracks of the parent grid instead of defining its own. The grid must be placed in
+   * a parent grid, usually with `colSpan` or `rowSpan`.
+   *
+   * Takes precedence over `columns`, `minItemWidth` and `rows` for the subgrid tracks.
+   *
+   * @default false
+   */
+  subgrid?: HoneyCssGridSubgrid;
+};
+
+const getGridTracks = (tracks: number | string) =>
+  typeof tracks === 'number' ? `repeat(${tracks}, minmax(0, 1fr))` : tracks;
+
+const formatGridTemplateAreas = (areaRows: HoneyCssGridAreaRows) =>
+  areaRows.map(areaRow => `"${areaRow}"`).join(' ');
+
+/**
+ * Converts the area rows to `grid-template-areas` values, keeping the breakpoints they are set at.
+ */
+const getGridTemplateAreas = (
+  areas: HoneyCssGridAreas | undefined,
+): HoneyResponsiveValue<string> | undefined => {
+  if (!areas || Array.isArray(areas)) {
+    return areas && formatGridTemplateAreas(areas);
+  }
+
+  return HONEY_BREAKPOINTS.reduce<Partial<Record<HoneyBreakpointName, string>>>(
+    (templateAreas, breakpoint) => {
+      const areaRows = areas[breakpoint];
+
+      if (areaRows) {
+        templateAreas[breakpoint] = formatGridTemplateAreas(areaRows);
+      }
+
+      return templateAreas;
+    },
+    {},
+  );
+};
+
+/**
+ * A grid container built on CSS Grid, as opposed to the flexbox-based `HoneyGrid`.
+ *
+ * Since it is also a grid item, a nested grid can span the tracks of its parent grid, for example
+ * to become a subgrid.
+ */
+export const HoneyCssGridStyled = styled<HoneyCssGridStyledProps>(HoneyCssGridItemStyled)`
+  ${({ columns, minItemWidth, autoRepeat = 'auto-fit', rows, areas, spacing, subgrid }) => {
+    const templateAreas = getGridTemplateAreas(areas);
+
+    const isColumnsSubgrid = subgrid === true || subgrid === 'columns';
+    const isRowsSubgrid = subgrid === true || subgrid === 'rows';
+
+    const templateColumnsStyles = applyResponsiveStyles([columns, minItemWidth], breakpoint => {
+      const breakpointColumns = resolveResponsiveValue(columns, breakpoint);
+      const breakpointMinItemWidth = resolveResponsiveValue(minItemWidth, breakpoint);
+
+      if (breakpointColumns !== undefined) {
+        return css`
+          grid-template-columns: ${getGridTracks(breakpointColumns)};
+        `;
+      }
+
+      if (breakpointMinItemWidth !== undefined) {
+        const columnWidth =
+          typeof breakpointMinItemWidth === 'number'
+            ? `${breakpointMinItemWidth}px`
+            : breakpointMinItemWidth;
+
+        // The column never overflows a grid narrower than the minimum width
+        return css`
+          grid-template-columns: repeat(${autoRepeat}, minmax(min(${columnWidth}, 100%), 1fr));
+        `;
+      }
+
+      return null;
+    });
+
+    const templateRowsStyles = applyResponsiveStyles([rows], breakpoint => {
+      const breakpointRows = resolveResponsiveValue(rows, breakpoint);
+
+      return breakpointRows === undefined
+        ? null
+        : css`
+            grid-template-rows: ${getGridTracks(breakpointRows)};
+          `;
+    });
+
+    return css`
+      display: grid;
+      grid-template-columns: ${isColumnsSubgrid ? 'subgrid' : undefined};
+      grid-template-rows: ${isRowsSubgrid ? 'subgrid' : undefined};
+
+      ${!isColumnsSubgrid && templateColumnsStyles};
+      ${!isRowsSubgrid && templateRowsStyles};
+
+      ${applyResponsiveStyles([templateAreas], breakpoint => {
+        const breakpointTemplateAreas = resolveResponsiveValue(templateAreas, breakpoint);
+
+        return breakpointTemplateAreas === undefined
+          ? null
+          : css`
+              grid-template-areas: ${breakpointTemplateAreas};
+            `;
+      })};
+
+      ${applyResponsiveStyles([spacing], breakpoint => {
+        const breakpointSpacing = resolveResponsiveValue(spacing, breakpoint);
+
+        return breakpointSpacing === undefined
+          ? null
+          : css`
+              gap: ${resolveSpacing(breakpointSpacing)};
+            `;
+      })};
+    `;
+  }}
+`;
@@ -0,0 +1,105 @@
+import type { ReactElement } from 'react';
+import React from 'react';
+import { render } from '@testing-library/react';
+
+import { themeMock } from '../../../__mocks__';
+import { HoneyLayoutProvider } from '../../../providers';
+import { HoneyCssGrid } from '../HoneyCssGrid';
+import { HoneyCssGridItem } from '../HoneyCssGridItem';
+
+const customRender = (element: ReactElement) =>
+  render(<HoneyLayoutProvider theme={themeMock}>{element}</HoneyLayoutProvider>);
+
+describe('[HoneyCssGrid]: basic behavior', () => {
+  it('should create equal columns and resolve the spacing from the theme', () => {
+    const { getByTestId } = customRender(
+      <HoneyCssGrid columns={3} spacing={2}>
+        <HoneyCssGridItem>1</HoneyCssGridItem>
+      </HoneyCssGrid>,
+    );
+
+    expect(getByTestId('honey-css-grid')).toHaveStyle({
+      display: 'grid',
+      gridTemplateColumns: 'repeat(3, minmax(0, 1fr))',
+      gap: '16px',
+    });
+  });
+
+  it('should use a string as the columns template', () => {
+    const { getByTestId } = customRender(<HoneyCssGrid columns="200px 1fr" />);
+
+    expect(getByTestId('honey-css-grid')).toHaveStyle({ gridTemplateColumns: '200px 1fr' });
+  });
+
+  it('should repeat columns of the minimum item width', () => {
+    const { getByTestId } = customRender(
+      <HoneyCssGrid minItemWidth={240} autoRepeat="auto-fill" />,
+    );
+
+    expect(getByTestId('honey-css-grid')).toHaveStyle({
+      gridTemplateColumns: 'repeat(auto-fill, minmax(min(240px, 100%), 1fr))',
+    });
+  });
+
+  it('should prefer `columns` over `minItemWidth`', () => {
+    const { getByTestId } = customRender(<HoneyCssGrid columns={2} minItemWidth={240} />);
+
+    expect(getByTestId('honey-css-grid')).toHaveStyle({
+      gridTemplateColumns: 'repeat(2, minmax(0, 1fr))',
+    });
+  });
+
+  it('should apply the smallest breakpoint value of responsive props at any width', () => {
+    const { getByTestId } = customRender(
+      <HoneyCssGrid columns={{ xs: 1, md: 3 }} areas={{ xs: ['header', 'main'] }} />,
+    );
+
+    expect(getByTestId('honey-css-grid')).toHaveStyle({
+      gridTemplateColumns: 'repeat(1, minmax(0, 1fr))',
+      gridTemplateAreas: '"header" "main"',
+    });
+  });
+
+  it('should take the tracks of the parent grid when it is a subgrid', () => {
+    const { getByTestId } = customRender(
+      <HoneyCssGrid columns={4}>
+        <HoneyCssGrid columns={2} colSpan="full" subgrid="columns" data-testid="subgrid" />
+      </HoneyCssGrid>,
+    );
+
+    expect(getByTestId('subgrid')).toHaveStyle({
+      gridTemplateColumns: 'subgrid',
+      gridColumn: '1 / -1',
+    });
+  });
+});
+
+describe('[HoneyCssGridItem]: basic behavior', () => {
+  it('should place the item in a named area', () => {
+    const { getByTestId } = customRender(
+      <HoneyCssGrid areas={['header header', 'sidebar main']}>
+        <HoneyCssGridItem area="header">Header</HoneyCssGridItem>
+      </HoneyCssGrid>,
+    );
+
+    expect(getByTestId('honey-css-grid')).toHaveStyle({
+      gridTemplateAreas: '"header header" "sidebar main"',
+    });
+    expect(getByTestId('honey-css-grid-item')).toHaveStyle({ gridArea: 'header' });
+  });
+
+  it('should span columns and rows', () => {
+    const { getByTestId } = customRender(
+      <HoneyCssGrid columns={3}>
+        <HoneyCssGridItem colSpan={2} rowSpan={{ xs: 2 }}>
+          1
+        </HoneyCssGridItem>
+      </HoneyCssGrid>,
+    );
+
+    expect(getByTestId('honey-css-grid-item')).toHaveStyle({
+      gridColumn: 'span 2',
+      gridRow: 'span 2',
+    });
+  });
+});
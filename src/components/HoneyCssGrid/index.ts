@@ -0,0 +1,5 @@
+export * from './HoneyCssGrid.types';
+export * from './HoneyCssGridItemStyled';
+export * from './HoneyCssGridStyled';
+export * from './HoneyCssGridItem';
+export * from './HoneyCssGrid';
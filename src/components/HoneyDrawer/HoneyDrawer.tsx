@@ -0,0 +1,296 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { noop } from '@react-hive/honey-utils';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+import type { PointerEventHandler, ReactNode, RefObject } from 'react';
+import type { FastOmit } from '@react-hive/honey-style';
+
+import { HONEY_OVERLAY_PRIORITY } from '../../constants';
+import { mergeRefs } from '../../helpers';
+import { HoneyOverlay } from '../HoneyOverlay';
+import { HoneyLazyContent } from '../HoneyLazyContent';
+import { HoneyModalBackdropStyled } from '../HoneyModal';
+import { HoneyPopupPortal } from '../HoneyPopup/HoneyPopupPortal';
+import { HoneyDrawerPanelStyled } from './HoneyDrawerStyled';
+import { useHoneyDrawerSwipe } from './hooks';
+import type { HoneyOverlayEventListenerHandler, Nullable } from '../../types';
+import type { HoneyOverlayProps } from '../HoneyOverlay';
+import type { HoneyModalBackdropStyledProps } from '../HoneyModal';
+import type { HoneyPopupPortalProps } from '../HoneyPopup/HoneyPopupPortal';
+import type { HoneyDrawerPanelStyledProps } from './HoneyDrawerStyled';
+import type { HoneyDrawerCloseReason, HoneyDrawerPlacement } from './HoneyDrawer.types';
+
+const SWIPE_TRANSFORMS: Record<HoneyDrawerPlacement, (offset: number) => string> = {
+  left: offset => `translateX(${-offset}px)`,
+  right: offset => `translateX(${offset}px)`,
+  top: offset => `translateY(${-offset}px)`,
+  bottom: offset => `translateY(${offset}px)`,
+};
+
+export interface HoneyDrawerProps extends FastOmit<
+  HoneyDrawerPanelStyledProps,
+  'children' | 'placement' | 'active' | 'transitionDurationMs'
+> {
+  /**
+   * The drawer content.
+   */
+  children?: ReactNode;
+  /**
+   * Controls whether the drawer is open.
+   */
+  open: boolean;
+  /**
+   * Callback invoked when the drawer requests to be closed.
+   *
+   * @param reason - What caused the request.
+   */
+  onClose: (reason: HoneyDrawerCloseReason) => void;
+  /**
+   * The edge of the screen the drawer slides in from.
+   *
+   * @default 'left'
+   */
+  placement?: HoneyDrawerPlacement;
+  /**
+   * Whether the content behind the drawer is inert, covered by a backdrop, and not scrollable
+   * while the drawer is open.
+   *
+   * @default true
+   */
+  modal?: boolean;
+  /**
+   * Whether releasing the Escape key closes the drawer while it is the top-level overlay.
+   *
+   * @default true
+   */
+  closeOnEscape?: boolean;
+  /**
+   * Whether pressing the backdrop closes the drawer.
+   *
+   * @default true
+   */
+  closeOnBackdropClick?: boolean;
+  /**
+   * Whether the drawer can be closed by swiping it towards its edge on touch devices.
+   *
+   * @default true
+   */
+  swipeToClose?: boolean;
+  /**
+   * Minimum swipe velocity at release in pixels per millisecond that closes the drawer.
+   *
+   * Slower swipes, and swipes too short to be intentional, close the drawer only when they cover
+   * more than half of its size.
+   *
+   * @default 0.5
+   */
+  swipeVelocityThreshold?: number;
+  /**
+   * Duration of the sliding transition in milliseconds.
+   *
+   * @default 300
+   */
+  transitionDurationMs?: number;
+  /**
+   * Element that receives focus when the drawer opens.
+   */
+  initialFocusRef?: RefObject<Nullable<HTMLElement>>;
+  /**
+   * Additional props for the backdrop element.
+   */
+  backdropProps?: FastOmit<
+    HoneyModalBackdropStyledProps,
+    'children' | 'active' | 'transitionDurationMs'
+  >;
+  /**
+   * Additional props for the overlay that wraps the backdrop and the drawer panel.
+   */
+  overlayProps?: FastOmit<HoneyOverlayProps, 'children' | 'active' | 'onDeactivate'>;
+  /**
+   * Properties for `HoneyPopupPortal` component.
+   */
+  portalProps?: FastOmit<HoneyPopupPortalProps, 'children'>;
+}
+
+/**
+ * A side sheet that slides in from an edge of the screen.
+ *
+ * The drawer is registered in the overlay stack through `HoneyOverlay` with the dialog priority.
+ * By default it is modal: the content behind it is covered by a backdrop, made inert and not
+ * scrollable, and focus is kept inside the drawer while it is open.
+ *
+ * The panel accepts all `HoneyFlex` props, including responsive ones, for example
+ * `$width={{ xs: '100%', md: 400 }}`.
+ *
+ * @param props - Drawer component props.
+ *
+ * @example
+ * ```tsx
+ * <HoneyDrawer
+ *   open={isFiltersOpen}
+ *   onClose={() => setIsFiltersOpen(false)}
+ *   placement="right"
+ *   $width={{ xs: '100%', md: 400 }}
+ * >
+ *   <Filters />
+ * </HoneyDrawer>
+ * ```
+ */
+export const HoneyDrawer = ({ open, transitionDurationMs = 300, ...props }: HoneyDrawerProps) => {
+  return (
+    <HoneyLazyContent mount={open} unmountDelay={transitionDurationMs}>
+      <HoneyDrawerContent open={open} transitionDurationMs={transitionDurationMs} {...props} />
+    </HoneyLazyContent>
+  );
+};
+
+const HoneyDrawerContent = ({
+  ref,
+  children,
+  open,
+  onClose,
+  placement = 'left',
+  modal = true,
+  closeOnEscape = true,
+  closeOnBackdropClick = true,
+  swipeToClose = true,
+  swipeVelocityThreshold = 0.5,
+  transitionDurationMs = 300,
+  initialFocusRef,
+  backdropProps,
+  overlayProps,
+  portalProps,
+  style,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp,
+  onPointerCancel,
+  ...props
+}: HoneyDrawerProps) => {
+  const onCloseRef = useHoneyLatest(onClose);
+
+  const [isTransitionActive, setIsTransitionActive] = useState(false);
+
+  const panelRef = useRef<Nullable<HTMLDivElement>>(null);
+
+  const { swipeOffset, swipeHandlers } = useHoneyDrawerSwipe(panelRef, {
+    enabled: swipeToClose && open,
+    placement,
+    velocityThreshold: swipeVelocityThreshold,
+    onSwipeClose: () => onCloseRef.current('swipe'),
+  });
+
+  useEffect(() => {
+    if (!open) {
+      setIsTransitionActive(false);
+      return;
+    }
+
+    // Start the sliding transition after the initial styles are applied
+    const animationFrameId = requestAnimationFrame(() => setIsTransitionActive(true));
+
+    return () => {
+      cancelAnimationFrame(animationFrameId);
+    };
+  }, [open]);
+
+  const handleOverlayKeyUp = useCallback<HoneyOverlayEventListenerHandler>(keyCode => {
+    if (keyCode === 'Escape') {
+      onCloseRef.current('escape-key');
+    }
+  }, []);
+
+  const handleDeactivateOverlay = useCallback(() => {
+    onCloseRef.current('dismiss');
+  }, []);
+
+  const handleBackdropPointerDown: PointerEventHandler<HTMLDivElement> = e => {
+    backdropProps?.onPointerDown?.(e);
+
+    if (closeOnBackdropClick) {
+      onCloseRef.current('backdrop-click');
+    }
+  };
+
+  const handlePointerDown: PointerEventHandler<HTMLDivElement> = e => {
+    onPointerDown?.(e);
+    swipeHandlers.onPointerDown(e);
+  };
+
+  const handlePointerMove: PointerEventHandler<HTMLDivElement> = e => {
+    onPointerMove?.(e);
+    swipeHandlers.onPointerMove(e);
+  };
+
+  const handlePointerUp: PointerEventHandler<HTMLDivElement> = e => {
+    onPointerUp?.(e);
+    swipeHandlers.onPointerUp(e);
+  };
+
+  const handlePointerCancel: PointerEventHandler<HTMLDivElement> = e => {
+    onPointerCancel?.(e);
+    swipeHandlers.onPointerCancel(e);
+  };
+
+  return (
+    <HoneyPopupPortal {...portalProps}>
+      <HoneyOverlay
+        active={open}
+        onDeactivate={handleDeactivateOverlay}
+        onKeyUp={closeOnEscape ? handleOverlayKeyUp : noop}
+        priority={HONEY_OVERLAY_PRIORITY.dialog}
+        modal={modal}
+        trapFocus={modal}
+        initialFocusRef={initialFocusRef}
+        $position="fixed"
+        $inset={0}
+        // Keep the page behind a non-modal drawer interactive
+        $pointerEvents={modal ? undefined : 'none'}
+        {...overlayProps}
+        // Data
+        data-testid="honey-drawer"
+      >
+        {modal && (
+          <HoneyModalBackdropStyled
+            active={isTransitionActive}
+            transitionDurationMs={transitionDurationMs}
+            {...backdropProps}
+            onPointerDown={handleBackdropPointerDown}
+            // ARIA
+            aria-hidden={true}
+            // Data
+            data-testid="honey-drawer-backdrop"
+          />
+        )}
+
+        <HoneyDrawerPanelStyled
+          ref={mergeRefs(panelRef, ref)}
+          placement={placement}
+          active={isTransitionActive}
+          transitionDurationMs={transitionDurationMs}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+          style={
+            swipeOffset
+              ? {
+                  ...style,
+                  transform: SWIPE_TRANSFORMS[placement](swipeOffset),
+                  transition: 'none',
+                }
+              : style
+          }
+          $pointerEvents="auto"
+          {...props}
+          // ARIA
+          role="dialog"
+          aria-modal={modal}
+          // Data
+          data-testid="honey-drawer-panel"
+        >
+          {children}
+        </HoneyDrawerPanelStyled>
+      </HoneyOverlay>
+    </HoneyPopupPortal>
+  );
+};
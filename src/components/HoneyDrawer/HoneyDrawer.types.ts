@@ -0,0 +1,13 @@
+export type HoneyDrawerPlacement = 'left' | 'right' | 'top' | 'bottom';
+
+/**
+ * What caused a drawer to request to be closed.
+ *
+ * - `escape-key` - The Escape key was released while the drawer was the top-level overlay.
+ * - `backdrop-click` - The backdrop was pressed.
+ * - `swipe` - The panel was swiped towards the edge the drawer is attached to.
+ * - `dismiss` - The overlay store deactivated the drawer, for example on a history back
+ *   navigation, when the overlay it was opened from was closed, or through the imperative overlay
+ *   API.
+ */
+export type HoneyDrawerCloseReason = 'escape-key' | 'backdrop-click' | 'swipe' | 'dismiss';
@@ -0,0 +1,64 @@
+import { css, styled } from '@react-hive/honey-style';
+
+import { honeyVisibilityTransitionEffect } from '../../effects';
+import { HoneyFlex } from '../HoneyFlex';
+import type { HoneyVisibilityTransitionEffectContextProps } from '../../effects';
+import type { HoneyFlexProps } from '../HoneyFlex';
+import type { HoneyDrawerPlacement } from './HoneyDrawer.types';
+
+const HIDDEN_DRAWER_TRANSFORMS: Record<HoneyDrawerPlacement, string> = {
+  left: 'translateX(-100%)',
+  right: 'translateX(100%)',
+  top: 'translateY(-100%)',
+  bottom: 'translateY(100%)',
+};
+
+export type HoneyDrawerPanelStyledProps = HoneyFlexProps &
+  HoneyVisibilityTransitionEffectContextProps & {
+    /**
+     * The edge of the screen the drawer is attached to.
+     */
+    placement: HoneyDrawerPlacement;
+    /**
+     * Duration of the sliding transition in milliseconds.
+     */
+    transitionDurationMs: number;
+  };
+
+export const HoneyDrawerPanelStyled = styled<HoneyDrawerPanelStyledProps>(
+  HoneyFlex,
+  ({
+    placement,
+    $position = 'absolute',
+    $top = placement === 'bottom' ? undefined : 0,
+    $right = placement === 'left' ? undefined : 0,
+    $bottom = placement === 'top' ? undefined : 0,
+    $left = placement === 'right' ? undefined : 0,
+    $width = placement === 'left' || placement === 'right' ? 320 : undefined,
+    $maxWidth = '100%',
+    $maxHeight = '100%',
+    $overflow = 'auto',
+    $backgroundColor = 'white',
+  }) => ({
+    $position,
+    $top,
+    $right,
+    $bottom,
+    $left,
+    $width,
+    $maxWidth,
+    $maxHeight,
+    $overflow,
+    $backgroundColor,
+  }),
+)`
+  ${({ active = false, placement, transitionDurationMs }) => css`
+    ${honeyVisibilityTransitionEffect({
+      durationMs: transitionDurationMs,
+      extraProperties: ['transform'],
+    })};
+
+    transform: ${active ? 'none' : HIDDEN_DRAWER_TRANSFORMS[placement]};
+    touch-action: ${placement === 'left' || placement === 'right' ? 'pan-y' : 'pan-x'};
+  `}
+`;
@@ -0,0 +1,135 @@
+import React from 'react';
+import { noop } from '@react-hive/honey-utils';
+import { fireEvent, render } from '@testing-library/react';
+import type { ReactElement } from 'react';
+
+import { themeMock } from '../../../__mocks__';
+import { HoneyLayoutProvider } from '../../../providers';
+import { HoneyDrawer } from '../HoneyDrawer';
+
+const customRender = (element: ReactElement) =>
+  render(<HoneyLayoutProvider theme={themeMock}>{element}</HoneyLayoutProvider>);
+
+describe('[HoneyDrawer]: basic behavior', () => {
+  it('should call `onClose` when the Escape key is released', () => {
+    const onClose = vitest.fn();
+
+    customRender(
+      <HoneyDrawer open={true} onClose={onClose}>
+        Content
+      </HoneyDrawer>,
+    );
+
+    fireEvent.keyUp(document, { code: 'Escape' });
+
+    expect(onClose).toHaveBeenCalledWith('escape-key');
+  });
+
+  it('should call `onClose` when the backdrop is pressed', () => {
+    const onClose = vitest.fn();
+
+    const { getByTestId } = customRender(
+      <HoneyDrawer open={true} onClose={onClose}>
+        Content
+      </HoneyDrawer>,
+    );
+
+    fireEvent.pointerDown(getByTestId('honey-drawer-backdrop'));
+
+    expect(onClose).toHaveBeenCalledWith('backdrop-click');
+  });
+
+  it('should call `onClose` with the dismiss reason when the parent drawer is closed', () => {
+    const onClose = vitest.fn();
+
+    const renderDrawers = (isParentOpen: boolean) => (
+      <HoneyLayoutProvider theme={themeMock}>
+        <HoneyDrawer open={isParentOpen} onClose={noop}>
+          <HoneyDrawer open={true} onClose={onClose}>
+            Nested
+          </HoneyDrawer>
+        </HoneyDrawer>
+      </HoneyLayoutProvider>
+    );
+
+    const { rerender } = render(renderDrawers(true));
+
+    rerender(renderDrawers(false));
+
+    expect(onClose).toHaveBeenCalledWith('dismiss');
+  });
+
+  it('should not render a backdrop for a non-modal drawer', () => {
+    const { queryByTestId } = customRender(
+      <HoneyDrawer open={true} onClose={vitest.fn()} modal={false}>
+        Content
+      </HoneyDrawer>,
+    );
+
+    expect(queryByTestId('honey-drawer-backdrop')).toBeNull();
+  });
+});
+
+describe('[HoneyDrawer]: swipe to close', () => {
+  const swipe = (element: HTMLElement, fromX: number, toX: number) => {
+    fireEvent.pointerDown(element, {
+      pointerId: 1,
+      pointerType: 'touch',
+      clientX: fromX,
+    });
+
+    fireEvent.pointerMove(element, {
+      pointerId: 1,
+      pointerType: 'touch',
+      clientX: toX,
+    });
+
+    fireEvent.pointerUp(element, {
+      pointerId: 1,
+      pointerType: 'touch',
+      clientX: toX,
+    });
+  };
+
+  it('should close a left drawer on a fast swipe to the left', () => {
+    const onClose = vitest.fn();
+
+    const { getByTestId } = customRender(
+      <HoneyDrawer open={true} onClose={onClose} placement="left">
+        Content
+      </HoneyDrawer>,
+    );
+
+    swipe(getByTestId('honey-drawer-panel'), 200, 100);
+
+    expect(onClose).toHaveBeenCalledWith('swipe');
+  });
+
+  it('should not close a drawer on a short flick towards its edge', () => {
+    const onClose = vitest.fn();
+
+    const { getByTestId } = customRender(
+      <HoneyDrawer open={true} onClose={onClose} placement="left">
+        Content
+      </HoneyDrawer>,
+    );
+
+    swipe(getByTestId('honey-drawer-panel'), 200, 190);
+
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('should not close a drawer on a swipe away from its edge', () => {
+    const onClose = vitest.fn();
+
+    const { getByTestId } = customRender(
+      <HoneyDrawer open={true} onClose={onClose} placement="left">
+        Content
+      </HoneyDrawer>,
+    );
+
+    swipe(getByTestId('honey-drawer-panel'), 100, 200);
+
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,203 @@
+import { useRef, useState } from 'react';
+import type { PointerEvent, PointerEventHandler, RefObject } from 'react';
+
+import type { Nullable } from '../../../types';
+import type { HoneyDrawerPlacement } from '../HoneyDrawer.types';
+
+// Only pointer samples this recent are used to compute the velocity of the swipe at release
+const VELOCITY_SAMPLES_WINDOW_MS = 100;
+
+// Minimum distance in pixels a swipe must travel to close the drawer by its velocity
+const MIN_VELOCITY_SWIPE_DISTANCE = 32;
+
+interface HoneyDrawerSwipeSample {
+  distance: number;
+  time: number;
+}
+
+interface HoneyDrawerSwipeStart {
+  pointerId: number;
+  x: number;
+  y: number;
+  samples: HoneyDrawerSwipeSample[];
+}
+
+/**
+ * Returns the distance a pointer has moved towards the edge the drawer is attached to.
+ *
+ * @param placement - The drawer placement.
+ * @param deltaX - Horizontal pointer movement since the swipe started.
+ * @param deltaY - Vertical pointer movement since the swipe started.
+ *
+ * @returns The swipe distance in pixels, or `0` when the pointer moved away from the edge.
+ */
+const getSwipeDistance = (placement: HoneyDrawerPlacement, deltaX: number, deltaY: number) => {
+  const distance = {
+    left: -deltaX,
+    right: deltaX,
+    top: -deltaY,
+    bottom: deltaY,
+  }[placement];
+
+  return Math.max(0, distance);
+};
+
+/**
+ * Adds a pointer sample to a swipe and drops the samples older than the velocity window.
+ *
+ * @param swipeStart - The swipe in progress.
+ * @param sample - The new sample.
+ */
+const addSwipeSample = (swipeStart: HoneyDrawerSwipeStart, sample: HoneyDrawerSwipeSample) => {
+  const { samples } = swipeStart;
+
+  samples.push(sample);
+
+  while (samples.length > 1 && sample.time - samples[0].time > VELOCITY_SAMPLES_WINDOW_MS) {
+    samples.shift();
+  }
+};
+
+/**
+ * Returns the velocity of a swipe over its latest samples.
+ *
+ * @param samples - The samples within the velocity window, oldest first.
+ *
+ * @returns The velocity in pixels per millisecond towards the drawer edge.
+ */
+const getSwipeVelocity = (samples: HoneyDrawerSwipeSample[]) => {
+  const firstSample = samples[0];
+  const lastSample = samples[samples.length - 1];
+
+  return (
+    (lastSample.distance - firstSample.distance) / Math.max(1, lastSample.time - firstSample.time)
+  );
+};
+
+export interface UseHoneyDrawerSwipeOptions {
+  /**
+   * Whether touch swipes are tracked.
+   */
+  enabled: boolean;
+  /**
+   * The drawer placement, which defines the closing swipe direction.
+   */
+  placement: HoneyDrawerPlacement;
+  /**
+   * Minimum swipe velocity in pixels per millisecond that closes the drawer.
+   */
+  velocityThreshold: number;
+  /**
+   * Callback invoked when a swipe should close the drawer.
+   */
+  onSwipeClose: () => void;
+}
+
+interface UseHoneyDrawerSwipeApi {
+  /**
+   * Current swipe distance in pixels, `0` when no swipe is in progress.
+   */
+  swipeOffset: number;
+  /**
+   * Pointer event handlers that must be attached to the drawer panel.
+   */
+  swipeHandlers: {
+    onPointerDown: PointerEventHandler<HTMLElement>;
+    onPointerMove: PointerEventHandler<HTMLElement>;
+    onPointerUp: PointerEventHandler<HTMLElement>;
+    onPointerCancel: PointerEventHandler<HTMLElement>;
+  };
+}
+
+/**
+ * Tracks touch swipes on a drawer panel towards the edge the drawer is attached to.
+ *
+ * A swipe closes the drawer when it covers more than half of the panel size, or when it covers
+ * at least a minimal distance and is released faster than `velocityThreshold`. The velocity is
+ * measured over the last pointer samples, so a swipe that slows down before release does not
+ * close the drawer. Otherwise, the panel returns to its open position.
+ *
+ * @param panelRef - Reference to the drawer panel element.
+ * @param options - Swipe configuration.
+ *
+ * @returns The current swipe offset and the pointer event handlers for the panel.
+ */
+export const useHoneyDrawerSwipe = (
+  panelRef: RefObject<Nullable<HTMLElement>>,
+  { enabled, placement, velocityThreshold, onSwipeClose }: UseHoneyDrawerSwipeOptions,
+): UseHoneyDrawerSwipeApi => {
+  const [swipeOffset, setSwipeOffset] = useState(0);
+
+  const swipeStartRef = useRef<Nullable<HoneyDrawerSwipeStart>>(null);
+
+  const getDistance = (e: PointerEvent<HTMLElement>, swipeStart: HoneyDrawerSwipeStart) =>
+    getSwipeDistance(placement, e.clientX - swipeStart.x, e.clientY - swipeStart.y);
+
+  const onPointerDown: PointerEventHandler<HTMLElement> = e => {
+    if (!enabled || e.pointerType !== 'touch' || swipeStartRef.current) {
+      return;
+    }
+
+    swipeStartRef.current = {
+      pointerId: e.pointerId,
+      x: e.clientX,
+      y: e.clientY,
+      samples: [{ distance: 0, time: e.timeStamp }],
+    };
+  };
+
+  const onPointerMove: PointerEventHandler<HTMLElement> = e => {
+    const swipeStart = swipeStartRef.current;
+    if (swipeStart?.pointerId !== e.pointerId) {
+      return;
+    }
+
+    const distance = getDistance(e, swipeStart);
+
+    addSwipeSample(swipeStart, { distance, time: e.timeStamp });
+    setSwipeOffset(distance);
+  };
+
+  const onPointerUp: PointerEventHandler<HTMLElement> = e => {
+    const swipeStart = swipeStartRef.current;
+    if (swipeStart?.pointerId !== e.pointerId) {
+      return;
+    }
+
+    swipeStartRef.current = null;
+    setSwipeOffset(0);
+
+    const distance = getDistance(e, swipeStart);
+
+    addSwipeSample(swipeStart, { distance, time: e.timeStamp });
+
+    const isFastSwipe =
+      distance >= MIN_VELOCITY_SWIPE_DISTANCE &&
+      getSwipeVelocity(swipeStart.samples) >= velocityThreshold;
+
+    const panel = panelRef.current;
+    const panelSize =
+      placement === 'left' || placement === 'right' ? panel?.offsetWidth : panel?.offsetHeight;
+
+    if (isFastSwipe || (panelSize && distance > panelSize / 2)) {
+      onSwipeClose();
+    }
+  };
+
+  const onPointerCancel: PointerEventHandler<HTMLElement> = e => {
+    if (swipeStartRef.current?.pointerId === e.pointerId) {
+      swipeStartRef.current = null;
+      setSwipeOffset(0);
+    }
+  };
+
+  return {
+    swipeOffset,
+    swipeHandlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel,
+    },
+  };
+};
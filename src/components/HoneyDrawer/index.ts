@@ -0,0 +1,3 @@
+export * from './HoneyDrawer.types';
+export * from './HoneyDrawerStyled';
+export * from './HoneyDrawer';
@@ -1,16 +1,18 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 
 import { HoneyGridContext } from './HoneyGridContext';
 import { HoneyGridStyled } from './HoneyGridStyled';
 import type { HoneyGridContextProps } from './HoneyGridContext';
 import type { HoneyGridStyledProps } from './HoneyGridStyled';
+import { isResponsiveValueEqual } from '../../helpers';
+import type { HoneyResponsiveValue } from '../../types';
 import type { HoneyGridColumnStyledProps } from '../HoneyGridColumn';
 
 export interface HoneyGridProps extends HoneyGridStyledProps {
   /**
-   * The number of columns in the grid layout.
+   * The number of columns in the grid layout, fixed or per breakpoint, e.g. `{ xs: 1, md: 3 }`.
    */
-  columns: number;
+  columns: HoneyResponsiveValue<number>;
   /**
    * Specifies whether columns should grow to fill available space.
    *
@@ -35,14 +37,26 @@ export const HoneyGrid = ({
   applyColumnMaxWidth = false,
   ...props
 }: HoneyGridProps) => {
+  const [contextColumns, setContextColumns] = useState(columns);
+  const [contextSpacing, setContextSpacing] = useState(spacing);
+
+  // Responsive values are usually object literals, so the previous ones are kept while they are equal
+  if (!isResponsiveValueEqual(columns, contextColumns)) {
+    setContextColumns(columns);
+  }
+
+  if (!isResponsiveValueEqual(spacing, contextSpacing)) {
+    setContextSpacing(spacing);
+  }
+
   const contextValue = useMemo<HoneyGridContextProps>(
     () => ({
-      columns,
-      spacing,
+      columns: contextColumns,
+      spacing: contextSpacing,
       isColumnsGrowing: columnsGrowing,
       applyColumnMaxWidth,
     }),
-    [columns, spacing, columnsGrowing, applyColumnMaxWidth],
+    [contextColumns, contextSpacing, columnsGrowing, applyColumnMaxWidth],
   );
 
   return (
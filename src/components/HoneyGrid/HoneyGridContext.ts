@@ -1,9 +1,11 @@
 import { createContext } from 'react';
 import type { HoneyBreakpointName } from '@react-hive/honey-style';
 
+import type { HoneyResponsiveValue } from '../../types';
+
 export interface HoneyGridContextProps {
-  columns: number;
-  spacing: number | undefined;
+  columns: HoneyResponsiveValue<number>;
+  spacing: HoneyResponsiveValue<number> | undefined;
   isColumnsGrowing: boolean;
   applyColumnMaxWidth: HoneyBreakpointName | false;
 }
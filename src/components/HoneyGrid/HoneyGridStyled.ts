@@ -2,8 +2,10 @@ import * as CSS from 'csstype';
 import { css, styled, resolveSpacing } from '@react-hive/honey-style';
 import type { FastOmit } from '@react-hive/honey-style';
 
+import { applyResponsiveStyles, resolveResponsiveValue } from '../../helpers';
 import { HoneyBox } from '../HoneyBox';
 import { HoneyGridColumnStyled } from '../HoneyGridColumn/HoneyGridColumnStyled';
+import type { HoneyResponsiveValue } from '../../types';
 import type { HoneyBoxProps } from '../HoneyBox';
 
 export interface HoneyGridStyledProps
@@ -18,11 +20,11 @@ export interface HoneyGridStyledProps
    */
   minColumnHeight?: CSS.Properties['minHeight'];
   /**
-   * The spacing between grid columns.
+   * The spacing between grid columns, fixed or per breakpoint.
    *
    * @default 0
    */
-  spacing?: number;
+  spacing?: HoneyResponsiveValue<number>;
 }
 
 export const HoneyGridStyled = styled<HoneyGridStyledProps>(HoneyBox, ({ $flexWrap = 'wrap' }) => ({
@@ -30,7 +32,13 @@ export const HoneyGridStyled = styled<HoneyGridStyledProps>(HoneyBox, ({ $flexWr
 }))`
   ${({ columnHeight, minColumnHeight, spacing = 0 }) => css`
     display: flex;
-    gap: ${resolveSpacing(spacing)};
+
+    ${applyResponsiveStyles(
+      [spacing],
+      breakpoint => css`
+        gap: ${resolveSpacing(resolveResponsiveValue(spacing, breakpoint) ?? 0)};
+      `,
+    )};
 
     > ${HoneyGridColumnStyled} {
       height: ${columnHeight};
@@ -0,0 +1,45 @@
+import type { ReactElement } from 'react';
+import React from 'react';
+import { render } from '@testing-library/react';
+
+import { themeMock } from '../../../__mocks__';
+import { HoneyLayoutProvider } from '../../../providers';
+import { HoneyGridColumn } from '../../HoneyGridColumn';
+import { HoneyGrid } from '../HoneyGrid';
+
+const customRender = (element: ReactElement) =>
+  render(<HoneyLayoutProvider theme={themeMock}>{element}</HoneyLayoutProvider>);
+
+describe('[HoneyGrid]: responsive columns', () => {
+  it('should size the columns from the values of the smallest breakpoint at any width', () => {
+    const { getByTestId } = customRender(
+      <HoneyGrid columns={{ xs: 2, md: 4 }} spacing={{ xs: 1, md: 2 }}>
+        <HoneyGridColumn>1</HoneyGridColumn>
+      </HoneyGrid>,
+    );
+
+    expect(getByTestId('honey-grid')).toHaveStyle({ gap: '8px' });
+    expect(getByTestId('honey-grid-column')).toHaveStyle({ flexBasis: 'calc(50% - 4px)' });
+  });
+
+  it('should subtract the share of the spacing from the width of the taken columns', () => {
+    const { getByTestId } = customRender(
+      <HoneyGrid columns={4} spacing={2}>
+        <HoneyGridColumn takeColumns={2}>1</HoneyGridColumn>
+      </HoneyGrid>,
+    );
+
+    expect(getByTestId('honey-grid')).toHaveStyle({ gap: '16px' });
+    expect(getByTestId('honey-grid-column')).toHaveStyle({ flexBasis: 'calc(50% - 8px)' });
+  });
+
+  it('should take the responsive number of columns', () => {
+    const { getByTestId } = customRender(
+      <HoneyGrid columns={3}>
+        <HoneyGridColumn takeColumns={{ xs: 3, md: 1 }}>1</HoneyGridColumn>
+      </HoneyGrid>,
+    );
+
+    expect(getByTestId('honey-grid-column')).toHaveStyle({ flexBasis: 'calc(100% - 0px)' });
+  });
+});
@@ -1,29 +1,30 @@
-import { css, styled, resolveSpacing } from '@react-hive/honey-style';
+import { css, styled, resolveSpacing, HONEY_BREAKPOINTS } from '@react-hive/honey-style';
 import type { ElementType } from 'react';
 import type { HoneyBreakpointName } from '@react-hive/honey-style';
 
+import { applyResponsiveStyles, resolveResponsiveValue } from '../../helpers';
 import { HoneyFlex } from '../HoneyFlex';
-import type { Nullable } from '../../types';
+import type { HoneyResponsiveValue } from '../../types';
 import type { HoneyFlexProps } from '../HoneyFlex';
 
 export type HoneyGridColumnStyledProps<Element extends ElementType = 'div'> =
   HoneyFlexProps<Element> & {
     /**
-     * Total number of columns in the grid.
+     * Total number of columns in the grid, fixed or per breakpoint.
      */
-    columns: number;
+    columns: HoneyResponsiveValue<number>;
     /**
-     * Spacing between grid columns.
+     * Spacing between grid columns, fixed or per breakpoint.
      *
      * @default 0
      */
-    spacing: number | undefined;
+    spacing: HoneyResponsiveValue<number> | undefined;
     /**
-     * The number of columns this column should take.
+     * The number of columns this column should take, fixed or per breakpoint.
      *
      * @default 1
      */
-    takeColumns?: number;
+    takeColumns?: HoneyResponsiveValue<number>;
     /**
      * Specifies the breakpoint at which the max-width should be applied
      * or disables it if set to `false`. Can be a breakpoint name.
@@ -40,34 +41,60 @@ export type HoneyGridColumnStyledProps<Element extends ElementType = 'div'> =
     applyBasis?: boolean;
   };
 
+/**
+ * Calculates the width of a column taking a number of columns, excluding its share of the spacing.
+ *
+ * @param columns - Total number of columns in the grid.
+ * @param takeColumns - The number of columns the column takes.
+ * @param columnSpacing - Spacing between grid columns in pixels.
+ *
+ * @returns The CSS width of the column.
+ */
+const getColumnWidth = (columns: number, takeColumns: number, columnSpacing: number) => {
+  const fractionalWidth = 100 / columns;
+
+  const columnWidthPercent = takeColumns * fractionalWidth;
+  const columnGap = (columns - takeColumns) * (columnSpacing / columns);
+
+  return `calc(${columnWidthPercent}% - ${columnGap}px)`;
+};
+
 /**
  * This component defines the layout and styling for individual columns in a grid layout.
  * It provides flexibility in specifying the number of columns to take, the total number of columns in the grid,
  * and the spacing between columns.
+ *
+ * Responsive `columns`, `takeColumns` and `spacing` generate the width of the column for each
+ * breakpoint where any of them changes, applied from that breakpoint up.
  */
 export const HoneyGridColumnStyled = styled<HoneyGridColumnStyledProps>(HoneyFlex)`
   ${({ columns, takeColumns = 1, spacing = 0, applyMaxWidth, applyBasis = true, theme }) => {
-    let columnWidth: Nullable<string> = null;
-
-    if (applyBasis) {
-      const fractionalWidth = 100 / columns;
+    if (!applyBasis) {
+      return null;
+    }
 
-      const columnSpacing = resolveSpacing(spacing, null)({ theme });
-      const columnWidthPercent = takeColumns * fractionalWidth;
-      const columnGap = (columns - takeColumns) * (columnSpacing / columns);
+    const maxWidthBreakpointIndex = applyMaxWidth ? HONEY_BREAKPOINTS.indexOf(applyMaxWidth) : -1;
 
-      columnWidth = `calc(${columnWidthPercent}% - ${columnGap}px)`;
-    }
+    // The max width starts at its own breakpoint, even when the column width does not change there
+    const maxWidthBreakpoint = applyMaxWidth ? { [applyMaxWidth]: true } : undefined;
 
     return css`
-      flex-basis: ${columnWidth};
+      ${applyResponsiveStyles([columns, takeColumns, spacing, maxWidthBreakpoint], breakpoint => {
+        const columnWidth = getColumnWidth(
+          resolveResponsiveValue(columns, breakpoint) ?? 1,
+          resolveResponsiveValue(takeColumns, breakpoint) ?? 1,
+          resolveSpacing(resolveResponsiveValue(spacing, breakpoint) ?? 0, null)({ theme }),
+        );
+
+        const isMaxWidthApplied =
+          maxWidthBreakpointIndex !== -1 &&
+          HONEY_BREAKPOINTS.indexOf(breakpoint) >= maxWidthBreakpointIndex;
 
-      ${applyMaxWidth &&
-      css`
-        @honey-media (${applyMaxWidth}:up) {
-          max-width: ${columnWidth};
-        }
-      `}
+        return css`
+          flex-basis: ${columnWidth};
+          max-width: ${isMaxWidthApplied ? columnWidth : undefined};
+        `;
+      })};
     `;
   }}
 `;
@@ -1,4 +1,10 @@
-import type { HoneyListItem, HoneyListItemId, HoneyListItemKey } from './HoneyList.types';
+import type {
+  HoneyListGroup,
+  HoneyListGroupKey,
+  HoneyListItem,
+  HoneyListItemId,
+  HoneyListItemKey,
+} from './HoneyList.types';
 
 export const getHoneyListItemId = <Item extends HoneyListItem>(
   item: Item,
@@ -15,3 +21,37 @@ export const getHoneyListItemId = <Item extends HoneyListItem>(
 
   return itemKey ? item[itemKey] : itemIndex;
 };
+
+/**
+ * Groups items by a key. Groups are ordered by the first appearance of their items, and the items
+ * keep their order within a group.
+ *
+ * @param items - The items to group.
+ * @param groupBy - Returns the group key of an item.
+ *
+ * @returns The groups of items.
+ */
+export const groupHoneyListItems = <Item extends HoneyListItem>(
+  items: Item[],
+  groupBy: (item: Item) => HoneyListGroupKey,
+): HoneyListGroup<Item>[] => {
+  const groups = new Map<HoneyListGroupKey, HoneyListGroup<Item>>();
+
+  items.forEach(item => {
+    const groupKey = groupBy(item);
+
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = {
+        key: groupKey,
+        items: [],
+      };
+
+      groups.set(groupKey, group);
+    }
+
+    group.items.push(item);
+  });
+
+  return [...groups.values()];
+};
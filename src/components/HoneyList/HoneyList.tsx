@@ -1,16 +1,67 @@
-import React, { Fragment } from 'react';
+import React, { Fragment, useId, useImperativeHandle, useLayoutEffect, useRef } from 'react';
+import { assert, invokeIfFunction, noop } from '@react-hive/honey-utils';
 import type { FastOmit } from '@react-hive/honey-style';
 
+import { isEditableElement, mergeRefs } from '../../helpers';
+import { honeyVisibilityTransitionEffect } from '../../effects';
 import { HoneyStatusContent } from '../HoneyStatusContent';
 import { getHoneyListItemId } from './HoneyList.helpers';
-import { HoneyListStyled } from './HoneyListStyled';
-import type { HoneyListGenericProps, HoneyListItem } from './HoneyList.types';
+import { HoneyListAnimatedItem } from './HoneyListAnimatedItem';
+import { HoneyListLiveRegionStyled, HoneyListStyled } from './HoneyListStyled';
+import {
+  useHoneyListEndReached,
+  useHoneyListGroups,
+  useHoneyListItemAnimations,
+  useHoneyListNavigation,
+  useHoneyListScrollAnchor,
+  useHoneyListSelection,
+  useHoneyListSortable,
+  useHoneyListVirtualizer,
+} from './hooks';
+import type { Nullable } from '../../types';
+import type {
+  HoneyListGenericProps,
+  HoneyListGroup,
+  HoneyListGroupingProps,
+  HoneyListHandle,
+  HoneyListInfiniteScrollProps,
+  HoneyListItem,
+  HoneyListItemAnimationProps,
+  HoneyListItemState,
+  HoneyListNavigationProps,
+  HoneyListSelectionProps,
+  HoneyListSortableProps,
+  HoneyListVirtualizationProps,
+} from './HoneyList.types';
+import type { HoneyListVirtualItem } from './hooks';
 import type { HoneyStatusContentProps } from '../HoneyStatusContent';
 import type { HoneyListStyledProps } from './HoneyListStyled';
 
+// Offsets of the inset shadow drawing a line on the side of an item where the dragged item is dropped
+const DROP_INDICATOR_SHADOW_OFFSETS = {
+  vertical: { before: '0 2px', after: '0 -2px' },
+  horizontal: { before: '2px 0', after: '-2px 0' },
+} as const;
+
+// Removed items kept mounted through their exit transition are no longer interactive
+const EXITING_ITEM_STATE: HoneyListItemState = {
+  isActive: false,
+  isDisabled: true,
+  isSelected: false,
+  toggle: noop,
+};
+
 export interface HoneyListProps<Item extends HoneyListItem>
-  extends FastOmit<HoneyListStyledProps, 'children'>,
+  extends
+    FastOmit<HoneyListStyledProps, 'children'>,
     HoneyListGenericProps<Item>,
+    HoneyListVirtualizationProps<Item>,
+    HoneyListInfiniteScrollProps,
+    HoneyListNavigationProps<Item>,
+    HoneyListSelectionProps<Item>,
+    HoneyListGroupingProps<Item>,
+    HoneyListSortableProps<Item>,
+    HoneyListItemAnimationProps,
     HoneyStatusContentProps {}
 
 /**
@@ -21,8 +72,47 @@ export interface HoneyListProps<Item extends HoneyListItem>
  * various states to enhance the user experience. It accepts a `ref` to access the underlying HTML element
  * for greater control and customization.
  *
+ * In the `virtualized` mode, only the items inside the viewport are rendered. Each item is wrapped in an
+ * absolutely positioned element inside a spacer sized to the whole list, so the list must have a bounded
+ * size along the scroll axis. The `handleRef` scrolls a virtualized list to an item by index or ID.
+ *
+ * Infinite scrolling invokes `onEndReached` when a sentinel rendered after the items, or before them in
+ * the `reverse` mode, comes within `endReachedThreshold` of the list viewport.
+ *
+ * A `navigable` list becomes a `listbox` navigated with the arrow keys, Home and End, PageUp and PageDown,
+ * and typeahead search by `getItemLabel`. The active item either receives the focus with a roving tabindex
+ * or is referred to by `aria-activedescendant`, depending on `focusMode`.
+ *
+ * With a `selectionMode` other than `none`, the list is also a `listbox` whose items are selected by click,
+ * and by keyboard when the list is `navigable`.
+ *
+ * Items grouped by `groupBy`, or passed as already grouped `groups`, are rendered in group containers with
+ * headers rendered by `renderGroupHeader`. Headers can stick to the start of the list, and groups can be
+ * collapsed with the `toggle` function passed to the header.
+ *
+ * A `sortable` list reorders its items by pointer or keyboard dragging and reports each move with
+ * `onReorder`. A drop indicator marks the new position, the list scrolls while the pointer is near its
+ * edges, and the moves are announced to screen readers through a live region rendered after the list.
+ *
+ * With `animateItems`, added items transition in, removed items stay mounted while they transition out,
+ * and items that change position move to it with a FLIP animation.
+ *
  * @template Item - Represents the type of the items to be rendered in the list. This allows the component
  * to be used with any item type.
+ *
+ * @example
+ * ```tsx
+ * <HoneyList
+ *   items={messages}
+ *   itemKey="id"
+ *   virtualized={true}
+ *   estimatedItemSize={64}
+ *   handleRef={listHandleRef}
+ *   $height="400px"
+ * >
+ *   {message => <Message message={message} />}
+ * </HoneyList>
+ * ```
  */
 export const HoneyList = <Item extends HoneyListItem>({
   children,
@@ -35,13 +125,461 @@ export const HoneyList = <Item extends HoneyListItem>({
   errorContent,
   empty = false,
   emptyContent,
+  virtualized = false,
+  orientation = 'vertical',
+  itemSize,
+  estimatedItemSize = 40,
+  overscan = 3,
+  handleRef,
+  onEndReached,
+  endReachedThreshold = 200,
+  hasMore = true,
+  loadingMore = false,
+  loadingMoreContent = null,
+  reverse = false,
+  navigable = false,
+  focusMode = 'roving',
+  activeItemId,
+  onActiveItemChange,
+  getItemLabel,
+  isItemDisabled,
+  wrapNavigation = false,
+  selectionMode = 'none',
+  selectedItemIds,
+  defaultSelectedItemIds,
+  onSelectionChange,
+  groupBy,
+  groups,
+  renderGroupHeader,
+  stickyGroupHeaders = false,
+  collapsedGroupKeys,
+  defaultCollapsedGroupKeys,
+  onCollapsedGroupKeysChange,
+  groupEmptyContent = null,
+  sortable = false,
+  onReorder,
+  animateItems = false,
+  itemTransitionDurationMs = 200,
+  itemEnterEffect,
+  itemExitEffect,
+  onKeyDown,
+  onKeyUp,
+  ref,
   ...props
 }: HoneyListProps<Item>) => {
-  return (
+  const listRef = useRef<Nullable<HTMLDivElement>>(null);
+  const pendingNavigationIndexRef = useRef<Nullable<number>>(null);
+
+  const listId = useId();
+  const getItemElementId = (itemIndex: number) => `${listId}-item-${itemIndex}`;
+
+  const isVertical = orientation === 'vertical';
+  const isListbox = navigable || selectionMode !== 'none';
+  const hasItemElements = isListbox || sortable;
+
+  const {
+    groups: listGroups,
+    visibleItems: listItems,
+    isGroupCollapsed,
+    toggleGroup,
+  } = useHoneyListGroups({
+    items,
+    groupBy,
+    groups,
+    collapsedGroupKeys,
+    defaultCollapsedGroupKeys,
+    onCollapsedGroupKeysChange,
+  });
+
+  assert(
+    !virtualized || !listGroups,
+    '[@react-hive/honey-layout]: Grouped items are not supported in the virtualized mode of HoneyList.',
+  );
+
+  assert(
+    !animateItems || (!virtualized && !listGroups),
+    '[@react-hive/honey-layout]: Item animations are not supported in the virtualized or grouped mode of HoneyList.',
+  );
+
+  const getItemElement = (itemIndex: number) =>
+    document.getElementById(getItemElementId(itemIndex));
+
+  const getItemId = (item: Item, itemIndex: number) => getHoneyListItemId(item, itemKey, itemIndex);
+  const isItemDisabledAt = (item: Item, itemIndex: number) =>
+    isItemDisabled?.(item, itemIndex) ?? false;
+
+  const { itemEntries, getItemElementRef } = useHoneyListItemAnimations(listRef, {
+    enabled: animateItems,
+    items,
+    getItemId,
+    durationMs: itemTransitionDurationMs,
+  });
+
+  const enterEffect =
+    itemEnterEffect ?? honeyVisibilityTransitionEffect({ durationMs: itemTransitionDurationMs });
+
+  const { virtualItems, totalSize, measureItemRef, scrollToIndex } = useHoneyListVirtualizer(
+    listRef,
+    {
+      enabled: virtualized,
+      items: listItems,
+      orientation,
+      getItemKey: getItemId,
+      itemSize,
+      estimatedItemSize,
+      overscan,
+    },
+  );
+
+  const { sentinelRef, isEndReachedPending } = useHoneyListEndReached(listRef, {
+    enabled: Boolean(onEndReached) && hasMore,
+    orientation,
+    reverse,
+    threshold: endReachedThreshold,
+    itemsCount: listItems.length,
+    loadingMore,
+    onEndReached,
+  });
+
+  const isLoadingMore = loadingMore || isEndReachedPending;
+
+  useHoneyListScrollAnchor(listRef, {
+    enabled: reverse,
+    orientation,
+    items: listItems,
+    getItemId,
+    isLeadingContentShown: isLoadingMore,
+  });
+
+  const endSentinel = onEndReached && hasMore && (
+    <div
+      ref={sentinelRef}
+      role="none"
+      style={{ flexShrink: 0, [isVertical ? 'height' : 'width']: 1 }}
+      // Data
+      data-testid="honey-list-end-sentinel"
+    />
+  );
+
+  /**
+   * Returns how many items fit in the list viewport, based on the size of the first rendered item.
+   */
+  const getPageSize = () => {
+    const list = listRef.current;
+    const itemElement = getItemElement(virtualItems[0]?.index ?? 0);
+
+    const itemElementSize = isVertical ? itemElement?.offsetHeight : itemElement?.offsetWidth;
+    if (!list || !itemElementSize) {
+      return 10;
+    }
+
+    return Math.max(
+      1,
+      Math.floor((isVertical ? list.clientHeight : list.clientWidth) / itemElementSize),
+    );
+  };
+
+  const {
+    isItemSelected,
+    selectItem,
+    selectAll,
+    clearSelection,
+    setSelectionAnchor,
+    handleSelectionKeyDown,
+  } = useHoneyListSelection({
+    mode: selectionMode,
+    items: listItems,
+    getItemId,
+    isItemDisabled: isItemDisabledAt,
+    selectedItemIds,
+    defaultSelectedItemIds,
+    onSelectionChange,
+  });
+
+  const { activeIndex, tabbableIndex, activateItem, handleKeyDown } = useHoneyListNavigation({
+    enabled: navigable,
+    items: listItems,
+    orientation,
+    wrap: wrapNavigation,
+    getItemId,
+    getPageSize,
+    onNavigate: (itemIndex, e) => {
+      pendingNavigationIndexRef.current = itemIndex;
+
+      // Named keys with Shift extend the selection, while typed characters only move the focus
+      if (selectionMode === 'multiple' && e.shiftKey && e.key.length > 1) {
+        selectItem(itemIndex, { range: true });
+      } else {
+        setSelectionAnchor(itemIndex);
+      }
+
+      if (virtualized) {
+        scrollToIndex(itemIndex);
+      }
+    },
+    activeItemId,
+    onActiveItemChange,
+    getItemLabel,
+    isItemDisabled,
+  });
+
+  // A virtualized item is rendered only after the list is scrolled to it
+  useLayoutEffect(() => {
+    const itemIndex = pendingNavigationIndexRef.current;
+    if (itemIndex === null) {
+      return;
+    }
+
+    const itemElement = getItemElement(itemIndex);
+    if (!itemElement) {
+      return;
+    }
+
+    pendingNavigationIndexRef.current = null;
+
+    if (focusMode === 'roving') {
+      itemElement.focus();
+    } else if (!virtualized) {
+      // Not available in all environments, e.g. jsdom
+      itemElement.scrollIntoView?.({ block: 'nearest', inline: 'nearest' });
+    }
+  });
+
+  const {
+    dragState,
+    announcement,
+    handleSortablePointerDown,
+    handleSortableKeyDown,
+    handleSortableKeyUp,
+    isClickSuppressed,
+  } = useHoneyListSortable(listRef, {
+    enabled: sortable,
+    items: listItems,
+    orientation,
+    getItemElement,
+    getRenderedItemsRange: () =>
+      virtualized
+        ? [virtualItems[0]?.index ?? 0, virtualItems[virtualItems.length - 1]?.index ?? -1]
+        : [0, listItems.length - 1],
+    getItemLabel: (item, itemIndex) => getItemLabel?.(item) ?? `item ${itemIndex + 1}`,
+    revealItem: itemIndex => {
+      if (virtualized) {
+        scrollToIndex(itemIndex);
+      } else {
+        getItemElement(itemIndex)?.scrollIntoView?.({ block: 'nearest', inline: 'nearest' });
+      }
+    },
+    onReorder,
+  });
+
+  /**
+   * Returns the side of an item where the dragged item is dropped, or `undefined` when it is dropped
+   * elsewhere.
+   */
+  const getDropPosition = (itemIndex: number) => {
+    if (!dragState || dragState.toIndex !== itemIndex || dragState.fromIndex === itemIndex) {
+      return undefined;
+    }
+
+    return dragState.toIndex < dragState.fromIndex ? 'before' : 'after';
+  };
+
+  const getItemTabIndex = (itemIndex: number) => {
+    if (navigable) {
+      return focusMode === 'roving' ? (itemIndex === tabbableIndex ? 0 : -1) : undefined;
+    }
+
+    // Items of a sortable list are picked up from the focus
+    return sortable ? 0 : undefined;
+  };
+
+  const renderItem = (
+    item: Item,
+    itemIndex: number,
+    thisItems: Item[],
+    virtualItem?: HoneyListVirtualItem,
+  ) => {
+    const itemId = getItemId(item, itemIndex);
+
+    const itemState: HoneyListItemState = {
+      isActive: itemIndex === activeIndex,
+      isDisabled: isItemDisabledAt(item, itemIndex),
+      isSelected: isItemSelected(itemId),
+      toggle: () => selectItem(itemIndex, { toggle: true }),
+    };
+
+    const isDragged = dragState?.fromIndex === itemIndex;
+    const dropPosition = getDropPosition(itemIndex);
+
+    if (!virtualItem && !hasItemElements) {
+      return (
+        <Fragment key={String(itemId)}>{children(item, itemIndex, thisItems, itemState)}</Fragment>
+      );
+    }
+
+    return (
+      <div
+        key={String(itemId)}
+        ref={virtualItem && itemSize === undefined ? measureItemRef : undefined}
+        id={hasItemElements ? getItemElementId(itemIndex) : undefined}
+        role={isListbox ? 'option' : sortable ? 'listitem' : 'none'}
+        tabIndex={getItemTabIndex(itemIndex)}
+        onFocus={navigable ? () => activateItem(itemIndex) : undefined}
+        onPointerDown={sortable ? e => handleSortablePointerDown(e, itemIndex) : undefined}
+        onKeyDown={
+          sortable && !navigable
+            ? e => handleSortableKeyDown(e, e.target === e.currentTarget ? itemIndex : -1)
+            : undefined
+        }
+        onClick={
+          isListbox
+            ? e => {
+                if (isClickSuppressed()) {
+                  return;
+                }
+
+                activateItem(itemIndex);
+                selectItem(itemIndex, { toggle: e.ctrlKey || e.metaKey, range: e.shiftKey });
+              }
+            : undefined
+        }
+        style={{
+          ...(virtualItem && {
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            transform: isVertical
+              ? `translateY(${virtualItem.start}px)`
+              : `translateX(${virtualItem.start}px)`,
+            [isVertical ? 'width' : 'height']: '100%',
+            ...(itemSize !== undefined && { [isVertical ? 'height' : 'width']: virtualItem.size }),
+          }),
+          ...(isDragged && { opacity: 0.5 }),
+          ...(dropPosition && {
+            boxShadow: `inset ${DROP_INDICATOR_SHADOW_OFFSETS[orientation][dropPosition]} 0 0 currentColor`,
+          }),
+        }}
+        // ARIA
+        aria-disabled={isListbox && itemState.isDisabled ? true : undefined}
+        aria-selected={selectionMode === 'none' ? undefined : itemState.isSelected}
+        // Data
+        data-index={itemIndex}
+        data-active={itemState.isActive || undefined}
+        data-dragging={isDragged || undefined}
+        data-drop-position={dropPosition}
+      >
+        {children(item, itemIndex, thisItems, itemState)}
+      </div>
+    );
+  };
+
+  const renderGroups = (groupsToRender: HoneyListGroup<Item>[]) => {
+    let groupItemIndexOffset = 0;
+
+    return groupsToRender.map((group, groupIndex) => {
+      const isCollapsed = isGroupCollapsed(group.key);
+      const groupHeaderId = `${listId}-group-${groupIndex}`;
+
+      const firstItemIndex = groupItemIndexOffset;
+      if (!isCollapsed) {
+        groupItemIndexOffset += group.items.length;
+      }
+
+      return (
+        <div
+          key={group.key}
+          role={isListbox ? 'group' : 'none'}
+          style={{
+            display: 'flex',
+            flexDirection: isVertical ? 'column' : 'row',
+            flexShrink: 0,
+            // The items keep the spacing of the list
+            gap: 'inherit',
+          }}
+          // ARIA
+          aria-labelledby={isListbox && renderGroupHeader ? groupHeaderId : undefined}
+          // Data
+          data-testid="honey-list-group"
+          data-group-key={group.key}
+          data-collapsed={isCollapsed || undefined}
+        >
+          {renderGroupHeader && (
+            <div
+              id={groupHeaderId}
+              role="presentation"
+              style={
+                stickyGroupHeaders
+                  ? { position: 'sticky', [isVertical ? 'top' : 'left']: 0, zIndex: 1 }
+                  : undefined
+              }
+              // Data
+              data-testid="honey-list-group-header"
+            >
+              {renderGroupHeader(group, {
+                isCollapsed,
+                toggle: () => toggleGroup(group.key),
+              })}
+            </div>
+          )}
+
+          {!isCollapsed &&
+            (group.items.length
+              ? group.items.map((item, itemIndex) =>
+                  renderItem(item, firstItemIndex + itemIndex, listItems),
+                )
+              : invokeIfFunction(groupEmptyContent, group))}
+        </div>
+      );
+    });
+  };
+
+  useImperativeHandle<HoneyListHandle<Item>, HoneyListHandle<Item>>(handleRef, () => ({
+    scrollToIndex,
+    scrollToItem: (itemId, options) => {
+      scrollToIndex(
+        listItems.findIndex((item, itemIndex) => getItemId(item, itemIndex) === itemId),
+        options,
+      );
+    },
+    selectAll,
+    clearSelection,
+  }));
+
+  const list = (
     <HoneyListStyled
-      role="list"
+      ref={mergeRefs(listRef, ref)}
+      role={isListbox ? 'listbox' : 'list'}
+      tabIndex={navigable && focusMode === 'activedescendant' ? 0 : undefined}
+      onKeyDown={e => {
+        onKeyDown?.(e);
+
+        if (!navigable || isEditableElement(e.target)) {
+          return;
+        }
+
+        // A drag takes the Space and arrow keys over from the navigation and the selection
+        handleSortableKeyDown(e, activeIndex);
+        // The navigation goes first, so the Space key typed in a typeahead query is not a selection
+        handleKeyDown(e);
+        handleSelectionKeyDown(e, activeIndex);
+      }}
+      onKeyUp={e => {
+        onKeyUp?.(e);
+
+        handleSortableKeyUp(e);
+      }}
+      $overflow={virtualized && !isVertical ? 'auto hidden' : undefined}
+      $overflowAnchor={reverse ? 'none' : undefined}
+      $userSelect={dragState ? 'none' : undefined}
       // ARIA
       aria-busy={loading}
+      aria-orientation={isListbox ? orientation : undefined}
+      aria-multiselectable={selectionMode === 'multiple' || undefined}
+      aria-activedescendant={
+        navigable && focusMode === 'activedescendant' && activeIndex !== -1
+          ? getItemElementId(activeIndex)
+          : undefined
+      }
       // Data
       data-testid="honey-list"
       {...props}
@@ -52,15 +590,74 @@ export const HoneyList = <Item extends HoneyListItem>({
         loadingContent={loadingContent}
         error={error}
         errorContent={errorContent}
-        empty={empty || items?.length === 0}
+        empty={empty || (listGroups ? !listGroups.length : items?.length === 0)}
         emptyContent={emptyContent}
       >
-        {items?.map((item, itemIndex, thisItems) => (
-          <Fragment key={String(getHoneyListItemId(item, itemKey, itemIndex))}>
-            {children(item, itemIndex, thisItems)}
-          </Fragment>
-        ))}
+        {reverse && endSentinel}
+        {reverse && isLoadingMore && loadingMoreContent}
+
+        {virtualized ? (
+          <div
+            role="none"
+            style={{
+              position: 'relative',
+              flexShrink: 0,
+              [isVertical ? 'height' : 'width']: totalSize,
+              [isVertical ? 'width' : 'height']: '100%',
+            }}
+            // Data
+            data-testid="honey-list-virtual-content"
+          >
+            {virtualItems.map(virtualItem =>
+              renderItem(listItems[virtualItem.index], virtualItem.index, listItems, virtualItem),
+            )}
+          </div>
+        ) : listGroups ? (
+          renderGroups(listGroups)
+        ) : animateItems ? (
+          itemEntries.map(({ item, itemId, itemIndex, isExiting, isAppearing }) => (
+            <HoneyListAnimatedItem
+              key={String(itemId)}
+              ref={getItemElementRef(itemId)}
+              appear={isAppearing}
+              exiting={isExiting}
+              enterEffect={enterEffect}
+              exitEffect={itemExitEffect ?? enterEffect}
+              $pointerEvents={isExiting ? 'none' : undefined}
+            >
+              {isExiting
+                ? children(item, itemIndex, listItems, EXITING_ITEM_STATE)
+                : renderItem(item, itemIndex, listItems)}
+            </HoneyListAnimatedItem>
+          ))
+        ) : (
+          items?.map((item, itemIndex, thisItems) => renderItem(item, itemIndex, thisItems))
+        )}
+
+        {!reverse && isLoadingMore && loadingMoreContent}
+        {!reverse && endSentinel}
       </HoneyStatusContent>
     </HoneyListStyled>
   );
+
+  if (!sortable) {
+    return list;
+  }
+
+  return (
+    <>
+      {list}
+
+      <HoneyListLiveRegionStyled
+        role="status"
+        // ARIA
+        aria-live="polite"
+        aria-atomic={true}
+        // Data
+        data-testid="honey-list-live-region"
+      >
+        {announcement}
+      </HoneyListLiveRegionStyled>
+    </>
+  );
 };
@@ -1,4 +1,7 @@
-import type { ReactNode } from 'react';
+import type { ReactNode, Ref } from 'react';
+
+import type { HoneyEffectResultFn, Nullable } from '../../types';
+import type { HoneyVisibilityTransitionEffectContextProps } from '../../effects';
 
 export type HoneyListItem = object | string | number;
 
@@ -6,6 +9,32 @@ export type HoneyListItemKey<Item extends HoneyListItem> = ((item: Item) => stri
 
 export type HoneyListItemId<Item extends HoneyListItem> = Item[keyof Item] | string | number;
 
+/**
+ * The state of a rendered item, passed to the item render function.
+ */
+export interface HoneyListItemState {
+  /**
+   * Whether the item is the active item of a `navigable` list.
+   */
+  isActive: boolean;
+  /**
+   * Whether the item is disabled by `isItemDisabled`.
+   */
+  isDisabled: boolean;
+  /**
+   * Whether the item is selected.
+   */
+  isSelected: boolean;
+  /**
+   * Toggles the selection of the item. In the `single` selection mode, selecting the item
+   * deselects the previously selected item. Does nothing when the selection is disabled.
+   *
+   * When called from a click handler inside the item, the click propagation must be stopped, so
+   * the click does not also select the item alone.
+   */
+  toggle: () => void;
+}
+
 /**
  * Generic props for HoneyList component.
  *
@@ -19,16 +48,413 @@ export interface HoneyListGenericProps<Item extends HoneyListItem> {
    * @param item - The current item to be rendered.
    * @param itemIndex - The index of the current item.
    * @param thisItems - The array of all items.
+   * @param itemState - The state of the current item.
    *
    * @returns The node to be rendered for each item.
    */
-  children: (item: Item, itemIndex: number, thisItems: Item[]) => ReactNode;
+  children: (
+    item: Item,
+    itemIndex: number,
+    thisItems: Item[],
+    itemState: HoneyListItemState,
+  ) => ReactNode;
   /**
-   * The array of items to be displayed in the list.
+   * The array of items to be displayed in the list. Ignored when pre-grouped `groups` are provided.
    */
-  items: Item[] | undefined;
+  items?: Item[];
   /**
    * Optional function or key to uniquely identify each item in the list.
    */
   itemKey?: HoneyListItemKey<Item>;
 }
+
+export type HoneyListOrientation = 'vertical' | 'horizontal';
+
+/**
+ * Item size in pixels along the scroll axis: the height in a vertical list and the width in a
+ * horizontal list.
+ */
+export type HoneyListItemSize<Item extends HoneyListItem> =
+  number | ((item: Item, itemIndex: number) => number);
+
+export interface HoneyListScrollToOptions {
+  /**
+   * Where the item is placed in the viewport. `auto` scrolls only when the item is not fully
+   * visible, by the smallest distance.
+   *
+   * @default 'auto'
+   */
+  align?: 'start' | 'center' | 'end' | 'auto';
+  /**
+   * @default 'auto'
+   */
+  behavior?: ScrollBehavior;
+}
+
+/**
+ * Imperative handle of `HoneyList`. Scrolling to an item requires the `virtualized` mode.
+ *
+ * @template Item - The type of the items rendered in the list.
+ */
+export interface HoneyListHandle<Item extends HoneyListItem> {
+  /**
+   * Scrolls the list to an item by its index.
+   *
+   * @param itemIndex - The index of the item.
+   * @param options - Optional alignment and scroll behavior.
+   */
+  scrollToIndex: (itemIndex: number, options?: HoneyListScrollToOptions) => void;
+  /**
+   * Scrolls the list to an item by the ID returned from `getHoneyListItemId`.
+   *
+   * @param itemId - The ID of the item.
+   * @param options - Optional alignment and scroll behavior.
+   */
+  scrollToItem: (itemId: HoneyListItemId<Item>, options?: HoneyListScrollToOptions) => void;
+  /**
+   * Selects all enabled items in the `multiple` selection mode.
+   */
+  selectAll: () => void;
+  /**
+   * Deselects all items.
+   */
+  clearSelection: () => void;
+}
+
+/**
+ * Props of the virtualized rendering mode of `HoneyList`.
+ *
+ * @template Item - The type of the items rendered in the list.
+ */
+export interface HoneyListVirtualizationProps<Item extends HoneyListItem> {
+  /**
+   * Whether only the items inside the viewport, plus `overscan` items on each side, are rendered.
+   *
+   * The list must have a bounded size along the scroll axis, for example a fixed `$height`.
+   *
+   * @default false
+   */
+  virtualized?: boolean;
+  /**
+   * The scroll axis of a virtualized list.
+   *
+   * @default 'vertical'
+   */
+  orientation?: HoneyListOrientation;
+  /**
+   * Fixed item size, or a function returning the size of each item.
+   *
+   * When omitted, items are measured after they are rendered and `estimatedItemSize` is used
+   * for the items that have not been rendered yet. A function should keep the same reference
+   * between renders, since the item offsets are recalculated whenever it changes.
+   */
+  itemSize?: HoneyListItemSize<Item>;
+  /**
+   * Size used for the items that have not been measured yet.
+   *
+   * @default 40
+   */
+  estimatedItemSize?: number;
+  /**
+   * Number of items rendered outside the viewport on each side.
+   *
+   * @default 3
+   */
+  overscan?: number;
+  /**
+   * Imperative handle for scrolling a virtualized list to an item and updating the selection.
+   */
+  handleRef?: Ref<HoneyListHandle<Item>>;
+}
+
+/**
+ * Props of the infinite scrolling of `HoneyList`.
+ */
+export interface HoneyListInfiniteScrollProps {
+  /**
+   * Callback invoked when the end of the list is scrolled into view, used to load the next page.
+   * It may return a promise of the loaded page.
+   *
+   * It is not invoked again while `loadingMore` is `true` or while the returned promise is pending.
+   * After a page is loaded, it is invoked again only when the number of items has changed or when
+   * the end of the list is scrolled into view again.
+   */
+  onEndReached?: () => unknown;
+  /**
+   * Distance in pixels from the end of the list at which `onEndReached` is invoked.
+   *
+   * @default 200
+   */
+  endReachedThreshold?: number;
+  /**
+   * Whether there are more items to load. Set to `false` after the last page is loaded.
+   *
+   * @default true
+   */
+  hasMore?: boolean;
+  /**
+   * Whether the next page is loading. While a promise returned from `onEndReached` is pending,
+   * the list is also considered to be loading more items.
+   *
+   * @default false
+   */
+  loadingMore?: boolean;
+  /**
+   * The content displayed at the end of the list while more items are loading.
+   *
+   * @default null
+   */
+  loadingMoreContent?: ReactNode;
+  /**
+   * Whether the end of the list is at the start, as in chat-like lists where older items are loaded
+   * when scrolling up. Items added at the start keep the scroll position of the visible items.
+   *
+   * Added items are detected by their IDs, so object items must be identified with `itemKey`.
+   * Without it, the items are identified by their index and the scroll position is not kept.
+   *
+   * @default false
+   */
+  reverse?: boolean;
+}
+
+/**
+ * How the active item of a `navigable` list is exposed to assistive technologies.
+ *
+ * - `roving` - The active item receives the focus, and it is the only item in the tab sequence.
+ * - `activedescendant` - The list keeps the focus and refers to the active item with
+ *   `aria-activedescendant`.
+ */
+export type HoneyListFocusMode = 'roving' | 'activedescendant';
+
+/**
+ * Props of the keyboard navigation of `HoneyList`.
+ *
+ * @template Item - The type of the items rendered in the list.
+ */
+export interface HoneyListNavigationProps<Item extends HoneyListItem> {
+  /**
+   * Whether the list can be navigated with the keyboard.
+   *
+   * A navigable list has the `listbox` role and wraps each item in an element with the `option`
+   * role, so the rendered items must not have their own list item roles.
+   *
+   * @default false
+   */
+  navigable?: boolean;
+  /**
+   * @default 'roving'
+   */
+  focusMode?: HoneyListFocusMode;
+  /**
+   * The ID of the active item. When provided, the active item is controlled.
+   */
+  activeItemId?: Nullable<HoneyListItemId<Item>>;
+  /**
+   * Callback invoked when another item becomes active by keyboard, focus or click.
+   *
+   * @param itemId - The ID of the active item.
+   * @param item - The active item.
+   */
+  onActiveItemChange?: (itemId: HoneyListItemId<Item>, item: Item) => void;
+  /**
+   * Returns the text used to find an item by typing its first characters, and to name the item in
+   * the announcements of a `sortable` list. Typeahead search is disabled when omitted.
+   */
+  getItemLabel?: (item: Item) => string;
+  /**
+   * Returns whether an item is disabled. Disabled items are skipped by the keyboard navigation and
+   * cannot become active.
+   */
+  isItemDisabled?: (item: Item, itemIndex: number) => boolean;
+  /**
+   * Whether the arrow keys move from the last item to the first one and vice versa.
+   *
+   * @default false
+   */
+  wrapNavigation?: boolean;
+}
+
+export type HoneyListSelectionMode = 'none' | 'single' | 'multiple';
+
+/**
+ * Props of the item selection of `HoneyList`.
+ *
+ * @template Item - The type of the items rendered in the list.
+ */
+export interface HoneyListSelectionProps<Item extends HoneyListItem> {
+  /**
+   * Whether no item, one item or multiple items can be selected.
+   *
+   * A selectable list has the `listbox` role and wraps each item in an element with the `option`
+   * role. Items are selected by click: Ctrl or Cmd toggles an item, and Shift selects the items from
+   * the last selected one. In a `navigable` list, the Space key selects the active item, Shift with
+   * the navigation keys selects a range, and Ctrl+A or Cmd+A selects all items.
+   *
+   * @default 'none'
+   */
+  selectionMode?: HoneyListSelectionMode;
+  /**
+   * The IDs of the selected items. When provided, the selection is controlled.
+   */
+  selectedItemIds?: HoneyListItemId<Item>[];
+  /**
+   * The IDs of the initially selected items of an uncontrolled selection.
+   *
+   * @default []
+   */
+  defaultSelectedItemIds?: HoneyListItemId<Item>[];
+  /**
+   * Callback invoked when the selection changes.
+   *
+   * @param selectedItemIds - The IDs of the selected items.
+   */
+  onSelectionChange?: (selectedItemIds: HoneyListItemId<Item>[]) => void;
+}
+
+export type HoneyListGroupKey = string | number;
+
+/**
+ * A group of items rendered under a common header.
+ *
+ * @template Item - The type of the items in the group.
+ */
+export interface HoneyListGroup<Item extends HoneyListItem> {
+  key: HoneyListGroupKey;
+  items: Item[];
+}
+
+/**
+ * The state of a group, passed to the group header render function.
+ */
+export interface HoneyListGroupState {
+  /**
+   * Whether the items of the group are hidden.
+   */
+  isCollapsed: boolean;
+  /**
+   * Collapses or expands the group.
+   */
+  toggle: () => void;
+}
+
+/**
+ * Props of the grouped rendering of `HoneyList`.
+ *
+ * Item indexes refer to the items of the expanded groups in the order of the groups. Grouping is not
+ * supported in the `virtualized` mode.
+ *
+ * @template Item - The type of the items rendered in the list.
+ */
+export interface HoneyListGroupingProps<Item extends HoneyListItem> {
+  /**
+   * Returns the key of the group an item belongs to. Groups are ordered by the first appearance of
+   * their items, and the items keep their order within a group.
+   */
+  groupBy?: (item: Item) => HoneyListGroupKey;
+  /**
+   * Already grouped items, rendered instead of `items`. Groups may have no items.
+   */
+  groups?: HoneyListGroup<Item>[];
+  /**
+   * Renders the header of a group.
+   *
+   * @param group - The group.
+   * @param groupState - The collapsed state of the group and the function toggling it.
+   *
+   * @returns The header content.
+   */
+  renderGroupHeader?: (group: HoneyListGroup<Item>, groupState: HoneyListGroupState) => ReactNode;
+  /**
+   * Whether group headers stick to the start of the list while the items of their group are
+   * scrolled. Headers must have a background to cover the items scrolled under them.
+   *
+   * @default false
+   */
+  stickyGroupHeaders?: boolean;
+  /**
+   * The keys of the collapsed groups. When provided, the collapsed groups are controlled.
+   */
+  collapsedGroupKeys?: HoneyListGroupKey[];
+  /**
+   * The keys of the initially collapsed groups of an uncontrolled list.
+   *
+   * @default []
+   */
+  defaultCollapsedGroupKeys?: HoneyListGroupKey[];
+  /**
+   * Callback invoked when a group is collapsed or expanded.
+   *
+   * @param collapsedGroupKeys - The keys of the collapsed groups.
+   */
+  onCollapsedGroupKeysChange?: (collapsedGroupKeys: HoneyListGroupKey[]) => void;
+  /**
+   * The content displayed in an expanded group without items.
+   *
+   * @default null
+   */
+  groupEmptyContent?: ReactNode | ((group: HoneyListGroup<Item>) => ReactNode);
+}
+
+/**
+ * Props of the drag and drop reordering of `HoneyList`.
+ *
+ * @template Item - The type of the items rendered in the list.
+ */
+export interface HoneyListSortableProps<Item extends HoneyListItem> {
+  /**
+   * Whether the items can be reordered by dragging them with a pointer or the keyboard.
+   *
+   * With the keyboard, the Space key picks up the focused item, the arrow keys, Home and End move it,
+   * Space drops it and Escape cancels the move. In a `navigable` list the active item is picked up,
+   * so the Space key no longer selects items.
+   * The list does not reorder the items itself, `onReorder` must update them.
+   *
+   * @default false
+   */
+  sortable?: boolean;
+  /**
+   * Callback invoked when an item is dropped at another position.
+   *
+   * @param fromIndex - The index of the moved item.
+   * @param toIndex - The index of the item after the move.
+   * @param item - The moved item.
+   */
+  onReorder?: (fromIndex: number, toIndex: number, item: Item) => void;
+}
+
+/**
+ * Props of the item animations of `HoneyList`.
+ */
+export interface HoneyListItemAnimationProps {
+  /**
+   * Whether items transition in when added, transition out before they are unmounted when removed,
+   * and move to their new positions with a transition when the items change order.
+   *
+   * Items are tracked by the IDs returned from `getHoneyListItemId`, so `itemKey` should identify the
+   * items. Each item is wrapped in an element that carries the transitions. Item animations are not
+   * supported in the `virtualized` or grouped mode.
+   *
+   * @default false
+   */
+  animateItems?: boolean;
+  /**
+   * Duration of the item transitions in milliseconds. Removed items are unmounted after this delay.
+   *
+   * @default 200
+   */
+  itemTransitionDurationMs?: number;
+  /**
+   * Effect styling the item wrappers. An added item is rendered with `active` set to `false`, then
+   * to `true` to transition in.
+   *
+   * @default honeyVisibilityTransitionEffect({ durationMs: itemTransitionDurationMs })
+   */
+  itemEnterEffect?: HoneyEffectResultFn<HoneyVisibilityTransitionEffectContextProps>;
+  /**
+   * Effect styling the wrapper of a removed item, rendered with `active` set to `false` until the item
+   * is unmounted.
+   *
+   * @default itemEnterEffect
+   */
+  itemExitEffect?: HoneyEffectResultFn<HoneyVisibilityTransitionEffectContextProps>;
+}
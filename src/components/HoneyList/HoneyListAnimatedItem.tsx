@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+
+import { HoneyListAnimatedItemStyled } from './HoneyListStyled';
+import type { HoneyBoxProps } from '../HoneyBox';
+import type { HoneyListAnimatedItemStyledProps } from './HoneyListStyled';
+
+// The transition state is controlled by the item itself
+export type HoneyListAnimatedItemProps = HoneyBoxProps &
+  Pick<HoneyListAnimatedItemStyledProps, 'exiting' | 'enterEffect' | 'exitEffect'> & {
+    /**
+     * Whether the item transitions in when mounted.
+     */
+    appear: boolean;
+  };
+
+export const HoneyListAnimatedItem = ({
+  appear,
+  exiting,
+  ...props
+}: HoneyListAnimatedItemProps) => {
+  const [isTransitionActive, setIsTransitionActive] = useState(!appear);
+
+  useEffect(() => {
+    if (isTransitionActive) {
+      return;
+    }
+
+    // Start the enter transition after the initial styles are applied
+    const animationFrameId = requestAnimationFrame(() => setIsTransitionActive(true));
+
+    return () => {
+      cancelAnimationFrame(animationFrameId);
+    };
+  }, []);
+
+  return (
+    <HoneyListAnimatedItemStyled
+      active={isTransitionActive && !exiting}
+      exiting={exiting}
+      // ARIA
+      aria-hidden={exiting || undefined}
+      // Data
+      data-testid="honey-list-animated-item"
+      data-exiting={exiting || undefined}
+      {...props}
+    />
+  );
+};
@@ -1,6 +1,10 @@
 import { styled } from '@react-hive/honey-style';
 
+import { HoneyBox } from '../HoneyBox';
 import { HoneyFlex } from '../HoneyFlex';
+import type { HoneyEffectResultFn } from '../../types';
+import type { HoneyVisibilityTransitionEffectContextProps } from '../../effects';
+import type { HoneyBoxProps } from '../HoneyBox';
 import type { HoneyFlexProps } from '../HoneyFlex';
 
 export type HoneyListStyledProps = HoneyFlexProps;
@@ -11,3 +15,37 @@ export const HoneyListStyled = styled<HoneyListStyledProps>(
     $overflow,
   }),
 )``;
+
+/**
+ * Visually hidden element announcing the reordering of a sortable list to screen readers.
+ */
+export const HoneyListLiveRegionStyled = styled('div')`
+  position: absolute;
+  width: 1px;
+  height: 1px;
+  margin: -1px;
+  padding: 0;
+  border: 0;
+  overflow: hidden;
+  clip-path: inset(50%);
+  white-space: nowrap;
+`;
+
+export type HoneyListAnimatedItemStyledProps = HoneyBoxProps &
+  HoneyVisibilityTransitionEffectContextProps & {
+    /**
+     * Whether the item is removed and transitions out.
+     */
+    exiting: boolean;
+    enterEffect: HoneyEffectResultFn<HoneyVisibilityTransitionEffectContextProps>;
+    exitEffect: HoneyEffectResultFn<HoneyVisibilityTransitionEffectContextProps>;
+  };
+
+export const HoneyListAnimatedItemStyled = styled<HoneyListAnimatedItemStyledProps>(
+  HoneyBox,
+  ({ $flexShrink = 0 }) => ({
+    $flexShrink,
+  }),
+)`
+  ${({ exiting, enterEffect, exitEffect }) => (exiting ? exitEffect : enterEffect)};
+`;
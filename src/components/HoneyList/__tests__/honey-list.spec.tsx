@@ -1,10 +1,11 @@
-import React from 'react';
-import { render } from '@testing-library/react';
+import React, { createRef } from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
 import type { ReactElement } from 'react';
 
 import { themeMock } from '../../../__mocks__';
 import { HoneyLayoutProvider } from '../../../providers';
 import { HoneyList } from '../HoneyList';
+import type { HoneyListHandle } from '../HoneyList.types';
 
 const generateItems = (length: number) =>
   Array.from({ length }).map((_, index) => ({
@@ -56,3 +57,1216 @@ describe('[HoneyList]: basic behavior', () => {
     expect(getByTestId('honey-list')).toHaveTextContent(items.map(item => item.name).join(''));
   });
 });
+
+describe('[HoneyList]: virtualized', () => {
+  beforeEach(() => {
+    vitest.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(100);
+    vitest.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(100);
+  });
+
+  afterEach(() => {
+    vitest.restoreAllMocks();
+  });
+
+  const getRenderedIndexes = (list: HTMLElement) =>
+    Array.from(list.querySelectorAll('[data-index]')).map(element =>
+      Number(element.getAttribute('data-index')),
+    );
+
+  it('should render only the items inside the viewport and the overscan', () => {
+    const { getByTestId } = customRender(
+      <HoneyList
+        items={generateItems(1000)}
+        itemKey="id"
+        virtualized={true}
+        itemSize={20}
+        overscan={2}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    expect(getRenderedIndexes(getByTestId('honey-list'))).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(getByTestId('honey-list-virtual-content').style.height).toBe('20000px');
+  });
+
+  it('should update the rendered items when the list is scrolled', () => {
+    const { getByTestId } = customRender(
+      <HoneyList
+        items={generateItems(1000)}
+        itemKey="id"
+        virtualized={true}
+        itemSize={20}
+        overscan={2}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+
+    list.scrollTop = 500;
+    fireEvent.scroll(list);
+
+    expect(getRenderedIndexes(list)).toEqual([23, 24, 25, 26, 27, 28, 29, 30, 31]);
+    expect(list.querySelector('[data-index="25"]')).toHaveStyle({
+      transform: 'translateY(500px)',
+    });
+  });
+
+  it('should use the size returned by the `itemSize` function', () => {
+    const { getByTestId } = customRender(
+      <HoneyList
+        items={generateItems(10)}
+        virtualized={true}
+        itemSize={item => (item.id % 2 ? 10 : 30)}
+        overscan={0}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    // 30 + 10 + 30 + 10 + 30 covers the 100px viewport
+    expect(getRenderedIndexes(getByTestId('honey-list'))).toEqual([0, 1, 2, 3, 4]);
+    expect(getByTestId('honey-list-virtual-content').style.height).toBe('200px');
+  });
+
+  it('should use the estimated size for items that were not measured', () => {
+    const { getByTestId } = customRender(
+      <HoneyList items={generateItems(100)} virtualized={true} estimatedItemSize={50} overscan={0}>
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    expect(getRenderedIndexes(getByTestId('honey-list'))).toEqual([0, 1]);
+    expect(getByTestId('honey-list-virtual-content').style.height).toBe('5000px');
+  });
+
+  it('should virtualize a horizontal list', () => {
+    const { getByTestId } = customRender(
+      <HoneyList
+        items={generateItems(100)}
+        virtualized={true}
+        orientation="horizontal"
+        itemSize={25}
+        overscan={0}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+
+    list.scrollLeft = 50;
+    fireEvent.scroll(list);
+
+    expect(getRenderedIndexes(list)).toEqual([2, 3, 4, 5]);
+    expect(getByTestId('honey-list-virtual-content').style.width).toBe('2500px');
+  });
+
+  it('should scroll to an item by its ID using the handle', () => {
+    const handleRef = createRef<HoneyListHandle<{ id: number; name: string }>>();
+
+    const { getByTestId } = customRender(
+      <HoneyList
+        items={generateItems(1000)}
+        itemKey="id"
+        virtualized={true}
+        itemSize={20}
+        handleRef={handleRef}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+    list.scrollTo = vitest.fn();
+
+    act(() => {
+      handleRef.current?.scrollToItem(50, { align: 'start' });
+    });
+
+    expect(list.scrollTo).toHaveBeenCalledWith({ top: 1000, behavior: undefined });
+
+    act(() => {
+      handleRef.current?.scrollToIndex(50, { align: 'center' });
+    });
+
+    expect(list.scrollTo).toHaveBeenCalledWith({ top: 960, behavior: undefined });
+  });
+
+  it('should not scroll to an item that is already visible when aligned automatically', () => {
+    const handleRef = createRef<HoneyListHandle<{ id: number; name: string }>>();
+
+    const { getByTestId } = customRender(
+      <HoneyList items={generateItems(1000)} virtualized={true} itemSize={20} handleRef={handleRef}>
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+    list.scrollTo = vitest.fn();
+
+    act(() => {
+      handleRef.current?.scrollToIndex(2);
+    });
+
+    expect(list.scrollTo).not.toHaveBeenCalled();
+  });
+
+  it('should keep rendering the empty state', () => {
+    const { getByTestId } = customRender(
+      <HoneyList items={[]} virtualized={true} emptyContent="No items">
+        {item => item}
+      </HoneyList>,
+    );
+
+    expect(getByTestId('honey-list')).toHaveTextContent('No items');
+  });
+});
+
+describe('[HoneyList]: infinite scrolling', () => {
+  let intersectionObservers: MockIntersectionObserver[] = [];
+
+  class MockIntersectionObserver {
+    readonly callback: IntersectionObserverCallback;
+    readonly options: IntersectionObserverInit | undefined;
+
+    constructor(callback: IntersectionObserverCallback, options?: IntersectionObserverInit) {
+      this.callback = callback;
+      this.options = options;
+
+      intersectionObservers.push(this);
+    }
+
+    observe = vitest.fn();
+    disconnect = vitest.fn();
+
+    intersect(isIntersecting: boolean) {
+      act(() => {
+        this.callback(
+          [{ isIntersecting } as IntersectionObserverEntry],
+          this as unknown as IntersectionObserver,
+        );
+      });
+    }
+  }
+
+  const getLastObserver = () => intersectionObservers[intersectionObservers.length - 1];
+
+  beforeEach(() => {
+    intersectionObservers = [];
+
+    vitest.stubGlobal('IntersectionObserver', MockIntersectionObserver);
+  });
+
+  afterEach(() => {
+    vitest.unstubAllGlobals();
+    vitest.restoreAllMocks();
+  });
+
+  it('should invoke `onEndReached` when the end of the list comes within the threshold', () => {
+    const onEndReached = vitest.fn();
+
+    customRender(
+      <HoneyList items={generateItems(10)} onEndReached={onEndReached} endReachedThreshold={300}>
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    expect(getLastObserver().options?.rootMargin).toBe('0px 0px 300px 0px');
+
+    getLastObserver().intersect(true);
+
+    expect(onEndReached).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not invoke `onEndReached` again while a page is loading', async () => {
+    let resolvePage: () => void = () => {};
+
+    const onEndReached = vitest.fn(() => new Promise<void>(resolve => (resolvePage = resolve)));
+
+    const { getByText, queryByText } = customRender(
+      <HoneyList
+        items={generateItems(10)}
+        onEndReached={onEndReached}
+        loadingMoreContent="Loading more"
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    getLastObserver().intersect(true);
+    getLastObserver().intersect(false);
+    getLastObserver().intersect(true);
+
+    expect(onEndReached).toHaveBeenCalledTimes(1);
+    expect(getByText('Loading more')).toBeInTheDocument();
+
+    await act(async () => {
+      resolvePage();
+    });
+
+    expect(queryByText('Loading more')).toBeNull();
+  });
+
+  it('should not invoke `onEndReached` while `loadingMore` is set', () => {
+    const onEndReached = vitest.fn();
+
+    customRender(
+      <HoneyList items={generateItems(10)} onEndReached={onEndReached} loadingMore={true}>
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    getLastObserver().intersect(true);
+
+    expect(onEndReached).not.toHaveBeenCalled();
+  });
+
+  it('should invoke `onEndReached` again when the end stays visible after a page is loaded', () => {
+    const onEndReached = vitest.fn();
+
+    const { rerender } = customRender(
+      <HoneyList items={generateItems(10)} onEndReached={onEndReached}>
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    getLastObserver().intersect(true);
+
+    rerender(
+      <HoneyLayoutProvider theme={themeMock}>
+        <HoneyList items={generateItems(20)} onEndReached={onEndReached}>
+          {item => item.name}
+        </HoneyList>
+      </HoneyLayoutProvider>,
+    );
+
+    expect(onEndReached).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not render the sentinel when there are no more items', () => {
+    const { queryByTestId } = customRender(
+      <HoneyList items={generateItems(10)} onEndReached={vitest.fn()} hasMore={false}>
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    expect(queryByTestId('honey-list-end-sentinel')).toBeNull();
+    expect(intersectionObservers).toHaveLength(0);
+  });
+
+  it('should render the sentinel and the loading more content before the items in reverse mode', () => {
+    const { getByTestId } = customRender(
+      <HoneyList
+        items={generateItems(3)}
+        onEndReached={vitest.fn()}
+        loadingMore={true}
+        loadingMoreContent={<span data-testid="loading-more" />}
+        reverse={true}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+
+    expect(list.firstElementChild).toBe(getByTestId('honey-list-end-sentinel'));
+    expect(list.children[1]).toBe(getByTestId('loading-more'));
+    expect(getLastObserver().options?.rootMargin).toBe('200px 0px 0px 0px');
+  });
+
+  it('should keep the scroll position when items are added at the start in reverse mode', () => {
+    let scrollHeight = 1000;
+
+    vitest
+      .spyOn(HTMLElement.prototype, 'scrollHeight', 'get')
+      .mockImplementation(() => scrollHeight);
+
+    const items = generateItems(20);
+
+    const { getByTestId, rerender } = customRender(
+      <HoneyList items={items.slice(10)} itemKey="id" reverse={true}>
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+    list.scrollTop = 50;
+
+    scrollHeight = 2000;
+
+    rerender(
+      <HoneyLayoutProvider theme={themeMock}>
+        <HoneyList items={items} itemKey="id" reverse={true}>
+          {item => item.name}
+        </HoneyList>
+      </HoneyLayoutProvider>,
+    );
+
+    expect(list.scrollTop).toBe(1050);
+  });
+});
+
+describe('[HoneyList]: keyboard navigation', () => {
+  const items = generateItems(5);
+
+  const getOptions = (list: HTMLElement) => Array.from(list.querySelectorAll('[role="option"]'));
+
+  it('should move the focus with the arrow keys using a roving tabindex', () => {
+    const onActiveItemChange = vitest.fn();
+
+    const { getByTestId } = customRender(
+      <HoneyList
+        items={items}
+        itemKey="id"
+        navigable={true}
+        onActiveItemChange={onActiveItemChange}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+    const options = getOptions(list);
+
+    expect(list).toHaveAttribute('role', 'listbox');
+    expect(options.map(option => option.getAttribute('tabindex'))).toEqual([
+      '0',
+      '-1',
+      '-1',
+      '-1',
+      '-1',
+    ]);
+
+    fireEvent.keyDown(options[0], { key: 'ArrowDown' });
+
+    expect(onActiveItemChange).toHaveBeenCalledWith(0, items[0]);
+    expect(options[0]).toHaveFocus();
+
+    fireEvent.keyDown(options[0], { key: 'ArrowDown' });
+
+    expect(onActiveItemChange).toHaveBeenLastCalledWith(1, items[1]);
+    expect(options[1]).toHaveFocus();
+    expect(options[1]).toHaveAttribute('tabindex', '0');
+    expect(options[0]).toHaveAttribute('tabindex', '-1');
+  });
+
+  it('should skip disabled items and move to the first and last items with Home and End', () => {
+    const { getByTestId } = customRender(
+      <HoneyList
+        items={items}
+        itemKey="id"
+        navigable={true}
+        isItemDisabled={item => item.id === 0 || item.id === 4}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const options = getOptions(getByTestId('honey-list'));
+
+    expect(options[1]).toHaveAttribute('tabindex', '0');
+    expect(options[0]).toHaveAttribute('aria-disabled', 'true');
+
+    fireEvent.keyDown(options[1], { key: 'End' });
+
+    expect(options[3]).toHaveFocus();
+
+    fireEvent.keyDown(options[3], { key: 'Home' });
+
+    expect(options[1]).toHaveFocus();
+  });
+
+  it('should wrap around only when `wrapNavigation` is enabled', () => {
+    const { getByTestId, rerender } = customRender(
+      <HoneyList items={items} itemKey="id" navigable={true} activeItemId={0}>
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+
+    fireEvent.keyDown(getOptions(list)[0], { key: 'ArrowUp' });
+
+    expect(getOptions(list)[4]).not.toHaveFocus();
+
+    rerender(
+      <HoneyLayoutProvider theme={themeMock}>
+        <HoneyList
+          items={items}
+          itemKey="id"
+          navigable={true}
+          activeItemId={0}
+          wrapNavigation={true}
+        >
+          {item => item.name}
+        </HoneyList>
+      </HoneyLayoutProvider>,
+    );
+
+    fireEvent.keyDown(getOptions(list)[0], { key: 'ArrowUp' });
+
+    expect(getOptions(list)[4]).toHaveFocus();
+  });
+
+  it('should move by a page with PageDown and PageUp', () => {
+    const { getByTestId } = customRender(
+      <HoneyList items={generateItems(30)} itemKey="id" navigable={true}>
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const options = getOptions(getByTestId('honey-list'));
+
+    // Item sizes are not available in jsdom, so the default page size is used
+    fireEvent.keyDown(options[0], { key: 'PageDown' });
+
+    expect(options[10]).toHaveFocus();
+
+    fireEvent.keyDown(options[10], { key: 'PageUp' });
+
+    expect(options[0]).toHaveFocus();
+  });
+
+  it('should find an item by typing the first characters of its label', () => {
+    const labels = ['Apple', 'Banana', 'Blueberry', 'Cherry'];
+
+    const { getByTestId } = customRender(
+      <HoneyList items={labels} navigable={true} getItemLabel={label => label}>
+        {label => label}
+      </HoneyList>,
+    );
+
+    const options = getOptions(getByTestId('honey-list'));
+
+    fireEvent.keyDown(options[0], { key: 'b' });
+    fireEvent.keyDown(options[1], { key: 'l' });
+
+    expect(options[2]).toHaveFocus();
+  });
+
+  it('should refer to the active item with `aria-activedescendant`', () => {
+    const { getByTestId } = customRender(
+      <HoneyList items={items} itemKey="id" navigable={true} focusMode="activedescendant">
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+    const options = getOptions(list);
+
+    expect(list).toHaveAttribute('tabindex', '0');
+    expect(list).not.toHaveAttribute('aria-activedescendant');
+    expect(options[0]).not.toHaveAttribute('tabindex');
+
+    list.focus();
+    fireEvent.keyDown(list, { key: 'ArrowDown' });
+    fireEvent.keyDown(list, { key: 'ArrowDown' });
+
+    expect(list).toHaveAttribute('aria-activedescendant', options[1].id);
+    expect(list).toHaveFocus();
+  });
+
+  it('should pass the active state to the item render function', () => {
+    const { getByTestId } = customRender(
+      <HoneyList items={items} itemKey="id" navigable={true} activeItemId={2}>
+        {(item, _, __, { isActive }) => `${item.name}${isActive ? ' (active)' : ''}`}
+      </HoneyList>,
+    );
+
+    expect(getOptions(getByTestId('honey-list'))[2]).toHaveTextContent('name-2 (active)');
+  });
+});
+
+describe('[HoneyList]: selection', () => {
+  const items = generateItems(5);
+
+  const getOptions = (list: HTMLElement) => Array.from(list.querySelectorAll('[role="option"]'));
+
+  const getSelectedIndexes = (list: HTMLElement) =>
+    getOptions(list)
+      .map((option, index) => (option.getAttribute('aria-selected') === 'true' ? index : -1))
+      .filter(index => index !== -1);
+
+  it('should not mark items as selectable without a selection mode', () => {
+    const { getByTestId } = customRender(
+      <HoneyList items={items} itemKey="id" navigable={true}>
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    expect(getOptions(getByTestId('honey-list'))[0]).not.toHaveAttribute('aria-selected');
+  });
+
+  it('should select a single item by click', () => {
+    const onSelectionChange = vitest.fn();
+
+    const { getByTestId } = customRender(
+      <HoneyList
+        items={items}
+        itemKey="id"
+        selectionMode="single"
+        onSelectionChange={onSelectionChange}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+
+    expect(list).toHaveAttribute('role', 'listbox');
+    expect(list).not.toHaveAttribute('aria-multiselectable');
+
+    fireEvent.click(getOptions(list)[1]);
+    fireEvent.click(getOptions(list)[3]);
+
+    expect(onSelectionChange).toHaveBeenLastCalledWith([3]);
+    expect(getSelectedIndexes(list)).toEqual([3]);
+  });
+
+  it('should toggle items with Ctrl or Cmd and select a range with Shift', () => {
+    const { getByTestId } = customRender(
+      <HoneyList items={items} itemKey="id" selectionMode="multiple">
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+
+    expect(list).toHaveAttribute('aria-multiselectable', 'true');
+
+    fireEvent.click(getOptions(list)[0]);
+    fireEvent.click(getOptions(list)[2], { metaKey: true });
+
+    expect(getSelectedIndexes(list)).toEqual([0, 2]);
+
+    fireEvent.click(getOptions(list)[0], { ctrlKey: true });
+
+    expect(getSelectedIndexes(list)).toEqual([2]);
+
+    fireEvent.click(getOptions(list)[4], { shiftKey: true });
+
+    expect(getSelectedIndexes(list)).toEqual([2, 3, 4]);
+  });
+
+  it('should not select disabled items', () => {
+    const { getByTestId } = customRender(
+      <HoneyList
+        items={items}
+        itemKey="id"
+        selectionMode="multiple"
+        isItemDisabled={item => item.id === 2}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+
+    fireEvent.click(getOptions(list)[2]);
+
+    expect(getSelectedIndexes(list)).toEqual([]);
+
+    fireEvent.click(getOptions(list)[1]);
+    fireEvent.click(getOptions(list)[3], { shiftKey: true });
+
+    expect(getSelectedIndexes(list)).toEqual([1, 3]);
+  });
+
+  it('should select with the keyboard in a navigable list', () => {
+    const { getByTestId } = customRender(
+      <HoneyList items={items} itemKey="id" navigable={true} selectionMode="multiple">
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+    const options = getOptions(list);
+
+    fireEvent.keyDown(options[0], { key: 'ArrowDown' });
+    fireEvent.keyDown(options[0], { key: ' ' });
+
+    expect(getSelectedIndexes(list)).toEqual([0]);
+
+    fireEvent.keyDown(options[0], { key: 'ArrowDown', shiftKey: true });
+    fireEvent.keyDown(options[1], { key: 'ArrowDown', shiftKey: true });
+
+    expect(getSelectedIndexes(list)).toEqual([0, 1, 2]);
+
+    fireEvent.keyDown(options[2], { key: 'a', ctrlKey: true });
+
+    expect(getSelectedIndexes(list)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should keep a controlled selection until it is updated', () => {
+    const onSelectionChange = vitest.fn();
+
+    const { getByTestId } = customRender(
+      <HoneyList
+        items={items}
+        itemKey="id"
+        selectionMode="multiple"
+        selectedItemIds={[1]}
+        onSelectionChange={onSelectionChange}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+
+    fireEvent.click(getOptions(list)[3], { ctrlKey: true });
+
+    expect(onSelectionChange).toHaveBeenCalledWith([1, 3]);
+    expect(getSelectedIndexes(list)).toEqual([1]);
+  });
+
+  it('should pass the selected state and the toggle function to the item render function', () => {
+    const { getByTestId, getAllByRole } = customRender(
+      <HoneyList items={items} itemKey="id" selectionMode="multiple" defaultSelectedItemIds={[0]}>
+        {(item, _, __, { isSelected, toggle }) => (
+          <button
+            type="button"
+            onClick={e => {
+              e.stopPropagation();
+              toggle();
+            }}
+          >
+            {item.name}
+            {isSelected ? ' (selected)' : ''}
+          </button>
+        )}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+
+    expect(list).toHaveTextContent('name-0 (selected)');
+
+    fireEvent.click(getAllByRole('button')[2]);
+
+    expect(getSelectedIndexes(list)).toEqual([0, 2]);
+  });
+
+  it('should select and clear all items using the handle', () => {
+    const handleRef = createRef<HoneyListHandle<{ id: number; name: string }>>();
+
+    const { getByTestId } = customRender(
+      <HoneyList items={items} itemKey="id" selectionMode="multiple" handleRef={handleRef}>
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const list = getByTestId('honey-list');
+
+    act(() => {
+      handleRef.current?.selectAll();
+    });
+
+    expect(getSelectedIndexes(list)).toHaveLength(5);
+
+    act(() => {
+      handleRef.current?.clearSelection();
+    });
+
+    expect(getSelectedIndexes(list)).toEqual([]);
+  });
+});
+
+describe('[HoneyList]: groups', () => {
+  const contacts = [
+    { id: 1, name: 'Anna' },
+    { id: 2, name: 'Bob' },
+    { id: 3, name: 'Alex' },
+    { id: 4, name: 'Ben' },
+  ];
+
+  const groupByInitial = (contact: { name: string }) => contact.name[0];
+
+  it('should group items by the `groupBy` accessor in the order of their first appearance', () => {
+    const { getAllByTestId } = customRender(
+      <HoneyList
+        items={contacts}
+        itemKey="id"
+        groupBy={groupByInitial}
+        renderGroupHeader={group => `Group ${group.key}`}
+      >
+        {contact => <span>{contact.name}</span>}
+      </HoneyList>,
+    );
+
+    const groups = getAllByTestId('honey-list-group');
+
+    expect(groups.map(group => group.getAttribute('data-group-key'))).toEqual(['A', 'B']);
+    expect(groups[0]).toHaveTextContent('Group AAnnaAlex');
+    expect(groups[1]).toHaveTextContent('Group BBobBen');
+  });
+
+  it('should render already grouped items with a group-level empty state', () => {
+    const { getAllByTestId } = customRender(
+      <HoneyList
+        groups={[
+          { key: 'online', items: ['Anna'] },
+          { key: 'offline', items: [] },
+        ]}
+        groupEmptyContent={group => `No ${group.key} contacts`}
+      >
+        {name => name}
+      </HoneyList>,
+    );
+
+    const groups = getAllByTestId('honey-list-group');
+
+    expect(groups[0]).toHaveTextContent('Anna');
+    expect(groups[1]).toHaveTextContent('No offline contacts');
+  });
+
+  it('should collapse and expand a group using the header toggle', () => {
+    const onCollapsedGroupKeysChange = vitest.fn();
+
+    const { getAllByRole, getAllByTestId, queryByText } = customRender(
+      <HoneyList
+        items={contacts}
+        itemKey="id"
+        groupBy={groupByInitial}
+        renderGroupHeader={(group, { isCollapsed, toggle }) => (
+          <button type="button" onClick={toggle} aria-expanded={!isCollapsed}>
+            {group.key}
+          </button>
+        )}
+        onCollapsedGroupKeysChange={onCollapsedGroupKeysChange}
+      >
+        {contact => contact.name}
+      </HoneyList>,
+    );
+
+    fireEvent.click(getAllByRole('button')[0]);
+
+    expect(onCollapsedGroupKeysChange).toHaveBeenCalledWith(['A']);
+    expect(getAllByTestId('honey-list-group')[0]).toHaveAttribute('data-collapsed', 'true');
+    expect(queryByText('Anna')).toBeNull();
+    expect(queryByText('Bob')).not.toBeNull();
+
+    fireEvent.click(getAllByRole('button')[0]);
+
+    expect(queryByText('Anna')).not.toBeNull();
+  });
+
+  it('should make group headers sticky', () => {
+    const { getAllByTestId } = customRender(
+      <HoneyList
+        items={contacts}
+        itemKey="id"
+        groupBy={groupByInitial}
+        renderGroupHeader={group => group.key}
+        stickyGroupHeaders={true}
+      >
+        {contact => contact.name}
+      </HoneyList>,
+    );
+
+    expect(getAllByTestId('honey-list-group-header')[0]).toHaveStyle({
+      position: 'sticky',
+      top: '0px',
+    });
+  });
+
+  it('should label the option groups of a navigable list and skip collapsed groups', () => {
+    const { getAllByRole } = customRender(
+      <HoneyList
+        items={contacts}
+        itemKey="id"
+        navigable={true}
+        groupBy={groupByInitial}
+        renderGroupHeader={group => `Group ${group.key}`}
+        defaultCollapsedGroupKeys={['A']}
+      >
+        {contact => contact.name}
+      </HoneyList>,
+    );
+
+    const groups = getAllByRole('group');
+
+    expect(groups[1]).toHaveAccessibleName('Group B');
+
+    const options = getAllByRole('option');
+
+    expect(options.map(option => option.textContent)).toEqual(['Bob', 'Ben']);
+
+    fireEvent.keyDown(options[0], { key: 'End' });
+
+    expect(options[1]).toHaveFocus();
+  });
+
+  it('should throw when grouped items are virtualized', () => {
+    vitest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() =>
+      customRender(
+        <HoneyList items={contacts} groupBy={groupByInitial} virtualized={true}>
+          {contact => contact.name}
+        </HoneyList>,
+      ),
+    ).toThrow();
+
+    vitest.restoreAllMocks();
+  });
+});
+
+describe('[HoneyList]: sortable', () => {
+  const items = generateItems(3);
+
+  it('should reorder an item with the keyboard and announce the moves', () => {
+    const onReorder = vitest.fn();
+
+    const { getAllByRole, getByTestId } = customRender(
+      <HoneyList items={items} itemKey="id" sortable={true} onReorder={onReorder}>
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const listItems = getAllByRole('listitem');
+    const liveRegion = getByTestId('honey-list-live-region');
+
+    expect(liveRegion).toHaveAttribute('role', 'status');
+
+    fireEvent.keyDown(listItems[0], { key: ' ' });
+
+    expect(listItems[0]).toHaveAttribute('data-dragging', 'true');
+    expect(liveRegion).toHaveTextContent('Picked up item 1, position 1 of 3.');
+
+    fireEvent.keyDown(listItems[0], { key: 'ArrowDown' });
+    fireEvent.keyDown(listItems[0], { key: 'ArrowDown' });
+
+    expect(listItems[2]).toHaveAttribute('data-drop-position', 'after');
+    expect(liveRegion).toHaveTextContent('item 1 moved to position 3 of 3.');
+
+    fireEvent.keyDown(listItems[0], { key: ' ' });
+
+    expect(onReorder).toHaveBeenCalledWith(0, 2, items[0]);
+    expect(listItems[0]).not.toHaveAttribute('data-dragging');
+    expect(listItems[2]).not.toHaveAttribute('data-drop-position');
+    expect(liveRegion).toHaveTextContent('item 1 dropped at position 3 of 3.');
+  });
+
+  it('should cancel a keyboard drag with Escape without propagating the key', () => {
+    const onReorder = vitest.fn();
+    const onDocumentKeyUp = vitest.fn();
+
+    document.addEventListener('keyup', onDocumentKeyUp);
+
+    const { getAllByRole, getByTestId } = customRender(
+      <HoneyList
+        items={items}
+        itemKey="id"
+        sortable={true}
+        onReorder={onReorder}
+        getItemLabel={item => item.name}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const listItems = getAllByRole('listitem');
+
+    fireEvent.keyDown(listItems[2], { key: ' ' });
+    fireEvent.keyDown(listItems[2], { key: 'ArrowUp' });
+
+    expect(listItems[1]).toHaveAttribute('data-drop-position', 'before');
+
+    fireEvent.keyDown(listItems[2], { key: 'Escape' });
+    fireEvent.keyUp(listItems[2], { key: 'Escape' });
+
+    expect(onReorder).not.toHaveBeenCalled();
+    expect(onDocumentKeyUp).not.toHaveBeenCalled();
+    expect(listItems[1]).not.toHaveAttribute('data-drop-position');
+    expect(getByTestId('honey-list-live-region')).toHaveTextContent(
+      'Reordering cancelled. name-2 returned to position 3 of 3.',
+    );
+
+    document.removeEventListener('keyup', onDocumentKeyUp);
+  });
+
+  it('should pick up the active item of a navigable list', () => {
+    const onReorder = vitest.fn();
+
+    const { getAllByRole } = customRender(
+      <HoneyList
+        items={items}
+        itemKey="id"
+        navigable={true}
+        selectionMode="single"
+        sortable={true}
+        onReorder={onReorder}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const options = getAllByRole('option');
+
+    act(() => {
+      options[1].focus();
+    });
+
+    fireEvent.keyDown(options[1], { key: ' ' });
+    fireEvent.keyDown(options[1], { key: 'ArrowUp' });
+
+    // The drag takes the arrow keys over from the navigation
+    expect(options[1]).toHaveFocus();
+
+    fireEvent.keyDown(options[1], { key: ' ' });
+
+    expect(onReorder).toHaveBeenCalledWith(1, 0, items[1]);
+    expect(options[1]).toHaveAttribute('aria-selected', 'false');
+  });
+
+  it('should reorder an item by dragging it with a pointer', () => {
+    const onReorder = vitest.fn();
+    const onSelectionChange = vitest.fn();
+
+    vitest.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (
+      this: HTMLElement,
+    ) {
+      const top = Number(this.dataset.index) * 20;
+
+      return {
+        x: 0,
+        y: top,
+        top,
+        right: 100,
+        bottom: top + 20,
+        left: 0,
+        width: 100,
+        height: 20,
+        toJSON: () => ({}),
+      };
+    });
+
+    const { getAllByRole } = customRender(
+      <HoneyList
+        items={items}
+        itemKey="id"
+        selectionMode="single"
+        onSelectionChange={onSelectionChange}
+        sortable={true}
+        onReorder={onReorder}
+      >
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    const options = getAllByRole('option');
+
+    fireEvent.pointerDown(options[0], { pointerId: 1, button: 0, clientX: 10, clientY: 5 });
+    // Moves shorter than the drag threshold do not start a drag
+    fireEvent.pointerMove(document, { pointerId: 1, clientX: 10, clientY: 7 });
+
+    expect(options[0]).not.toHaveAttribute('data-dragging');
+
+    fireEvent.pointerMove(document, { pointerId: 1, clientX: 10, clientY: 45 });
+
+    expect(options[0]).toHaveAttribute('data-dragging', 'true');
+    expect(options[1]).toHaveAttribute('data-drop-position', 'after');
+
+    fireEvent.pointerUp(document, { pointerId: 1, clientX: 10, clientY: 45 });
+    fireEvent.click(options[0]);
+
+    expect(onReorder).toHaveBeenCalledWith(0, 1, items[0]);
+    expect(onSelectionChange).not.toHaveBeenCalled();
+
+    vitest.restoreAllMocks();
+  });
+
+  it('should not render a live region when the list is not sortable', () => {
+    const { queryByTestId } = customRender(
+      <HoneyList items={items} itemKey="id">
+        {item => item.name}
+      </HoneyList>,
+    );
+
+    expect(queryByTestId('honey-list-live-region')).toBeNull();
+  });
+});
+
+describe('[HoneyList]: item animations', () => {
+  beforeEach(() => {
+    vitest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vitest.useRealTimers();
+  });
+
+  const renderAnimatedList = (items: ReturnType<typeof generateItems>) => (
+    <HoneyLayoutProvider theme={themeMock}>
+      <HoneyList items={items} itemKey="id" animateItems={true} itemTransitionDurationMs={300}>
+        {item => item.name}
+      </HoneyList>
+    </HoneyLayoutProvider>
+  );
+
+  it('should keep a removed item mounted until its exit transition ends', () => {
+    const items = generateItems(3);
+
+    const { getAllByTestId, rerender } = render(renderAnimatedList(items));
+
+    rerender(renderAnimatedList([items[0], items[2]]));
+
+    const animatedItems = getAllByTestId('honey-list-animated-item');
+
+    expect(animatedItems.map(animatedItem => animatedItem.textContent)).toEqual([
+      'name-0',
+      'name-1',
+      'name-2',
+    ]);
+    expect(animatedItems[1]).toHaveAttribute('data-exiting', 'true');
+    expect(animatedItems[1]).toHaveAttribute('aria-hidden', 'true');
+
+    act(() => {
+      vitest.advanceTimersByTime(300);
+    });
+
+    expect(getAllByTestId('honey-list-animated-item')).toHaveLength(2);
+  });
+
+  it('should keep an item that is added back before its exit transition ends', () => {
+    const items = generateItems(3);
+
+    const { getAllByTestId, rerender } = render(renderAnimatedList(items));
+
+    rerender(renderAnimatedList([items[0], items[2]]));
+    rerender(renderAnimatedList(items));
+
+    act(() => {
+      vitest.advanceTimersByTime(300);
+    });
+
+    const animatedItems = getAllByTestId('honey-list-animated-item');
+
+    expect(animatedItems).toHaveLength(3);
+    expect(animatedItems[1]).not.toHaveAttribute('data-exiting');
+  });
+
+  it('should render added items at their position', () => {
+    const items = generateItems(3);
+
+    const { getAllByTestId, rerender } = render(renderAnimatedList([items[0], items[2]]));
+
+    rerender(renderAnimatedList(items));
+
+    expect(
+      getAllByTestId('honey-list-animated-item').map(animatedItem => animatedItem.textContent),
+    ).toEqual(['name-0', 'name-1', 'name-2']);
+  });
+
+  it('should animate the items that change position from their previous position', () => {
+    const animate = vitest.fn();
+
+    // `animate` is not implemented in jsdom
+    Object.defineProperty(HTMLElement.prototype, 'animate', {
+      value: animate,
+      configurable: true,
+    });
+
+    // Each element is positioned by its order among its siblings
+    vitest.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (
+      this: HTMLElement,
+    ) {
+      const top = Array.from(this.parentElement?.children ?? []).indexOf(this) * 20;
+
+      return {
+        x: 0,
+        y: top,
+        top,
+        right: 100,
+        bottom: top + 20,
+        left: 0,
+        width: 100,
+        height: 20,
+        toJSON: () => ({}),
+      };
+    });
+
+    const items = generateItems(3);
+
+    const { rerender } = render(renderAnimatedList(items));
+
+    expect(animate).not.toHaveBeenCalled();
+
+    rerender(renderAnimatedList([items[2], items[0], items[1]]));
+
+    const animationOptions = { duration: 300, easing: 'ease-in-out' };
+
+    expect(animate).toHaveBeenCalledTimes(3);
+    expect(animate).toHaveBeenCalledWith(
+      [{ transform: 'translate(0px, 40px)' }, { transform: 'none' }],
+      animationOptions,
+    );
+    expect(animate).toHaveBeenCalledWith(
+      [{ transform: 'translate(0px, -20px)' }, { transform: 'none' }],
+      animationOptions,
+    );
+
+    vitest.restoreAllMocks();
+    Reflect.deleteProperty(HTMLElement.prototype, 'animate');
+  });
+
+  it('should not interrupt running animations when the list renders the same items again', () => {
+    const cancel = vitest.fn();
+    const animate = vitest.fn(() => ({ cancel, playState: 'running' }));
+
+    Object.defineProperty(HTMLElement.prototype, 'animate', {
+      value: animate,
+      configurable: true,
+    });
+
+    vitest.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (
+      this: HTMLElement,
+    ) {
+      const top = Array.from(this.parentElement?.children ?? []).indexOf(this) * 20;
+
+      return {
+        x: 0,
+        y: top,
+        top,
+        right: 100,
+        bottom: top + 20,
+        left: 0,
+        width: 100,
+        height: 20,
+        toJSON: () => ({}),
+      };
+    });
+
+    const items = generateItems(3);
+    const reorderedItems = [items[2], items[0], items[1]];
+
+    const { rerender } = render(renderAnimatedList(items));
+
+    rerender(renderAnimatedList(reorderedItems));
+    rerender(renderAnimatedList(reorderedItems));
+
+    expect(animate).toHaveBeenCalledTimes(3);
+    expect(cancel).not.toHaveBeenCalled();
+
+    vitest.restoreAllMocks();
+    Reflect.deleteProperty(HTMLElement.prototype, 'animate');
+  });
+
+  it('should throw when animated items are virtualized', () => {
+    vitest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() =>
+      customRender(
+        <HoneyList items={generateItems(3)} animateItems={true} virtualized={true}>
+          {item => item.name}
+        </HoneyList>,
+      ),
+    ).toThrow();
+
+    vitest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,8 @@
+export * from './use-honey-list-virtualizer';
+export * from './use-honey-list-end-reached';
+export * from './use-honey-list-scroll-anchor';
+export * from './use-honey-list-navigation';
+export * from './use-honey-list-selection';
+export * from './use-honey-list-groups';
+export * from './use-honey-list-sortable';
+export * from './use-honey-list-item-animations';
@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+import type { RefObject } from 'react';
+
+import type { Nullable } from '../../../types';
+import type { HoneyListOrientation } from '../HoneyList.types';
+
+/**
+ * Returns the root margin extending the list viewport towards its end by the threshold.
+ *
+ * @param orientation - The scroll axis of the list.
+ * @param reverse - Whether the end of the list is at the start.
+ * @param threshold - Distance in pixels from the end of the list.
+ *
+ * @returns The root margin in the `top right bottom left` order.
+ */
+const getEndReachedRootMargin = (
+  orientation: HoneyListOrientation,
+  reverse: boolean,
+  threshold: number,
+) => {
+  const margins = [0, 0, 0, 0];
+
+  if (orientation === 'vertical') {
+    margins[reverse ? 0 : 2] = threshold;
+  } else {
+    margins[reverse ? 3 : 1] = threshold;
+  }
+
+  return margins.map(margin => `${margin}px`).join(' ');
+};
+
+export interface UseHoneyListEndReachedOptions {
+  /**
+   * Whether the end of the list is observed.
+   */
+  enabled: boolean;
+  orientation: HoneyListOrientation;
+  reverse: boolean;
+  threshold: number;
+  itemsCount: number;
+  loadingMore: boolean;
+  onEndReached: (() => unknown) | undefined;
+}
+
+/**
+ * Invokes `onEndReached` when a sentinel element rendered at the end of the list is scrolled into
+ * the list viewport extended by the threshold.
+ *
+ * Duplicate calls are prevented while a page is loading. While the sentinel stays visible, the
+ * callback is invoked again only after the number of items has changed, so a page failing to load
+ * is not requested in a loop.
+ *
+ * @param listRef - Reference to the scrollable list element, used as the intersection root.
+ * @param options - End reached configuration.
+ *
+ * @returns The ref callback of the sentinel element and whether a promise returned from
+ * `onEndReached` is pending.
+ */
+export const useHoneyListEndReached = (
+  listRef: RefObject<Nullable<HTMLElement>>,
+  {
+    enabled,
+    orientation,
+    reverse,
+    threshold,
+    itemsCount,
+    loadingMore,
+    onEndReached,
+  }: UseHoneyListEndReachedOptions,
+) => {
+  // The sentinel is rendered only while the list shows its items
+  const [sentinel, setSentinel] = useState<Nullable<HTMLElement>>(null);
+  const [isEndReachedPending, setIsEndReachedPending] = useState(false);
+
+  const onEndReachedRef = useHoneyLatest(onEndReached);
+  const itemsCountRef = useHoneyLatest(itemsCount);
+  const loadingMoreRef = useHoneyLatest(loadingMore);
+  // Set as soon as `onEndReached` returns a promise, before the pending state is rendered
+  const isEndReachedPendingRef = useRef(false);
+
+  const isSentinelVisibleRef = useRef(false);
+  // Number of items when `onEndReached` was invoked last time while the sentinel stayed visible
+  const endReachedItemsCountRef = useRef<Nullable<number>>(null);
+
+  const isMountedRef = useRef(false);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const invokeEndReached = useCallback(() => {
+    if (
+      !isSentinelVisibleRef.current ||
+      loadingMoreRef.current ||
+      isEndReachedPendingRef.current ||
+      endReachedItemsCountRef.current === itemsCountRef.current
+    ) {
+      return;
+    }
+
+    endReachedItemsCountRef.current = itemsCountRef.current;
+
+    const result = onEndReachedRef.current?.();
+
+    if (result instanceof Promise) {
+      isEndReachedPendingRef.current = true;
+      setIsEndReachedPending(true);
+
+      result
+        .catch(() => {
+          // Failed pages are handled by the caller
+        })
+        .finally(() => {
+          isEndReachedPendingRef.current = false;
+
+          if (isMountedRef.current) {
+            setIsEndReachedPending(false);
+          }
+        });
+    }
+  }, []);
+
+  useEffect(() => {
+    const list = listRef.current;
+
+    // Not available in all environments, e.g. jsdom
+    if (!enabled || !list || !sentinel || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const intersectionObserver = new IntersectionObserver(
+      ([entry]) => {
+        isSentinelVisibleRef.current = entry.isIntersecting;
+        // Scrolling to the end again allows retrying a page with the same number of items
+        endReachedItemsCountRef.current = null;
+
+        invokeEndReached();
+      },
+      {
+        root: list,
+        rootMargin: getEndReachedRootMargin(orientation, reverse, threshold),
+      },
+    );
+
+    intersectionObserver.observe(sentinel);
+
+    return () => {
+      isSentinelVisibleRef.current = false;
+
+      intersectionObserver.disconnect();
+    };
+  }, [enabled, sentinel, orientation, reverse, threshold]);
+
+  // The sentinel may still be visible after a page is loaded, e.g. when the page is short
+  useEffect(() => {
+    invokeEndReached();
+  }, [itemsCount, loadingMore, isEndReachedPending]);
+
+  return {
+    sentinelRef: setSentinel,
+    isEndReachedPending,
+  };
+};
@@ -0,0 +1,69 @@
+import { useMemo, useState } from 'react';
+
+import { groupHoneyListItems } from '../HoneyList.helpers';
+import type { HoneyListGroupingProps, HoneyListGroupKey, HoneyListItem } from '../HoneyList.types';
+
+export interface UseHoneyListGroupsOptions<Item extends HoneyListItem> extends Pick<
+  HoneyListGroupingProps<Item>,
+  | 'groupBy'
+  | 'groups'
+  | 'collapsedGroupKeys'
+  | 'defaultCollapsedGroupKeys'
+  | 'onCollapsedGroupKeysChange'
+> {
+  items: Item[] | undefined;
+}
+
+/**
+ * Resolves the groups of a list and manages which of them are collapsed.
+ *
+ * @param options - Grouping configuration.
+ *
+ * @returns The groups, or `null` when the list is not grouped, the items of the expanded groups,
+ * and the functions reading and toggling the collapsed state of a group.
+ */
+export const useHoneyListGroups = <Item extends HoneyListItem>({
+  items,
+  groupBy,
+  groups,
+  collapsedGroupKeys,
+  defaultCollapsedGroupKeys = [],
+  onCollapsedGroupKeysChange,
+}: UseHoneyListGroupsOptions<Item>) => {
+  const [uncontrolledCollapsedGroupKeys, setUncontrolledCollapsedGroupKeys] =
+    useState<HoneyListGroupKey[]>(defaultCollapsedGroupKeys);
+
+  const resolvedGroups = useMemo(
+    () => groups ?? (groupBy && items ? groupHoneyListItems(items, groupBy) : null),
+    [items, groupBy, groups],
+  );
+
+  const currentCollapsedGroupKeys = collapsedGroupKeys ?? uncontrolledCollapsedGroupKeys;
+
+  const isGroupCollapsed = (groupKey: HoneyListGroupKey) =>
+    currentCollapsedGroupKeys.includes(groupKey);
+
+  const toggleGroup = (groupKey: HoneyListGroupKey) => {
+    const nextCollapsedGroupKeys = isGroupCollapsed(groupKey)
+      ? currentCollapsedGroupKeys.filter(collapsedGroupKey => collapsedGroupKey !== groupKey)
+      : [...currentCollapsedGroupKeys, groupKey];
+
+    if (collapsedGroupKeys === undefined) {
+      setUncontrolledCollapsedGroupKeys(nextCollapsedGroupKeys);
+    }
+
+    onCollapsedGroupKeysChange?.(nextCollapsedGroupKeys);
+  };
+
+  // Only the items of the expanded groups are rendered, navigated and selected
+  const visibleItems = resolvedGroups
+    ? resolvedGroups.filter(group => !isGroupCollapsed(group.key)).flatMap(group => group.items)
+    : (items ?? []);
+
+  return {
+    groups: resolvedGroups,
+    visibleItems,
+    isGroupCollapsed,
+    toggleGroup,
+  };
+};
@@ -0,0 +1,281 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { RefCallback, RefObject } from 'react';
+
+import type { Nullable, TimeoutId } from '../../../types';
+import type { HoneyListItem } from '../HoneyList.types';
+
+/**
+ * An item rendered by an animated list, including a removed item kept mounted through its exit
+ * transition.
+ */
+export interface HoneyListItemEntry<Item extends HoneyListItem> {
+  item: Item;
+  itemId: unknown;
+  /**
+   * The index of the item, or its last index when the item is exiting.
+   */
+  itemIndex: number;
+  /**
+   * Whether the item is removed and kept mounted until its exit transition ends.
+   */
+  isExiting: boolean;
+  /**
+   * Whether the item was added after the list was mounted and must transition in.
+   */
+  isAppearing: boolean;
+}
+
+interface HoneyListItemPosition {
+  top: number;
+  left: number;
+}
+
+/**
+ * Returns the translation applied to an element by its running transform animation.
+ *
+ * @param element - The animated element.
+ *
+ * @returns The horizontal and vertical translation in pixels.
+ */
+const getAnimatedTranslation = (element: HTMLElement) => {
+  const { transform } = window.getComputedStyle(element);
+
+  if (!transform || transform === 'none') {
+    return { x: 0, y: 0 };
+  }
+
+  const matrix = new DOMMatrixReadOnly(transform);
+
+  return { x: matrix.m41, y: matrix.m42 };
+};
+
+/**
+ * Merges the next items with the previous entries, keeping each removed item after the item that
+ * preceded it.
+ */
+const mergeItemEntries = <Item extends HoneyListItem>(
+  prevEntries: HoneyListItemEntry<Item>[],
+  nextEntries: HoneyListItemEntry<Item>[],
+) => {
+  const nextItemIds = new Set(nextEntries.map(entry => entry.itemId));
+  const mergedItemIds = new Set<unknown>();
+
+  const mergedEntries: HoneyListItemEntry<Item>[] = [];
+  let nextEntryIndex = 0;
+
+  prevEntries.forEach(prevEntry => {
+    if (!nextItemIds.has(prevEntry.itemId)) {
+      mergedEntries.push(prevEntry.isExiting ? prevEntry : { ...prevEntry, isExiting: true });
+      return;
+    }
+
+    while (nextEntryIndex < nextEntries.length && !mergedItemIds.has(prevEntry.itemId)) {
+      const nextEntry = nextEntries[nextEntryIndex++];
+
+      mergedItemIds.add(nextEntry.itemId);
+      mergedEntries.push(nextEntry);
+    }
+  });
+
+  return mergedEntries.concat(nextEntries.slice(nextEntryIndex));
+};
+
+export interface UseHoneyListItemAnimationsOptions<Item extends HoneyListItem> {
+  /**
+   * Whether the items are animated.
+   */
+  enabled: boolean;
+  items: Item[] | undefined;
+  getItemId: (item: Item, itemIndex: number) => unknown;
+  /**
+   * Duration of the transitions in milliseconds.
+   */
+  durationMs: number;
+}
+
+/**
+ * Tracks the items of an animated list by their IDs.
+ *
+ * Removed items stay in the entries, at their previous position, until the transition duration has
+ * passed, in the same way `HoneyLazyContent` delays unmounting. Items that change position are
+ * animated from their previous position with the FLIP technique: after the entries change, the
+ * offset from the previous position is applied as a transform that transitions back to none.
+ * Running animations of the items that keep their position are not interrupted, and an item moved
+ * again during its animation starts from where it is displayed.
+ *
+ * @param listRef - Reference to the list element.
+ * @param options - Animation configuration.
+ *
+ * @returns The item entries to render and the ref callback registering the element of an item.
+ */
+export const useHoneyListItemAnimations = <Item extends HoneyListItem>(
+  listRef: RefObject<Nullable<HTMLElement>>,
+  { enabled, items, getItemId, durationMs }: UseHoneyListItemAnimationsOptions<Item>,
+) => {
+  const createEntries = (isAppearing: (itemId: unknown) => boolean) =>
+    (items ?? []).map((item, itemIndex): HoneyListItemEntry<Item> => {
+      const itemId = getItemId(item, itemIndex);
+
+      return {
+        item,
+        itemId,
+        itemIndex,
+        isExiting: false,
+        isAppearing: isAppearing(itemId),
+      };
+    });
+
+  const [itemEntries, setItemEntries] = useState(() => createEntries(() => false));
+  const [prevItems, setPrevItems] = useState(items);
+
+  const itemElementsRef = useRef(new Map<unknown, HTMLElement>());
+  const itemPositionsRef = useRef(new Map<unknown, HoneyListItemPosition>());
+  const itemAnimationsRef = useRef(new Map<unknown, Animation>());
+  const itemElementRefsRef = useRef(new Map<unknown, RefCallback<HTMLElement>>());
+  const exitTimeoutIdsRef = useRef(new Map<unknown, TimeoutId>());
+
+  // Derived while rendering, so a removed item is never missing from a rendered frame
+  if (enabled && items !== prevItems) {
+    const prevItemIds = new Set(itemEntries.map(entry => entry.itemId));
+
+    setPrevItems(items);
+    setItemEntries(
+      mergeItemEntries(
+        itemEntries,
+        createEntries(itemId => !prevItemIds.has(itemId)),
+      ),
+    );
+  }
+
+  useEffect(() => {
+    const exitTimeoutIds = exitTimeoutIdsRef.current;
+
+    itemEntries.forEach(({ itemId, isExiting }) => {
+      const exitTimeoutId = exitTimeoutIds.get(itemId);
+
+      if (isExiting && exitTimeoutId === undefined) {
+        exitTimeoutIds.set(
+          itemId,
+          setTimeout(() => {
+            exitTimeoutIds.delete(itemId);
+
+            setItemEntries(currentEntries =>
+              currentEntries.filter(entry => entry.itemId !== itemId || !entry.isExiting),
+            );
+          }, durationMs),
+        );
+      } else if (!isExiting && exitTimeoutId !== undefined) {
+        // The item is added back before its exit transition ends
+        clearTimeout(exitTimeoutId);
+        exitTimeoutIds.delete(itemId);
+      }
+    });
+  }, [itemEntries, durationMs]);
+
+  useEffect(
+    () => () => {
+      exitTimeoutIdsRef.current.forEach(exitTimeoutId => clearTimeout(exitTimeoutId));
+    },
+    [],
+  );
+
+  useLayoutEffect(() => {
+    const list = listRef.current;
+
+    if (!enabled || !list) {
+      itemPositionsRef.current.clear();
+      return;
+    }
+
+    const listRect = list.getBoundingClientRect();
+    const nextItemPositions = new Map<unknown, HoneyListItemPosition>();
+
+    itemElementsRef.current.forEach((itemElement, itemId) => {
+      const itemRect = itemElement.getBoundingClientRect();
+
+      const runningAnimation = itemAnimationsRef.current.get(itemId);
+      // The position is measured without the transform of the running animation
+      const translation =
+        runningAnimation?.playState === 'running'
+          ? getAnimatedTranslation(itemElement)
+          : { x: 0, y: 0 };
+
+      const itemPosition: HoneyListItemPosition = {
+        top: itemRect.top - listRect.top + list.scrollTop - translation.y,
+        left: itemRect.left - listRect.left + list.scrollLeft - translation.x,
+      };
+
+      nextItemPositions.set(itemId, itemPosition);
+
+      const prevItemPosition = itemPositionsRef.current.get(itemId);
+      if (!prevItemPosition) {
+        return;
+      }
+
+      const deltaX = prevItemPosition.left - itemPosition.left;
+      const deltaY = prevItemPosition.top - itemPosition.top;
+
+      if (!deltaX && !deltaY) {
+        return;
+      }
+
+      runningAnimation?.cancel();
+      itemAnimationsRef.current.delete(itemId);
+
+      // Not available in all environments, e.g. jsdom
+      const animation = itemElement.animate?.(
+        [
+          { transform: `translate(${deltaX + translation.x}px, ${deltaY + translation.y}px)` },
+          { transform: 'none' },
+        ],
+        { duration: durationMs, easing: 'ease-in-out' },
+      );
+
+      if (animation) {
+        itemAnimationsRef.current.set(itemId, animation);
+
+        animation.onfinish = () => {
+          if (itemAnimationsRef.current.get(itemId) === animation) {
+            itemAnimationsRef.current.delete(itemId);
+          }
+        };
+      }
+    });
+
+    itemPositionsRef.current = nextItemPositions;
+  }, [enabled, itemEntries]);
+
+  /**
+   * Returns the ref callback registering the element of an item, measured for the FLIP animations.
+   *
+   * The callback of an item is kept while the item is mounted, so its element is not registered
+   * again on every render.
+   *
+   * @param itemId - The ID of the item.
+   */
+  const getItemElementRef = (itemId: unknown) => {
+    let itemElementRef = itemElementRefsRef.current.get(itemId);
+
+    if (!itemElementRef) {
+      itemElementRef = (itemElement: Nullable<HTMLElement>) => {
+        if (itemElement) {
+          itemElementsRef.current.set(itemId, itemElement);
+        }
+
+        return () => {
+          itemElementsRef.current.delete(itemId);
+          itemElementRefsRef.current.delete(itemId);
+        };
+      };
+
+      itemElementRefsRef.current.set(itemId, itemElementRef);
+    }
+
+    return itemElementRef;
+  };
+
+  return {
+    itemEntries: enabled ? itemEntries : createEntries(() => false),
+    getItemElementRef,
+  };
+};
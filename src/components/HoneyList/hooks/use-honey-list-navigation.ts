@@ -0,0 +1,276 @@
+import { useEffect, useRef, useState } from 'react';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+import type { KeyboardEvent } from 'react';
+
+import type { Nullable, TimeoutId } from '../../../types';
+import type {
+  HoneyListItem,
+  HoneyListItemId,
+  HoneyListNavigationProps,
+  HoneyListOrientation,
+} from '../HoneyList.types';
+
+const TYPEAHEAD_RESET_DELAY_MS = 500;
+
+/**
+ * Finds the first enabled item starting from an index and moving in a direction.
+ *
+ * @param startIndex - The index the search starts from, included in the search.
+ * @param step - `1` to search forward, `-1` to search backward.
+ * @param itemsCount - The number of items.
+ * @param isDisabled - Returns whether the item at an index is disabled.
+ * @param wrap - Whether the search continues from the other end of the list.
+ *
+ * @returns The index of the found item, or `-1` when there is no enabled item in the direction.
+ */
+const findEnabledItemIndex = (
+  startIndex: number,
+  step: 1 | -1,
+  itemsCount: number,
+  isDisabled: (itemIndex: number) => boolean,
+  wrap: boolean,
+) => {
+  for (let offset = 0; offset < itemsCount; offset++) {
+    let itemIndex = startIndex + offset * step;
+
+    if (wrap) {
+      itemIndex = (itemIndex + itemsCount) % itemsCount;
+    } else if (itemIndex < 0 || itemIndex >= itemsCount) {
+      return -1;
+    }
+
+    if (!isDisabled(itemIndex)) {
+      return itemIndex;
+    }
+  }
+
+  return -1;
+};
+
+export interface UseHoneyListNavigationOptions<Item extends HoneyListItem> extends Pick<
+  HoneyListNavigationProps<Item>,
+  'activeItemId' | 'onActiveItemChange' | 'getItemLabel' | 'isItemDisabled'
+> {
+  /**
+   * Whether the keyboard navigation is enabled.
+   */
+  enabled: boolean;
+  items: Item[];
+  orientation: HoneyListOrientation;
+  wrap: boolean;
+  getItemId: (item: Item, itemIndex: number) => HoneyListItemId<Item>;
+  /**
+   * Returns the number of items the PageUp and PageDown keys move by.
+   */
+  getPageSize: () => number;
+  /**
+   * Callback invoked when an item becomes active by keyboard, used to focus or reveal the item.
+   *
+   * @param itemIndex - The index of the item.
+   * @param e - The keyboard event that moved to the item.
+   */
+  onNavigate: (itemIndex: number, e: KeyboardEvent<HTMLElement>) => void;
+}
+
+/**
+ * Manages the active item of a list navigated with the keyboard.
+ *
+ * Supports the arrow keys along the list orientation, Home and End, PageUp and PageDown, and
+ * typeahead search by the item labels. Disabled items are skipped. The active item is controlled
+ * when `activeItemId` is provided.
+ *
+ * @param options - Navigation configuration.
+ *
+ * @returns The active item index, the index of the item in the tab sequence, the item activation
+ * function and the keyboard event handler of the list.
+ */
+export const useHoneyListNavigation = <Item extends HoneyListItem>({
+  enabled,
+  items,
+  orientation,
+  wrap,
+  getItemId,
+  getPageSize,
+  onNavigate,
+  activeItemId,
+  onActiveItemChange,
+  getItemLabel,
+  isItemDisabled,
+}: UseHoneyListNavigationOptions<Item>) => {
+  const [uncontrolledActiveItemId, setUncontrolledActiveItemId] =
+    useState<Nullable<HoneyListItemId<Item>>>(null);
+
+  const typeaheadQueryRef = useRef('');
+  const typeaheadTimeoutIdRef = useRef<Nullable<TimeoutId>>(null);
+
+  const onActiveItemChangeRef = useHoneyLatest(onActiveItemChange);
+  const onNavigateRef = useHoneyLatest(onNavigate);
+
+  useEffect(
+    () => () => {
+      if (typeaheadTimeoutIdRef.current) {
+        clearTimeout(typeaheadTimeoutIdRef.current);
+      }
+    },
+    [],
+  );
+
+  const currentActiveItemId = activeItemId === undefined ? uncontrolledActiveItemId : activeItemId;
+
+  const activeIndex =
+    enabled && currentActiveItemId !== null
+      ? items.findIndex((item, itemIndex) => getItemId(item, itemIndex) === currentActiveItemId)
+      : -1;
+
+  const isDisabledAt = (itemIndex: number) =>
+    isItemDisabled?.(items[itemIndex], itemIndex) ?? false;
+
+  // Without an active item, the first enabled item is reachable with the Tab key
+  const tabbableIndex =
+    activeIndex === -1
+      ? findEnabledItemIndex(0, 1, items.length, isDisabledAt, false)
+      : activeIndex;
+
+  /**
+   * Makes an item active. Disabled items are ignored.
+   *
+   * @param itemIndex - The index of the item.
+   * @param navigationEvent - The keyboard event when the item is activated by keyboard and must be
+   * focused or revealed.
+   */
+  const activateItem = (itemIndex: number, navigationEvent?: KeyboardEvent<HTMLElement>) => {
+    if (!enabled || itemIndex < 0 || itemIndex >= items.length || isDisabledAt(itemIndex)) {
+      return;
+    }
+
+    const item = items[itemIndex];
+    const itemId = getItemId(item, itemIndex);
+
+    if (itemId !== currentActiveItemId) {
+      setUncontrolledActiveItemId(itemId);
+
+      onActiveItemChangeRef.current?.(itemId, item);
+    }
+
+    if (navigationEvent) {
+      onNavigateRef.current(itemIndex, navigationEvent);
+    }
+  };
+
+  const findTypeaheadMatch = (query: string) => {
+    if (!getItemLabel) {
+      return -1;
+    }
+
+    const isRepeatedCharacter = query.split('').every(character => character === query[0]);
+    // Repeating the same character cycles through the items starting with it
+    const searchQuery = isRepeatedCharacter ? query[0] : query;
+    const startIndex = isRepeatedCharacter || activeIndex === -1 ? activeIndex + 1 : activeIndex;
+
+    return findEnabledItemIndex(
+      startIndex,
+      1,
+      items.length,
+      itemIndex =>
+        isDisabledAt(itemIndex) ||
+        !getItemLabel(items[itemIndex]).toLowerCase().startsWith(searchQuery),
+      true,
+    );
+  };
+
+  const handleTypeahead = (character: string) => {
+    if (typeaheadTimeoutIdRef.current) {
+      clearTimeout(typeaheadTimeoutIdRef.current);
+    }
+
+    typeaheadQueryRef.current += character.toLowerCase();
+
+    typeaheadTimeoutIdRef.current = setTimeout(() => {
+      typeaheadQueryRef.current = '';
+      typeaheadTimeoutIdRef.current = null;
+    }, TYPEAHEAD_RESET_DELAY_MS);
+
+    return findTypeaheadMatch(typeaheadQueryRef.current);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLElement>) => {
+    if (!enabled || e.defaultPrevented || !items.length) {
+      return;
+    }
+
+    const isVertical = orientation === 'vertical';
+    const itemsCount = items.length;
+
+    const findEnabled = (startIndex: number, step: 1 | -1, isWrapped = false) =>
+      findEnabledItemIndex(startIndex, step, itemsCount, isDisabledAt, isWrapped);
+
+    const findPageItem = (step: 1 | -1) => {
+      const targetIndex = Math.min(
+        itemsCount - 1,
+        Math.max(0, (activeIndex === -1 ? 0 : activeIndex) + step * getPageSize()),
+      );
+
+      const itemIndex = findEnabled(targetIndex, step);
+
+      return itemIndex === -1 ? findEnabled(targetIndex, step === 1 ? -1 : 1) : itemIndex;
+    };
+
+    let nextIndex: Nullable<number> = null;
+
+    switch (e.key) {
+      case isVertical ? 'ArrowDown' : 'ArrowRight':
+        nextIndex = activeIndex === -1 ? findEnabled(0, 1) : findEnabled(activeIndex + 1, 1, wrap);
+        break;
+
+      case isVertical ? 'ArrowUp' : 'ArrowLeft':
+        nextIndex =
+          activeIndex === -1
+            ? findEnabled(itemsCount - 1, -1)
+            : findEnabled(activeIndex - 1, -1, wrap);
+        break;
+
+      case 'Home':
+        nextIndex = findEnabled(0, 1);
+        break;
+
+      case 'End':
+        nextIndex = findEnabled(itemsCount - 1, -1);
+        break;
+
+      case 'PageDown':
+        nextIndex = findPageItem(1);
+        break;
+
+      case 'PageUp':
+        nextIndex = findPageItem(-1);
+        break;
+
+      default:
+        if (getItemLabel && e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+          // The Space key is left to the items while a query is not being typed
+          if (e.key === ' ' && !typeaheadQueryRef.current) {
+            return;
+          }
+
+          nextIndex = handleTypeahead(e.key);
+        }
+    }
+
+    if (nextIndex === null) {
+      return;
+    }
+
+    e.preventDefault();
+
+    if (nextIndex !== -1) {
+      activateItem(nextIndex, e);
+    }
+  };
+
+  return {
+    activeIndex,
+    tabbableIndex,
+    activateItem,
+    handleKeyDown,
+  };
+};
@@ -0,0 +1,117 @@
+import { useLayoutEffect, useRef } from 'react';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+import type { RefObject } from 'react';
+
+import type { Nullable } from '../../../types';
+import type { HoneyListItem, HoneyListOrientation } from '../HoneyList.types';
+
+const getListScrollSize = (list: HTMLElement, orientation: HoneyListOrientation) =>
+  orientation === 'vertical' ? list.scrollHeight : list.scrollWidth;
+
+export interface UseHoneyListScrollAnchorOptions<Item extends HoneyListItem> {
+  /**
+   * Whether the scroll position is preserved when items are added at the start of the list.
+   */
+  enabled: boolean;
+  orientation: HoneyListOrientation;
+  items: Item[];
+  getItemId: (item: Item, itemIndex: number) => unknown;
+  /**
+   * Whether content rendered before the items, such as the loading more content, is shown.
+   */
+  isLeadingContentShown: boolean;
+}
+
+/**
+ * Keeps the visible items in place when items are added at the start of a scrollable list.
+ *
+ * After the items change, the list is scrolled by the growth of its scroll size when the previous
+ * first item has moved further down the list, so the content added above the viewport does not push the
+ * visible items down. The same applies when the content rendered before the items is shown or
+ * hidden. Items replaced as a whole do not change the scroll position.
+ *
+ * Added items are detected by the ID of the previous first item, so the items must have stable IDs
+ * that do not depend on their index. The scroll size is also recorded whenever the rendered content
+ * is resized, so growth unrelated to the items, such as loaded images, is not compensated later.
+ *
+ * The browser scroll anchoring must be disabled with `overflow-anchor: none` on the list, so the
+ * position is not adjusted twice.
+ *
+ * @param listRef - Reference to the scrollable list element.
+ * @param options - Scroll anchor configuration.
+ */
+export const useHoneyListScrollAnchor = <Item extends HoneyListItem>(
+  listRef: RefObject<Nullable<HTMLElement>>,
+  {
+    enabled,
+    orientation,
+    items,
+    getItemId,
+    isLeadingContentShown,
+  }: UseHoneyListScrollAnchorOptions<Item>,
+) => {
+  const prevFirstItemIdRef = useRef<unknown>(undefined);
+  const prevScrollSizeRef = useRef(0);
+  const prevIsLeadingContentShownRef = useRef(isLeadingContentShown);
+
+  const getItemIdRef = useHoneyLatest(getItemId);
+
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!enabled || !list) {
+      // The first item is recorded again once the anchor is enabled
+      prevFirstItemIdRef.current = undefined;
+      prevIsLeadingContentShownRef.current = isLeadingContentShown;
+      return;
+    }
+
+    const isVertical = orientation === 'vertical';
+    const scrollSize = getListScrollSize(list, orientation);
+
+    const firstItemId = items.length ? getItemIdRef.current(items[0], 0) : undefined;
+    const prevFirstItemId = prevFirstItemIdRef.current;
+
+    const isPrepended =
+      prevFirstItemId !== undefined &&
+      prevFirstItemId !== firstItemId &&
+      items.findIndex(
+        (item, itemIndex) => getItemIdRef.current(item, itemIndex) === prevFirstItemId,
+      ) > 0;
+
+    const isLeadingContentToggled = prevIsLeadingContentShownRef.current !== isLeadingContentShown;
+
+    const scrollSizeDelta = scrollSize - prevScrollSizeRef.current;
+
+    if ((isPrepended || isLeadingContentToggled) && scrollSizeDelta) {
+      if (isVertical) {
+        list.scrollTop += scrollSizeDelta;
+      } else {
+        list.scrollLeft += scrollSizeDelta;
+      }
+    }
+
+    prevFirstItemIdRef.current = firstItemId;
+    prevScrollSizeRef.current = scrollSize;
+    prevIsLeadingContentShownRef.current = isLeadingContentShown;
+  }, [enabled, orientation, items, isLeadingContentShown]);
+
+  useLayoutEffect(() => {
+    const list = listRef.current;
+
+    // Not available in all environments, e.g. jsdom
+    if (!enabled || !list || typeof ResizeObserver === 'undefined') {
+      return;
+    }
+
+    const resizeObserver = new ResizeObserver(() => {
+      prevScrollSizeRef.current = getListScrollSize(list, orientation);
+    });
+
+    // The rendered children change with the items, so they are observed again after every change
+    Array.from(list.children).forEach(child => resizeObserver.observe(child));
+
+    return () => {
+      resizeObserver.disconnect();
+    };
+  }, [enabled, orientation, items, isLeadingContentShown]);
+};
@@ -0,0 +1,189 @@
+import { useRef, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+
+import type { Nullable } from '../../../types';
+import type {
+  HoneyListItem,
+  HoneyListItemId,
+  HoneyListSelectionMode,
+  HoneyListSelectionProps,
+} from '../HoneyList.types';
+
+export interface HoneyListSelectItemOptions {
+  /**
+   * Whether the selection of the item is toggled while other selected items stay selected.
+   */
+  toggle?: boolean;
+  /**
+   * Whether the items from the selection anchor to the item are selected.
+   */
+  range?: boolean;
+}
+
+export interface UseHoneyListSelectionOptions<Item extends HoneyListItem> extends Pick<
+  HoneyListSelectionProps<Item>,
+  'selectedItemIds' | 'defaultSelectedItemIds' | 'onSelectionChange'
+> {
+  mode: HoneyListSelectionMode;
+  items: Item[];
+  getItemId: (item: Item, itemIndex: number) => HoneyListItemId<Item>;
+  isItemDisabled: (item: Item, itemIndex: number) => boolean;
+}
+
+/**
+ * Manages the selected items of a list.
+ *
+ * In the `multiple` mode, the last item selected without a range, or the last item navigated to,
+ * is the anchor that range selections start from. Disabled items are never selected. The selection
+ * is controlled when `selectedItemIds` is provided.
+ *
+ * @param options - Selection configuration.
+ *
+ * @returns The selected item check, the functions updating the selection and the keyboard event
+ * handler for the Space key and select-all.
+ */
+export const useHoneyListSelection = <Item extends HoneyListItem>({
+  mode,
+  items,
+  getItemId,
+  isItemDisabled,
+  selectedItemIds,
+  defaultSelectedItemIds = [],
+  onSelectionChange,
+}: UseHoneyListSelectionOptions<Item>) => {
+  const [uncontrolledSelectedItemIds, setUncontrolledSelectedItemIds] =
+    useState<HoneyListItemId<Item>[]>(defaultSelectedItemIds);
+
+  const anchorItemIdRef = useRef<Nullable<HoneyListItemId<Item>>>(null);
+
+  const currentSelectedItemIds =
+    mode === 'none' ? [] : (selectedItemIds ?? uncontrolledSelectedItemIds);
+
+  const selectedItemIdsSet = new Set(currentSelectedItemIds);
+
+  const isItemSelected = (itemId: HoneyListItemId<Item>) => selectedItemIdsSet.has(itemId);
+
+  const commitSelection = (nextSelectedItemIds: HoneyListItemId<Item>[]) => {
+    if (selectedItemIds === undefined) {
+      setUncontrolledSelectedItemIds(nextSelectedItemIds);
+    }
+
+    onSelectionChange?.(nextSelectedItemIds);
+  };
+
+  const getEnabledItemIds = (startIndex: number, endIndex: number) =>
+    items
+      .slice(startIndex, endIndex + 1)
+      .map((item, offset) => [item, startIndex + offset] as const)
+      .filter(([item, itemIndex]) => !isItemDisabled(item, itemIndex))
+      .map(([item, itemIndex]) => getItemId(item, itemIndex));
+
+  /**
+   * Makes an item the anchor of the following range selections.
+   *
+   * @param itemIndex - The index of the item.
+   */
+  const setSelectionAnchor = (itemIndex: number) => {
+    anchorItemIdRef.current = getItemId(items[itemIndex], itemIndex);
+  };
+
+  /**
+   * Selects an item, replacing the current selection unless the item is toggled.
+   *
+   * @param itemIndex - The index of the item.
+   * @param options - Whether the item is toggled or selected with a range.
+   */
+  const selectItem = (
+    itemIndex: number,
+    { toggle = false, range = false }: HoneyListSelectItemOptions = {},
+  ) => {
+    const item = items[itemIndex];
+    if (mode === 'none' || !item || isItemDisabled(item, itemIndex)) {
+      return;
+    }
+
+    const itemId = getItemId(item, itemIndex);
+    const isSelected = isItemSelected(itemId);
+
+    if (mode === 'single') {
+      commitSelection(toggle && isSelected ? [] : [itemId]);
+      return;
+    }
+
+    if (range) {
+      const anchorIndex = items.findIndex(
+        (anchorItem, anchorItemIndex) =>
+          getItemId(anchorItem, anchorItemIndex) === anchorItemIdRef.current,
+      );
+
+      const rangeItemIds = getEnabledItemIds(
+        Math.min(anchorIndex === -1 ? itemIndex : anchorIndex, itemIndex),
+        Math.max(anchorIndex === -1 ? itemIndex : anchorIndex, itemIndex),
+      );
+
+      commitSelection(
+        toggle ? [...new Set([...currentSelectedItemIds, ...rangeItemIds])] : rangeItemIds,
+      );
+      return;
+    }
+
+    anchorItemIdRef.current = itemId;
+
+    if (toggle) {
+      commitSelection(
+        isSelected
+          ? currentSelectedItemIds.filter(selectedItemId => selectedItemId !== itemId)
+          : [...currentSelectedItemIds, itemId],
+      );
+    } else {
+      commitSelection([itemId]);
+    }
+  };
+
+  const selectAll = () => {
+    if (mode === 'multiple') {
+      commitSelection(getEnabledItemIds(0, items.length - 1));
+    }
+  };
+
+  const clearSelection = () => {
+    if (mode !== 'none') {
+      commitSelection([]);
+    }
+  };
+
+  /**
+   * Handles the Space key, which selects or toggles the active item, and Ctrl+A or Cmd+A, which
+   * selects all items in the `multiple` mode.
+   *
+   * @param e - The keyboard event of the list.
+   * @param activeIndex - The index of the active item, or `-1` when there is no active item.
+   */
+  const handleSelectionKeyDown = (e: KeyboardEvent<HTMLElement>, activeIndex: number) => {
+    if (mode === 'none' || e.defaultPrevented) {
+      return;
+    }
+
+    if (e.key === ' ' && activeIndex !== -1) {
+      e.preventDefault();
+
+      selectItem(activeIndex, {
+        toggle: mode === 'multiple' && !e.shiftKey,
+        range: mode === 'multiple' && e.shiftKey,
+      });
+    } else if (mode === 'multiple' && e.key.toLowerCase() === 'a' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+
+      selectAll();
+    }
+  };
+
+  return {
+    isItemSelected,
+    selectItem,
+    selectAll,
+    clearSelection,
+    setSelectionAnchor,
+    handleSelectionKeyDown,
+  };
+};
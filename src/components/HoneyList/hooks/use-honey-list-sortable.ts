@@ -0,0 +1,466 @@
+import { useEffect, useRef, useState } from 'react';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+import type { KeyboardEvent, PointerEvent, RefObject } from 'react';
+
+import type { Nullable } from '../../../types';
+import type { HoneyListItem, HoneyListOrientation } from '../HoneyList.types';
+
+// The pointer must move this distance before a drag starts, so clicks still reach the items
+const DRAG_START_DISTANCE = 4;
+// Distance from the list edges where the list is scrolled automatically
+const AUTO_SCROLL_EDGE_SIZE = 48;
+// Maximum scroll distance per animation frame
+const AUTO_SCROLL_MAX_SPEED = 12;
+
+export interface HoneyListDragState {
+  fromIndex: number;
+  /**
+   * The index the dragged item is moved to when dropped.
+   */
+  toIndex: number;
+  source: 'pointer' | 'keyboard';
+}
+
+interface HoneyListPointerStart {
+  pointerId: number;
+  itemIndex: number;
+  x: number;
+  y: number;
+}
+
+interface HoneyListPointerPosition {
+  x: number;
+  y: number;
+}
+
+export interface UseHoneyListSortableOptions<Item extends HoneyListItem> {
+  /**
+   * Whether the items can be reordered.
+   */
+  enabled: boolean;
+  items: Item[];
+  orientation: HoneyListOrientation;
+  /**
+   * Returns the rendered element of an item, or `null` when the item is not rendered.
+   */
+  getItemElement: (itemIndex: number) => Nullable<HTMLElement>;
+  /**
+   * Returns the indexes of the first and the last rendered item. Only the rendered items are
+   * hit-tested while the pointer moves.
+   */
+  getRenderedItemsRange: () => [number, number];
+  /**
+   * Returns the item name used in the screen reader announcements.
+   */
+  getItemLabel: (item: Item, itemIndex: number) => string;
+  /**
+   * Scrolls the list to an item moved by keyboard.
+   */
+  revealItem: (itemIndex: number) => void;
+  onReorder: ((fromIndex: number, toIndex: number, item: Item) => void) | undefined;
+}
+
+/**
+ * Reorders list items by pointer or keyboard dragging.
+ *
+ * A pointer drag starts after the pointer moves a few pixels from where it was pressed on an item.
+ * The list is scrolled automatically while the pointer is near its edges. A keyboard drag starts
+ * with the Space key, moves the item with the arrow keys, Home and End, and ends with Space or
+ * Escape. Every step is described in an announcement for a live region.
+ *
+ * @param listRef - Reference to the scrollable list element.
+ * @param options - Sortable configuration.
+ *
+ * @returns The drag state, the announcement and the event handlers of the items and the list.
+ */
+export const useHoneyListSortable = <Item extends HoneyListItem>(
+  listRef: RefObject<Nullable<HTMLElement>>,
+  {
+    enabled,
+    items,
+    orientation,
+    getItemElement,
+    getRenderedItemsRange,
+    getItemLabel,
+    revealItem,
+    onReorder,
+  }: UseHoneyListSortableOptions<Item>,
+) => {
+  const [dragState, setDragState] = useState<Nullable<HoneyListDragState>>(null);
+  const [announcement, setAnnouncement] = useState('');
+
+  // Mirrors the state, so the document listeners can read the latest drag state
+  const dragStateRef = useRef<Nullable<HoneyListDragState>>(null);
+  const pointerStartRef = useRef<Nullable<HoneyListPointerStart>>(null);
+  const pointerPositionRef = useRef<Nullable<HoneyListPointerPosition>>(null);
+  const autoScrollFrameIdRef = useRef<Nullable<number>>(null);
+  const removePointerListenersRef = useRef<Nullable<() => void>>(null);
+  const isClickSuppressedRef = useRef(false);
+  const isEscapeKeyUpSuppressedRef = useRef(false);
+
+  const itemsRef = useHoneyLatest(items);
+  const getItemElementRef = useHoneyLatest(getItemElement);
+  const getRenderedItemsRangeRef = useHoneyLatest(getRenderedItemsRange);
+  const getItemLabelRef = useHoneyLatest(getItemLabel);
+  const onReorderRef = useHoneyLatest(onReorder);
+
+  const isVertical = orientation === 'vertical';
+
+  const commitDragState = (nextDragState: Nullable<HoneyListDragState>) => {
+    dragStateRef.current = nextDragState;
+
+    setDragState(nextDragState);
+  };
+
+  const describeItem = (itemIndex: number) =>
+    getItemLabelRef.current(itemsRef.current[itemIndex], itemIndex);
+
+  const describePosition = (itemIndex: number) =>
+    `position ${itemIndex + 1} of ${itemsRef.current.length}`;
+
+  const stopAutoScroll = () => {
+    if (autoScrollFrameIdRef.current !== null) {
+      cancelAnimationFrame(autoScrollFrameIdRef.current);
+      autoScrollFrameIdRef.current = null;
+    }
+  };
+
+  const endDrag = () => {
+    stopAutoScroll();
+
+    removePointerListenersRef.current?.();
+    removePointerListenersRef.current = null;
+
+    pointerStartRef.current = null;
+    pointerPositionRef.current = null;
+
+    commitDragState(null);
+  };
+
+  useEffect(
+    () => () => {
+      removePointerListenersRef.current?.();
+
+      if (autoScrollFrameIdRef.current !== null) {
+        cancelAnimationFrame(autoScrollFrameIdRef.current);
+      }
+    },
+    [],
+  );
+
+  const startDrag = (itemIndex: number, source: HoneyListDragState['source']) => {
+    commitDragState({
+      fromIndex: itemIndex,
+      toIndex: itemIndex,
+      source,
+    });
+
+    setAnnouncement(
+      source === 'keyboard'
+        ? `Picked up ${describeItem(itemIndex)}, ${describePosition(itemIndex)}. Use the arrow keys to move, Space to drop, Escape to cancel.`
+        : `Picked up ${describeItem(itemIndex)}, ${describePosition(itemIndex)}.`,
+    );
+  };
+
+  const moveDrag = (toIndex: number) => {
+    const currentDragState = dragStateRef.current;
+    if (!currentDragState || currentDragState.toIndex === toIndex) {
+      return;
+    }
+
+    commitDragState({
+      ...currentDragState,
+      toIndex,
+    });
+
+    setAnnouncement(
+      `${describeItem(currentDragState.fromIndex)} moved to ${describePosition(toIndex)}.`,
+    );
+  };
+
+  const dropDrag = () => {
+    const currentDragState = dragStateRef.current;
+    if (!currentDragState) {
+      return;
+    }
+
+    const { fromIndex, toIndex } = currentDragState;
+
+    setAnnouncement(`${describeItem(fromIndex)} dropped at ${describePosition(toIndex)}.`);
+
+    endDrag();
+
+    if (fromIndex !== toIndex) {
+      onReorderRef.current?.(fromIndex, toIndex, itemsRef.current[fromIndex]);
+    }
+  };
+
+  const cancelDrag = () => {
+    const currentDragState = dragStateRef.current;
+    if (!currentDragState) {
+      return;
+    }
+
+    setAnnouncement(
+      `Reordering cancelled. ${describeItem(currentDragState.fromIndex)} returned to ${describePosition(currentDragState.fromIndex)}.`,
+    );
+
+    endDrag();
+  };
+
+  /**
+   * Finds the index the dragged item is moved to from the pointer position and the centers of the
+   * rendered items.
+   *
+   * The rendered items are laid out in order, so the first item whose center is after the pointer
+   * is found with a binary search.
+   */
+  const updatePointerDropIndex = () => {
+    const currentDragState = dragStateRef.current;
+    const pointerPosition = pointerPositionRef.current;
+
+    if (!currentDragState || !pointerPosition) {
+      return;
+    }
+
+    const position = isVertical ? pointerPosition.y : pointerPosition.x;
+    const [firstRenderedIndex, lastRenderedIndex] = getRenderedItemsRangeRef.current();
+
+    let insertionIndex = firstRenderedIndex;
+    let endIndex = lastRenderedIndex + 1;
+
+    while (insertionIndex < endIndex) {
+      const middleIndex = Math.floor((insertionIndex + endIndex) / 2);
+
+      const rect = getItemElementRef.current(middleIndex)?.getBoundingClientRect();
+      const center = rect && (isVertical ? rect.top + rect.height / 2 : rect.left + rect.width / 2);
+
+      if (center !== undefined && position < center) {
+        endIndex = middleIndex;
+      } else {
+        insertionIndex = middleIndex + 1;
+      }
+    }
+
+    moveDrag(insertionIndex > currentDragState.fromIndex ? insertionIndex - 1 : insertionIndex);
+  };
+
+  const autoScroll = () => {
+    const list = listRef.current;
+    const pointerPosition = pointerPositionRef.current;
+
+    if (!list || !pointerPosition || dragStateRef.current?.source !== 'pointer') {
+      autoScrollFrameIdRef.current = null;
+      return;
+    }
+
+    const rect = list.getBoundingClientRect();
+
+    const position = isVertical ? pointerPosition.y : pointerPosition.x;
+    const start = isVertical ? rect.top : rect.left;
+    const end = isVertical ? rect.bottom : rect.right;
+
+    let scrollDelta = 0;
+
+    if (position < start + AUTO_SCROLL_EDGE_SIZE) {
+      scrollDelta =
+        -AUTO_SCROLL_MAX_SPEED *
+        Math.min(1, (start + AUTO_SCROLL_EDGE_SIZE - position) / AUTO_SCROLL_EDGE_SIZE);
+    } else if (position > end - AUTO_SCROLL_EDGE_SIZE) {
+      scrollDelta =
+        AUTO_SCROLL_MAX_SPEED *
+        Math.min(1, (position - end + AUTO_SCROLL_EDGE_SIZE) / AUTO_SCROLL_EDGE_SIZE);
+    }
+
+    if (scrollDelta) {
+      if (isVertical) {
+        list.scrollTop += scrollDelta;
+      } else {
+        list.scrollLeft += scrollDelta;
+      }
+
+      updatePointerDropIndex();
+    }
+
+    autoScrollFrameIdRef.current = requestAnimationFrame(autoScroll);
+  };
+
+  const handleSortablePointerDown = (e: PointerEvent<HTMLElement>, itemIndex: number) => {
+    isClickSuppressedRef.current = false;
+
+    if (!enabled || e.button !== 0 || dragStateRef.current || pointerStartRef.current) {
+      return;
+    }
+
+    pointerStartRef.current = {
+      pointerId: e.pointerId,
+      itemIndex,
+      x: e.clientX,
+      y: e.clientY,
+    };
+
+    const handlePointerMove = (moveEvent: globalThis.PointerEvent) => {
+      const pointerStart = pointerStartRef.current;
+      if (!pointerStart || moveEvent.pointerId !== pointerStart.pointerId) {
+        return;
+      }
+
+      pointerPositionRef.current = {
+        x: moveEvent.clientX,
+        y: moveEvent.clientY,
+      };
+
+      if (!dragStateRef.current) {
+        const distance = Math.hypot(
+          moveEvent.clientX - pointerStart.x,
+          moveEvent.clientY - pointerStart.y,
+        );
+
+        if (distance < DRAG_START_DISTANCE) {
+          return;
+        }
+
+        startDrag(pointerStart.itemIndex, 'pointer');
+      }
+
+      updatePointerDropIndex();
+
+      autoScrollFrameIdRef.current ??= requestAnimationFrame(autoScroll);
+    };
+
+    const handlePointerUp = (upEvent: globalThis.PointerEvent) => {
+      if (upEvent.pointerId !== pointerStartRef.current?.pointerId) {
+        return;
+      }
+
+      if (dragStateRef.current) {
+        // The click following the drop must not select or activate the item
+        isClickSuppressedRef.current = true;
+
+        dropDrag();
+      } else {
+        endDrag();
+      }
+    };
+
+    const handlePointerCancel = (cancelEvent: globalThis.PointerEvent) => {
+      if (cancelEvent.pointerId !== pointerStartRef.current?.pointerId) {
+        return;
+      }
+
+      if (dragStateRef.current) {
+        cancelDrag();
+      } else {
+        endDrag();
+      }
+    };
+
+    document.addEventListener('pointermove', handlePointerMove);
+    document.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('pointercancel', handlePointerCancel);
+
+    removePointerListenersRef.current = () => {
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', handlePointerCancel);
+    };
+  };
+
+  /**
+   * Handles the keyboard drag of an item.
+   *
+   * @param e - The keyboard event.
+   * @param itemIndex - The index of the item the Space key picks up, or `-1` when there is no such item.
+   */
+  const handleSortableKeyDown = (e: KeyboardEvent<HTMLElement>, itemIndex: number) => {
+    if (!enabled || e.defaultPrevented) {
+      return;
+    }
+
+    const currentDragState = dragStateRef.current;
+
+    if (!currentDragState) {
+      if (e.key === ' ' && itemIndex !== -1) {
+        e.preventDefault();
+
+        startDrag(itemIndex, 'keyboard');
+      }
+      return;
+    }
+
+    if (currentDragState.source !== 'keyboard') {
+      return;
+    }
+
+    const lastIndex = itemsRef.current.length - 1;
+
+    let toIndex: number;
+
+    switch (e.key) {
+      case ' ':
+        e.preventDefault();
+
+        dropDrag();
+        return;
+
+      case 'Escape':
+        e.preventDefault();
+        // The Escape key must not also close an overlay containing the list
+        e.stopPropagation();
+        isEscapeKeyUpSuppressedRef.current = true;
+
+        cancelDrag();
+        return;
+
+      case 'Tab':
+        cancelDrag();
+        return;
+
+      case isVertical ? 'ArrowUp' : 'ArrowLeft':
+        toIndex = Math.max(0, currentDragState.toIndex - 1);
+        break;
+
+      case isVertical ? 'ArrowDown' : 'ArrowRight':
+        toIndex = Math.min(lastIndex, currentDragState.toIndex + 1);
+        break;
+
+      case 'Home':
+        toIndex = 0;
+        break;
+
+      case 'End':
+        toIndex = lastIndex;
+        break;
+
+      default:
+        return;
+    }
+
+    e.preventDefault();
+
+    moveDrag(toIndex);
+    revealItem(toIndex);
+  };
+
+  const handleSortableKeyUp = (e: KeyboardEvent<HTMLElement>) => {
+    if (e.key === 'Escape' && isEscapeKeyUpSuppressedRef.current) {
+      isEscapeKeyUpSuppressedRef.current = false;
+
+      e.stopPropagation();
+    }
+  };
+
+  /**
+   * Returns whether a click must be ignored because it ends a pointer drag.
+   */
+  const isClickSuppressed = () => isClickSuppressedRef.current;
+
+  return {
+    dragState,
+    announcement,
+    handleSortablePointerDown,
+    handleSortableKeyDown,
+    handleSortableKeyUp,
+    isClickSuppressed,
+  };
+};
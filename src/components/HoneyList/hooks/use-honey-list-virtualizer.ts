@@ -0,0 +1,336 @@
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useReducer,
+  useRef,
+  useState,
+} from 'react';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+import type { RefCallback, RefObject } from 'react';
+
+import type { Nullable } from '../../../types';
+import type {
+  HoneyListItem,
+  HoneyListItemSize,
+  HoneyListOrientation,
+  HoneyListScrollToOptions,
+} from '../HoneyList.types';
+
+export interface HoneyListVirtualItem {
+  index: number;
+  /**
+   * Offset of the item from the start of the list in pixels.
+   */
+  start: number;
+  /**
+   * Size of the item along the scroll axis in pixels.
+   */
+  size: number;
+}
+
+interface HoneyListViewport {
+  offset: number;
+  size: number;
+}
+
+/**
+ * Finds the index of the item containing the offset with a binary search.
+ *
+ * @param itemOffsets - Start offsets of the items followed by the total size of the list.
+ * @param offset - The offset in pixels.
+ *
+ * @returns The index of the last item starting at or before the offset.
+ */
+const findItemIndexAtOffset = (itemOffsets: number[], offset: number) => {
+  let low = 0;
+  let high = itemOffsets.length - 2;
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+
+    if (itemOffsets[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return low;
+};
+
+export interface UseHoneyListVirtualizerOptions<Item extends HoneyListItem> {
+  /**
+   * Whether the items are virtualized. When disabled, the hook does not observe the list.
+   */
+  enabled: boolean;
+  items: Item[];
+  orientation: HoneyListOrientation;
+  /**
+   * Returns the key of an item, used to keep its measured size when the items change.
+   */
+  getItemKey: (item: Item, itemIndex: number) => unknown;
+  /**
+   * The known size of the items. When omitted, items are measured after they are rendered.
+   */
+  itemSize: HoneyListItemSize<Item> | undefined;
+  estimatedItemSize: number;
+  overscan: number;
+}
+
+/**
+ * Calculates which items of a scrollable list are inside the viewport.
+ *
+ * Item sizes are either known up front or measured with a `ResizeObserver` once the items are
+ * rendered. Measured sizes are kept by item key, and the sizes of removed items are dropped. The
+ * item offsets are recalculated only when the items, the item sizes or a measured size change.
+ * The viewport is read from the scroll position and the client size of the list.
+ *
+ * @param scrollElementRef - Reference to the scrollable list element.
+ * @param options - Virtualization configuration.
+ *
+ * @returns The rendered items, the total size of the list, the item measuring ref callback and
+ * a function scrolling to an item.
+ */
+export const useHoneyListVirtualizer = <Item extends HoneyListItem>(
+  scrollElementRef: RefObject<Nullable<HTMLElement>>,
+  {
+    enabled,
+    items,
+    orientation,
+    getItemKey,
+    itemSize,
+    estimatedItemSize,
+    overscan,
+  }: UseHoneyListVirtualizerOptions<Item>,
+) => {
+  const isVertical = orientation === 'vertical';
+
+  const [viewport, setViewport] = useState<HoneyListViewport>({ offset: 0, size: 0 });
+  const [measurementsVersion, refreshMeasurements] = useReducer((count: number) => count + 1, 0);
+
+  const measuredSizesRef = useRef(new Map<unknown, number>());
+  const itemsResizeObserverRef = useRef<Nullable<ResizeObserver>>(null);
+
+  const itemsRef = useHoneyLatest(items);
+  const getItemKeyRef = useHoneyLatest(getItemKey);
+
+  const itemsCount = items.length;
+
+  const itemOffsets = useMemo(() => {
+    const offsets: number[] = [0];
+
+    if (enabled) {
+      items.forEach((item, itemIndex) => {
+        const size =
+          (typeof itemSize === 'function' ? itemSize(item, itemIndex) : itemSize) ??
+          measuredSizesRef.current.get(getItemKeyRef.current(item, itemIndex)) ??
+          estimatedItemSize;
+
+        offsets.push(offsets[itemIndex] + size);
+      });
+    }
+
+    return offsets;
+  }, [enabled, items, itemSize, estimatedItemSize, measurementsVersion]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const itemKeys = new Set(
+      items.map((item, itemIndex) => getItemKeyRef.current(item, itemIndex)),
+    );
+
+    // The measured sizes of removed items are dropped, so they do not accumulate
+    measuredSizesRef.current.forEach((_, itemKey) => {
+      if (!itemKeys.has(itemKey)) {
+        measuredSizesRef.current.delete(itemKey);
+      }
+    });
+  }, [enabled, items]);
+
+  const totalSize = itemOffsets[itemOffsets.length - 1];
+
+  useLayoutEffect(() => {
+    const scrollElement = scrollElementRef.current;
+    if (!enabled || !scrollElement) {
+      return;
+    }
+
+    const updateViewport = () => {
+      const nextViewport: HoneyListViewport = isVertical
+        ? { offset: scrollElement.scrollTop, size: scrollElement.clientHeight }
+        : { offset: scrollElement.scrollLeft, size: scrollElement.clientWidth };
+
+      setViewport(prevViewport =>
+        prevViewport.offset === nextViewport.offset && prevViewport.size === nextViewport.size
+          ? prevViewport
+          : nextViewport,
+      );
+    };
+
+    updateViewport();
+
+    scrollElement.addEventListener('scroll', updateViewport, { passive: true });
+
+    // Not available in all environments, e.g. jsdom
+    const resizeObserver =
+      typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(updateViewport);
+
+    resizeObserver?.observe(scrollElement);
+
+    return () => {
+      scrollElement.removeEventListener('scroll', updateViewport);
+
+      resizeObserver?.disconnect();
+    };
+  }, [enabled, isVertical]);
+
+  useEffect(
+    () => () => {
+      itemsResizeObserverRef.current?.disconnect();
+      itemsResizeObserverRef.current = null;
+    },
+    [],
+  );
+
+  const measureItemElement = useCallback(
+    (element: HTMLElement) => {
+      const itemIndex = Number(element.dataset.index);
+      if (Number.isNaN(itemIndex) || itemIndex >= itemsRef.current.length) {
+        return false;
+      }
+
+      const rect = element.getBoundingClientRect();
+      const size = isVertical ? rect.height : rect.width;
+
+      const itemKey = getItemKeyRef.current(itemsRef.current[itemIndex], itemIndex);
+      // Items without a layout, e.g. while hidden, keep their previous size
+      if (!size || measuredSizesRef.current.get(itemKey) === size) {
+        return false;
+      }
+
+      measuredSizesRef.current.set(itemKey, size);
+
+      return true;
+    },
+    [isVertical],
+  );
+
+  /**
+   * Measures a rendered item element and keeps observing its size until it is unmounted.
+   *
+   * The element must have the `data-index` attribute set to the item index.
+   */
+  const measureItemRef = useCallback<RefCallback<HTMLElement>>(
+    element => {
+      if (!element) {
+        return;
+      }
+
+      if (measureItemElement(element)) {
+        refreshMeasurements();
+      }
+
+      if (typeof ResizeObserver === 'undefined') {
+        return;
+      }
+
+      itemsResizeObserverRef.current ??= new ResizeObserver(entries => {
+        const isChanged = entries.reduce(
+          (result, entry) => measureItemElement(entry.target as HTMLElement) || result,
+          false,
+        );
+
+        if (isChanged) {
+          refreshMeasurements();
+        }
+      });
+
+      const itemsResizeObserver = itemsResizeObserverRef.current;
+
+      itemsResizeObserver.observe(element);
+
+      return () => {
+        itemsResizeObserver.unobserve(element);
+      };
+    },
+    [measureItemElement],
+  );
+
+  const virtualItems: HoneyListVirtualItem[] = [];
+
+  if (enabled && itemsCount) {
+    const firstVisibleIndex = findItemIndexAtOffset(itemOffsets, viewport.offset);
+    const lastVisibleIndex = findItemIndexAtOffset(
+      itemOffsets,
+      // Items starting exactly at the end of the viewport are not visible
+      Math.max(viewport.offset, viewport.offset + viewport.size - 1),
+    );
+
+    const startIndex = Math.max(0, firstVisibleIndex - overscan);
+    const endIndex = Math.min(itemsCount - 1, lastVisibleIndex + overscan);
+
+    for (let itemIndex = startIndex; itemIndex <= endIndex; itemIndex++) {
+      virtualItems.push({
+        index: itemIndex,
+        start: itemOffsets[itemIndex],
+        size: itemOffsets[itemIndex + 1] - itemOffsets[itemIndex],
+      });
+    }
+  }
+
+  const itemOffsetsRef = useHoneyLatest(itemOffsets);
+
+  const scrollToIndex = useCallback(
+    (itemIndex: number, { align = 'auto', behavior }: HoneyListScrollToOptions = {}) => {
+      const scrollElement = scrollElementRef.current;
+      const offsets = itemOffsetsRef.current;
+
+      if (!scrollElement || itemIndex < 0 || itemIndex >= offsets.length - 1) {
+        return;
+      }
+
+      const itemStart = offsets[itemIndex];
+      const itemEnd = offsets[itemIndex + 1];
+
+      const scrollOffset = isVertical ? scrollElement.scrollTop : scrollElement.scrollLeft;
+      const viewportSize = isVertical ? scrollElement.clientHeight : scrollElement.clientWidth;
+
+      let targetOffset: number;
+
+      if (align === 'start') {
+        targetOffset = itemStart;
+      } else if (align === 'end') {
+        targetOffset = itemEnd - viewportSize;
+      } else if (align === 'center') {
+        targetOffset = (itemStart + itemEnd - viewportSize) / 2;
+      } else if (itemStart < scrollOffset) {
+        targetOffset = itemStart;
+      } else if (itemEnd > scrollOffset + viewportSize) {
+        targetOffset = itemEnd - viewportSize;
+      } else {
+        // Already fully visible
+        return;
+      }
+
+      const maxOffset = Math.max(0, offsets[offsets.length - 1] - viewportSize);
+
+      scrollElement.scrollTo({
+        [isVertical ? 'top' : 'left']: Math.min(maxOffset, Math.max(0, targetOffset)),
+        behavior,
+      });
+    },
+    [isVertical],
+  );
+
+  return {
+    virtualItems,
+    totalSize,
+    measureItemRef,
+    scrollToIndex,
+  };
+};
@@ -0,0 +1,304 @@
+import React, { useCallback, useEffect, useId, useState } from 'react';
+import { noop } from '@react-hive/honey-utils';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+import type { PointerEventHandler, ReactNode, RefObject } from 'react';
+import type { FastOmit } from '@react-hive/honey-style';
+
+import { HONEY_OVERLAY_PRIORITY } from '../../constants';
+import { HoneyFlex } from '../HoneyFlex';
+import { HoneyOverlay } from '../HoneyOverlay';
+import { HoneyLazyContent } from '../HoneyLazyContent';
+import { HoneyPopupPortal } from '../HoneyPopup/HoneyPopupPortal';
+import { HoneyModalBackdropStyled, HoneyModalDialogStyled } from './HoneyModalStyled';
+import type { HoneyOverlayEventListenerHandler, Nullable } from '../../types';
+import type { HoneyFlexProps } from '../HoneyFlex';
+import type { HoneyOverlayProps } from '../HoneyOverlay';
+import type { HoneyPopupPortalProps } from '../HoneyPopup/HoneyPopupPortal';
+import type {
+  HoneyModalBackdropStyledProps,
+  HoneyModalDialogStyledProps,
+} from './HoneyModalStyled';
+
+/**
+ * What caused a modal to request to be closed.
+ *
+ * - `escape-key` - The Escape key was released while the modal was the top-level overlay.
+ * - `backdrop-click` - The backdrop was pressed.
+ * - `dismiss` - The overlay store deactivated the modal, for example on a history back navigation,
+ *   when the overlay it was opened from was closed, or through the imperative overlay API.
+ */
+export type HoneyModalCloseReason = 'escape-key' | 'backdrop-click' | 'dismiss';
+
+export interface HoneyModalProps extends FastOmit<
+  HoneyModalDialogStyledProps,
+  'children' | 'role' | 'active' | 'transitionDurationMs'
+> {
+  /**
+   * The modal body content.
+   */
+  children?: ReactNode;
+  /**
+   * Controls whether the modal is open.
+   */
+  open: boolean;
+  /**
+   * Callback invoked when the modal requests to be closed.
+   *
+   * @param reason - What caused the request.
+   */
+  onClose: (reason: HoneyModalCloseReason) => void;
+  /**
+   * Content of the header slot, usually the modal title.
+   *
+   * When provided, the dialog is labelled by the header unless `aria-labelledby` is passed.
+   */
+  header?: ReactNode;
+  /**
+   * Content of the footer slot, usually the modal actions.
+   */
+  footer?: ReactNode;
+  /**
+   * The dialog role. Use `alertdialog` for dialogs that interrupt the user to confirm an action.
+   *
+   * @default 'dialog'
+   */
+  role?: 'dialog' | 'alertdialog';
+  /**
+   * Whether releasing the Escape key closes the modal while it is the top-level overlay.
+   *
+   * @default true
+   */
+  closeOnEscape?: boolean;
+  /**
+   * Whether pressing the backdrop closes the modal.
+   *
+   * @default `false` for `alertdialog`, otherwise `true`
+   */
+  closeOnBackdropClick?: boolean;
+  /**
+   * Duration of the mount and unmount transitions in milliseconds.
+   *
+   * @default 250
+   */
+  transitionDurationMs?: number;
+  /**
+   * Element that receives focus when the modal opens.
+   *
+   * When omitted, the first tabbable element inside the dialog is focused.
+   */
+  initialFocusRef?: RefObject<Nullable<HTMLElement>>;
+  /**
+   * Additional props for the header slot.
+   */
+  headerProps?: FastOmit<HoneyFlexProps, 'children'>;
+  /**
+   * Additional props for the body slot.
+   */
+  bodyProps?: FastOmit<HoneyFlexProps, 'children'>;
+  /**
+   * Additional props for the footer slot.
+   */
+  footerProps?: FastOmit<HoneyFlexProps, 'children'>;
+  /**
+   * Additional props for the backdrop element.
+   */
+  backdropProps?: FastOmit<
+    HoneyModalBackdropStyledProps,
+    'children' | 'active' | 'transitionDurationMs'
+  >;
+  /**
+   * Additional props for the overlay that wraps the backdrop and the dialog.
+   */
+  overlayProps?: FastOmit<HoneyOverlayProps, 'children' | 'active' | 'onDeactivate'>;
+  /**
+   * Properties for `HoneyPopupPortal` component.
+   */
+  portalProps?: FastOmit<HoneyPopupPortalProps, 'children'>;
+}
+
+/**
+ * A centered modal dialog rendered in a portal above a backdrop.
+ *
+ * The modal is a modal `HoneyOverlay` with the dialog priority, so the page content behind it is
+ * inert, the page scroll is locked and focus is kept inside the dialog while it is open. Escape
+ * is handled through the overlay stack, so only the top-level modal is closed.
+ *
+ * The content is mounted through `HoneyLazyContent` and stays mounted until the closing
+ * transition is finished.
+ *
+ * @param props - Modal component props.
+ *
+ * @example
+ * ```tsx
+ * <HoneyModal
+ *   open={isOpen}
+ *   onClose={() => setIsOpen(false)}
+ *   header={<h2>Delete project</h2>}
+ *   footer={
+ *     <>
+ *       <button onClick={() => setIsOpen(false)}>Cancel</button>
+ *       <button onClick={deleteProject}>Delete</button>
+ *     </>
+ *   }
+ *   $width={{ xs: '100%', md: 480 }}
+ * >
+ *   This action cannot be undone.
+ * </HoneyModal>
+ * ```
+ */
+export const HoneyModal = ({ open, transitionDurationMs = 250, ...props }: HoneyModalProps) => {
+  return (
+    <HoneyLazyContent mount={open} unmountDelay={transitionDurationMs}>
+      <HoneyModalContent open={open} transitionDurationMs={transitionDurationMs} {...props} />
+    </HoneyLazyContent>
+  );
+};
+
+const HoneyModalContent = ({
+  children,
+  open,
+  onClose,
+  header,
+  footer,
+  role = 'dialog',
+  closeOnEscape = true,
+  closeOnBackdropClick = role !== 'alertdialog',
+  transitionDurationMs = 250,
+  initialFocusRef,
+  headerProps,
+  bodyProps,
+  footerProps,
+  backdropProps,
+  overlayProps,
+  portalProps,
+  'aria-labelledby': ariaLabelledBy,
+  'aria-describedby': ariaDescribedBy,
+  ...props
+}: HoneyModalProps) => {
+  const onCloseRef = useHoneyLatest(onClose);
+
+  const [isTransitionActive, setIsTransitionActive] = useState(false);
+
+  const headerId = useId();
+  const bodyId = useId();
+
+  useEffect(() => {
+    if (!open) {
+      setIsTransitionActive(false);
+      return;
+    }
+
+    // Start the opening transition after the initial styles are applied
+    const animationFrameId = requestAnimationFrame(() => setIsTransitionActive(true));
+
+    return () => {
+      cancelAnimationFrame(animationFrameId);
+    };
+  }, [open]);
+
+  const handleOverlayKeyUp = useCallback<HoneyOverlayEventListenerHandler>(keyCode => {
+    if (keyCode === 'Escape') {
+      onCloseRef.current('escape-key');
+    }
+  }, []);
+
+  const handleDeactivateOverlay = useCallback(() => {
+    onCloseRef.current('dismiss');
+  }, []);
+
+  const handleBackdropPointerDown: PointerEventHandler<HTMLDivElement> = e => {
+    backdropProps?.onPointerDown?.(e);
+
+    if (closeOnBackdropClick) {
+      onCloseRef.current('backdrop-click');
+    }
+  };
+
+  return (
+    <HoneyPopupPortal {...portalProps}>
+      <HoneyOverlay
+        active={open}
+        onDeactivate={handleDeactivateOverlay}
+        onKeyUp={closeOnEscape ? handleOverlayKeyUp : noop}
+        priority={HONEY_OVERLAY_PRIORITY.dialog}
+        modal={true}
+        trapFocus={true}
+        initialFocusRef={initialFocusRef}
+        $position="fixed"
+        $inset={0}
+        center={true}
+        {...overlayProps}
+        // Data
+        data-testid="honey-modal"
+      >
+        <HoneyModalBackdropStyled
+          active={isTransitionActive}
+          transitionDurationMs={transitionDurationMs}
+          {...backdropProps}
+          onPointerDown={handleBackdropPointerDown}
+          // ARIA
+          aria-hidden={true}
+          // Data
+          data-testid="honey-modal-backdrop"
+        />
+
+        <HoneyModalDialogStyled
+          active={isTransitionActive}
+          transitionDurationMs={transitionDurationMs}
+          {...props}
+          // ARIA
+          role={role}
+          aria-modal={true}
+          aria-labelledby={ariaLabelledBy ?? (header ? headerId : undefined)}
+          aria-describedby={ariaDescribedBy ?? (children ? bodyId : undefined)}
+          // Data
+          data-testid="honey-modal-dialog"
+        >
+          {header && (
+            <HoneyFlex
+              id={headerId}
+              row={true}
+              centerY={true}
+              $gap={1}
+              $padding={2}
+              {...headerProps}
+              // Data
+              data-testid="honey-modal-header"
+            >
+              {header}
+            </HoneyFlex>
+          )}
+
+          {children && (
+            <HoneyFlex
+              id={bodyId}
+              $flexGrow={1}
+              $overflow="auto"
+              $padding={2}
+              {...bodyProps}
+              // Data
+              data-testid="honey-modal-body"
+            >
+              {children}
+            </HoneyFlex>
+          )}
+
+          {footer && (
+            <HoneyFlex
+              row={true}
+              centerY={true}
+              $justifyContent="flex-end"
+              $gap={1}
+              $padding={2}
+              {...footerProps}
+              // Data
+              data-testid="honey-modal-footer"
+            >
+              {footer}
+            </HoneyFlex>
+          )}
+        </HoneyModalDialogStyled>
+      </HoneyOverlay>
+    </HoneyPopupPortal>
+  );
+};
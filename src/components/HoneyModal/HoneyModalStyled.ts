@@ -0,0 +1,60 @@
+import { css, styled } from '@react-hive/honey-style';
+
+import { honeyVisibilityTransitionEffect } from '../../effects';
+import { HoneyBox } from '../HoneyBox';
+import { HoneyFlex } from '../HoneyFlex';
+import type { HoneyVisibilityTransitionEffectContextProps } from '../../effects';
+import type { HoneyBoxProps } from '../HoneyBox';
+import type { HoneyFlexProps } from '../HoneyFlex';
+
+interface HoneyModalTransitionProps extends HoneyVisibilityTransitionEffectContextProps {
+  /**
+   * Duration of the mount and unmount transitions in milliseconds.
+   */
+  transitionDurationMs: number;
+}
+
+export type HoneyModalBackdropStyledProps = HoneyBoxProps & HoneyModalTransitionProps;
+
+export const HoneyModalBackdropStyled = styled<HoneyModalBackdropStyledProps>(
+  HoneyBox,
+  ({ $position = 'absolute', $inset = 0, $backgroundColor = 'rgba(0, 0, 0, 0.5)' }) => ({
+    $position,
+    $inset,
+    $backgroundColor,
+  }),
+)`
+  ${({ transitionDurationMs }) => css`
+    ${honeyVisibilityTransitionEffect({
+      durationMs: transitionDurationMs,
+    })};
+  `}
+`;
+
+export type HoneyModalDialogStyledProps = HoneyFlexProps & HoneyModalTransitionProps;
+
+export const HoneyModalDialogStyled = styled<HoneyModalDialogStyledProps>(
+  HoneyFlex,
+  ({
+    $position = 'relative',
+    $maxWidth = 'calc(100% - 32px)',
+    $maxHeight = 'calc(100% - 32px)',
+    $backgroundColor = 'white',
+    $overflow = 'hidden',
+  }) => ({
+    $position,
+    $maxWidth,
+    $maxHeight,
+    $backgroundColor,
+    $overflow,
+  }),
+)`
+  ${({ active = false, transitionDurationMs }) => css`
+    ${honeyVisibilityTransitionEffect({
+      durationMs: transitionDurationMs,
+      extraProperties: ['transform'],
+    })};
+
+    transform: ${active ? 'none' : 'scale(0.95)'};
+  `}
+`;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { noop } from '@react-hive/honey-utils';
+import { act, fireEvent, render } from '@testing-library/react';
+import type { ReactElement } from 'react';
+
+import { themeMock } from '../../../__mocks__';
+import { HoneyLayoutProvider } from '../../../providers';
+import { HoneyModal } from '../HoneyModal';
+
+const customRender = (element: ReactElement) =>
+  render(<HoneyLayoutProvider theme={themeMock}>{element}</HoneyLayoutProvider>);
+
+describe('[HoneyModal]: basic behavior', () => {
+  it('should not render the dialog when closed', () => {
+    const { queryByRole } = customRender(
+      <HoneyModal open={false} onClose={vitest.fn()}>
+        Content
+      </HoneyModal>,
+    );
+
+    expect(queryByRole('dialog')).toBeNull();
+  });
+
+  it('should label and describe the dialog with the header and body slots', () => {
+    const { getByRole, getByTestId } = customRender(
+      <HoneyModal open={true} onClose={vitest.fn()} header="Delete project">
+        This action cannot be undone.
+      </HoneyModal>,
+    );
+
+    const dialog = getByRole('dialog');
+
+    expect(dialog).toHaveAttribute('aria-modal', 'true');
+    expect(dialog).toHaveAttribute('aria-labelledby', getByTestId('honey-modal-header').id);
+    expect(dialog).toHaveAttribute('aria-describedby', getByTestId('honey-modal-body').id);
+  });
+
+  it('should call `onClose` when the Escape key is released', () => {
+    const onClose = vitest.fn();
+
+    customRender(
+      <HoneyModal open={true} onClose={onClose}>
+        Content
+      </HoneyModal>,
+    );
+
+    fireEvent.keyUp(document, { code: 'Escape' });
+
+    expect(onClose).toHaveBeenCalledWith('escape-key');
+  });
+
+  it('should call `onClose` with the dismiss reason when the parent modal is closed', () => {
+    const onClose = vitest.fn();
+
+    const renderModals = (isParentOpen: boolean) => (
+      <HoneyLayoutProvider theme={themeMock}>
+        <HoneyModal open={isParentOpen} onClose={noop}>
+          <HoneyModal open={true} onClose={onClose}>
+            Nested
+          </HoneyModal>
+        </HoneyModal>
+      </HoneyLayoutProvider>
+    );
+
+    const { rerender } = render(renderModals(true));
+
+    rerender(renderModals(false));
+
+    expect(onClose).toHaveBeenCalledWith('dismiss');
+  });
+
+  it('should call `onClose` when the backdrop is pressed', () => {
+    const onClose = vitest.fn();
+
+    const { getByTestId } = customRender(
+      <HoneyModal open={true} onClose={onClose}>
+        Content
+      </HoneyModal>,
+    );
+
+    fireEvent.pointerDown(getByTestId('honey-modal-body'));
+
+    expect(onClose).not.toHaveBeenCalled();
+
+    fireEvent.pointerDown(getByTestId('honey-modal-backdrop'));
+
+    expect(onClose).toHaveBeenCalledWith('backdrop-click');
+  });
+
+  it('should not close an alert dialog when the backdrop is pressed', () => {
+    const onClose = vitest.fn();
+
+    const { getByRole, getByTestId } = customRender(
+      <HoneyModal open={true} onClose={onClose} role="alertdialog">
+        Content
+      </HoneyModal>,
+    );
+
+    expect(getByRole('alertdialog')).toBeInTheDocument();
+
+    fireEvent.pointerDown(getByTestId('honey-modal-backdrop'));
+
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('should keep the dialog mounted until the closing transition is finished', () => {
+    vitest.useFakeTimers();
+
+    const renderModal = (open: boolean) => (
+      <HoneyLayoutProvider theme={themeMock}>
+        <HoneyModal open={open} onClose={vitest.fn()} transitionDurationMs={300}>
+          Content
+        </HoneyModal>
+      </HoneyLayoutProvider>
+    );
+
+    const { queryByRole, rerender } = render(renderModal(true));
+
+    rerender(renderModal(false));
+
+    expect(queryByRole('dialog', { hidden: true })).not.toBeNull();
+
+    act(() => {
+      vitest.advanceTimersByTime(300);
+    });
+
+    expect(queryByRole('dialog', { hidden: true })).toBeNull();
+
+    vitest.useRealTimers();
+  });
+});
@@ -0,0 +1,2 @@
+export * from './HoneyModalStyled';
+export * from './HoneyModal';
@@ -1,20 +1,84 @@
-import React, { useCallback } from 'react';
-import { invokeIfFunction } from '@react-hive/honey-utils';
+import React, {
+  useCallback,
+  useContext,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { generateEphemeralId, invokeIfFunction } from '@react-hive/honey-utils';
 import { useHoneyLatest } from '@react-hive/honey-hooks';
 import type { FastOmit } from '@react-hive/honey-style';
-import type { ReactNode } from 'react';
+import type { FocusEventHandler, PointerEventHandler, ReactNode, RefObject } from 'react';
 
-import { useRegisterHoneyOverlay } from '../hooks';
+import {
+  useHoneyFocusTrap,
+  useHoneyLayout,
+  useHoneyScrollLock,
+  useRegisterHoneyOverlay,
+} from '../hooks';
+import { HONEY_OVERLAY_PRIORITY } from '../constants';
+import { HoneyParentOverlayContext } from '../contexts';
 import { mergeRefs } from '../helpers';
 import { HoneyFlex } from './HoneyFlex';
 import type {
   HoneyActiveOverlay,
+  HoneyKeyboardEventCode,
   HoneyOverlayEventListenerHandler,
+  HoneyOverlayFocusEventListenerHandler,
+  HoneyOverlayPointerEventListenerHandler,
   HoneyOverlayId,
   Nullable,
 } from '../types';
+import type { HoneyParentOverlayContextValue } from '../contexts';
 import type { HoneyFlexProps } from './HoneyFlex';
 
+/**
+ * Determines whether the overlay focus trap should let focus go to the overlays stacked above it.
+ *
+ * The trap is paused while an overlay that traps focus itself is stacked above, or while the
+ * top-level overlay was opened from this overlay, such as a popover rendered from a dialog.
+ * Overlays that do not take focus, such as toasts, do not pause it.
+ *
+ * @param overlays - The overlay stack.
+ * @param overlayId - The ID of the overlay holding the focus trap.
+ *
+ * @returns `true` when the focus trap should be paused or the overlay is not registered.
+ */
+const isOverlayFocusTrapPaused = (
+  overlays: readonly HoneyActiveOverlay[],
+  overlayId: HoneyOverlayId,
+) => {
+  const overlayIndex = overlays.findIndex(overlay => overlay.id === overlayId);
+  if (overlayIndex === -1) {
+    return true;
+  }
+
+  const overlaysAbove = overlays.slice(overlayIndex + 1);
+  if (overlaysAbove.some(overlay => overlay.trapFocus)) {
+    return true;
+  }
+
+  let ancestorId = overlays[overlays.length - 1].parentId;
+
+  // Each ancestor is visited once, so the walk ends even when parent IDs form a cycle
+  const visitedAncestorIds = new Set<HoneyOverlayId>();
+
+  while (ancestorId !== null && !visitedAncestorIds.has(ancestorId)) {
+    if (ancestorId === overlayId) {
+      return true;
+    }
+
+    visitedAncestorIds.add(ancestorId);
+
+    const currentAncestorId: HoneyOverlayId = ancestorId;
+    ancestorId = overlays.find(overlay => overlay.id === currentAncestorId)?.parentId ?? null;
+  }
+
+  return false;
+};
+
 export interface HoneyOverlayContext {
   /**
    * The registered overlay instance, including methods and metadata used by the
@@ -56,8 +120,18 @@ export interface HoneyOverlayProps extends FastOmit<HoneyFlexProps, 'children' |
    *
    * Useful when the overlay needs to be referenced or managed by id within the
    * layout system.
+   *
+   * @default It generates automatically
    */
   overlayId?: HoneyOverlayId;
+  /**
+   * Key of the history entry pushed while the overlay is active.
+   *
+   * When provided, the browser Back button calls `onDeactivate` instead of leaving the page, and
+   * the overlay can be reopened from a deep link such as `?overlay=settings` with
+   * `useHoneyOverlayDeepLink`.
+   */
+  historyKey?: string;
   /**
    * Callback invoked when the overlay should be deactivated.
    *
@@ -65,6 +139,47 @@ export interface HoneyOverlayProps extends FastOmit<HoneyFlexProps, 'children' |
    * to render-function children as `deactivateOverlay`.
    */
   onDeactivate: () => void;
+  /**
+   * Keyboard keys handled by the overlay.
+   *
+   * Keyboard events for keys that are not listed move on to the overlay below in the stack.
+   * For example, a non-modal overlay can omit Escape, so the key reaches a dialog underneath.
+   *
+   * When omitted or empty, the overlay handles all keys.
+   */
+  listenKeys?: HoneyKeyboardEventCode[];
+  /**
+   * Stacking priority of the overlay.
+   *
+   * Overlays with a higher priority are always stacked above overlays with a lower priority and
+   * receive events first. See `HONEY_OVERLAY_PRIORITY` for the built-in levels.
+   *
+   * An overlay rendered inside the content of another overlay never gets a lower priority than
+   * its parent, so a popover opened from a dialog stays above the dialog.
+   *
+   * @default 0
+   */
+  priority?: number;
+  /**
+   * Whether the content below the overlay should not be interacted with while it is active.
+   *
+   * While a modal overlay is in the stack, all content outside its container and the containers
+   * of the overlays stacked above it is marked as `inert` and `aria-hidden`, except elements marked
+   * with the `data-honey-overlay-ignore` attribute.
+   *
+   * @default false
+   */
+  modal?: boolean;
+  /**
+   * Whether the page scroll is locked while the overlay is active.
+   *
+   * Locks are reference counted, so the page stays locked until every overlay holding a lock is
+   * deactivated. Wheel and touch scrolling remain available inside the overlay container while it
+   * holds the latest lock.
+   *
+   * @default The value of `modal`
+   */
+  lockScroll?: boolean;
   /**
    * Optional overlay-level key up event handler.
    *
@@ -72,6 +187,48 @@ export interface HoneyOverlayProps extends FastOmit<HoneyFlexProps, 'children' |
    * still close the overlay, call `onDeactivate` from inside this handler.
    */
   onKeyUp?: HoneyOverlayEventListenerHandler;
+  /**
+   * Optional handler invoked when a pointer is pressed outside the overlay while it is the
+   * top-level overlay.
+   *
+   * Pointer presses inside nested overlays rendered from this overlay's content (for example,
+   * popups rendered through a portal) are treated as inside and do not trigger this handler.
+   * Call `onDeactivate` from this handler to close the overlay on outside clicks.
+   */
+  onPointerDownOutside?: HoneyOverlayPointerEventListenerHandler;
+  /**
+   * Optional handler invoked when focus moves outside the overlay while it is the top-level
+   * overlay.
+   *
+   * Like `onPointerDownOutside`, focus moving into nested overlays rendered from this overlay's
+   * content is treated as inside.
+   */
+  onFocusInOutside?: HoneyOverlayFocusEventListenerHandler;
+  /**
+   * Whether focus should be moved into the overlay and kept inside it.
+   *
+   * When enabled, activating the overlay focuses `initialFocusRef`, the first tabbable element,
+   * or the container itself. Tab and Shift+Tab cycle through its tabbable elements. Containment is
+   * paused while an overlay that traps focus is stacked above, or while an overlay opened from this
+   * one is at the top of the stack.
+   *
+   * @default false
+   */
+  trapFocus?: boolean;
+  /**
+   * Element that receives focus when the overlay is activated.
+   *
+   * @remarks Only applies when `trapFocus` is `true`.
+   */
+  initialFocusRef?: RefObject<Nullable<HTMLElement>>;
+  /**
+   * Whether focus should return to the element that opened the overlay after it is deactivated.
+   *
+   * @default true
+   *
+   * @remarks Only applies when `trapFocus` is `true`.
+   */
+  restoreFocus?: boolean;
 }
 
 /**
@@ -84,6 +241,18 @@ export interface HoneyOverlayProps extends FastOmit<HoneyFlexProps, 'children' |
  * By default, releasing the Escape key deactivates the overlay. Custom key handling
  * can be provided through `onKeyUp`.
  *
+ * The z-index computed by the overlay store from the overlay `priority` is applied to the
+ * container while the overlay is registered. An explicit `$zIndex` prop takes precedence.
+ * Modal overlays also lock the page scroll unless `lockScroll` is disabled.
+ *
+ * An overlay rendered inside the content of another overlay is registered as its child. When the
+ * parent is deactivated or unmounted, the child is removed from the stack as well and its
+ * `onDeactivate` is called.
+ *
+ * Focus management is opt-in through `trapFocus`. When enabled, focus is moved into the overlay,
+ * kept inside it while the overlay is at the top of the stack, and restored to the opener after
+ * the overlay is deactivated.
+ *
  * @param props - Overlay component props.
  *
  * @example
@@ -115,18 +284,55 @@ export interface HoneyOverlayProps extends FastOmit<HoneyFlexProps, 'children' |
  *   Overlay content
  * </HoneyOverlay>
  * ```
+ *
+ * @example
+ * ```tsx
+ * <HoneyOverlay
+ *   active={isOpen}
+ *   onDeactivate={() => setIsOpen(false)}
+ *   trapFocus={true}
+ *   initialFocusRef={nameInputRef}
+ * >
+ *   <input ref={nameInputRef} />
+ * </HoneyOverlay>
+ * ```
  */
 export const HoneyOverlay = ({
   ref,
   children,
   active,
   overlayId,
+  historyKey,
   onDeactivate,
+  listenKeys,
+  priority = HONEY_OVERLAY_PRIORITY.default,
+  modal = false,
+  lockScroll = modal,
   onKeyUp,
+  onPointerDownOutside,
+  onFocusInOutside,
+  onPointerDownCapture,
+  onFocusCapture,
+  trapFocus = false,
+  initialFocusRef,
+  restoreFocus = true,
   ...props
 }: HoneyOverlayProps) => {
+  const parentOverlayContext = useContext(HoneyParentOverlayContext);
+
+  const overlayPriority = Math.max(priority, parentOverlayContext?.priority ?? priority);
+
+  // The ID is known before the overlay is registered, because nested overlays register first
+  const [generatedOverlayId] = useState(generateEphemeralId);
+  const resolvedOverlayId = overlayId ?? generatedOverlayId;
+
   const onKeyUpRef = useHoneyLatest(onKeyUp);
   const onDeactivateRef = useHoneyLatest(onDeactivate);
+  const onPointerDownOutsideRef = useHoneyLatest(onPointerDownOutside);
+  const onFocusInOutsideRef = useHoneyLatest(onFocusInOutside);
+
+  // Native events that went through this overlay's React tree, including portals of nested overlays
+  const reactTreeEventsRef = useRef(new WeakSet<Event>());
 
   const handleKeyUp = useCallback<HoneyOverlayEventListenerHandler>((keyCode, ...args) => {
     if (onKeyUpRef.current) {
@@ -136,20 +342,130 @@ export const HoneyOverlay = ({
     }
   }, []);
 
+  const handleStoreDeactivate = useCallback(() => {
+    onDeactivateRef.current();
+  }, []);
+
+  const handlePointerDownOutside = useCallback<HoneyOverlayPointerEventListenerHandler>(
+    (overlay, e) => {
+      // Nested overlays rendered through portals are outside the DOM container,
+      // but their events still bubble through this overlay's React tree
+      if (!reactTreeEventsRef.current.has(e)) {
+        onPointerDownOutsideRef.current?.(overlay, e);
+      }
+    },
+    [],
+  );
+
+  const handleFocusInOutside = useCallback<HoneyOverlayFocusEventListenerHandler>((overlay, e) => {
+    if (!reactTreeEventsRef.current.has(e)) {
+      onFocusInOutsideRef.current?.(overlay, e);
+    }
+  }, []);
+
+  const handlePointerDownCapture: PointerEventHandler<HTMLDivElement> = e => {
+    reactTreeEventsRef.current.add(e.nativeEvent);
+
+    onPointerDownCapture?.(e);
+  };
+
+  const handleFocusCapture: FocusEventHandler<HTMLDivElement> = e => {
+    reactTreeEventsRef.current.add(e.nativeEvent);
+
+    onFocusCapture?.(e);
+  };
+
   const overlay = useRegisterHoneyOverlay(active, {
-    id: overlayId,
+    id: resolvedOverlayId,
+    parentId: parentOverlayContext?.overlayId,
+    historyKey,
+    listenKeys,
+    priority: overlayPriority,
+    modal,
+    trapFocus,
+    onDeactivate: handleStoreDeactivate,
     onKeyUp: handleKeyUp,
+    onPointerDownOutside: handlePointerDownOutside,
+    onFocusInOutside: handleFocusInOutside,
   });
 
-  const mergedRef = mergeRefs(overlay?.setContainerRef, ref);
+  const overlayRef = useHoneyLatest(overlay);
+
+  const { getOverlaysSnapshot, subscribeOverlays } = useHoneyLayout();
+
+  const getIsFocusTrapPausedSnapshot = useCallback(
+    () => isOverlayFocusTrapPaused(getOverlaysSnapshot(), resolvedOverlayId),
+    [resolvedOverlayId],
+  );
+
+  const isFocusTrapPaused = useSyncExternalStore(
+    subscribeOverlays,
+    getIsFocusTrapPausedSnapshot,
+    getIsFocusTrapPausedSnapshot,
+  );
+
+  const containerRef = useRef<Nullable<HTMLDivElement>>(null);
+
+  useHoneyFocusTrap(containerRef, {
+    enabled: trapFocus && active,
+    paused: isFocusTrapPaused,
+    initialFocusRef,
+    restoreFocus,
+  });
+
+  useHoneyScrollLock({
+    enabled: lockScroll && active,
+    allowScrollRef: containerRef,
+    overlayId: resolvedOverlayId,
+  });
+
+  /**
+   * Stores the container element and passes it to the registered overlay.
+   *
+   * @param element - The container element, or `null` when it is unmounted.
+   */
+  const setContainerRef = useCallback((element: Nullable<HTMLDivElement>) => {
+    containerRef.current = element;
+
+    if (element) {
+      overlayRef.current?.setContainerRef(element);
+    }
+  }, []);
+
+  // The container is usually mounted before the overlay is registered
+  useLayoutEffect(() => {
+    if (overlay && containerRef.current) {
+      overlay.setContainerRef(containerRef.current);
+    }
+  }, [overlay]);
+
+  const mergedRef = mergeRefs(setContainerRef, ref);
+
+  const parentOverlayContextValue = useMemo<HoneyParentOverlayContextValue>(
+    () => ({
+      priority: overlayPriority,
+      overlayId: resolvedOverlayId,
+    }),
+    [overlayPriority, resolvedOverlayId],
+  );
 
   return (
-    <HoneyFlex ref={mergedRef} inert={!active} {...props}>
-      {invokeIfFunction(children, {
-        overlay,
-        isActive: active,
-        deactivateOverlay: onDeactivateRef.current,
-      })}
+    <HoneyFlex
+      ref={mergedRef}
+      inert={!active}
+      tabIndex={trapFocus ? -1 : undefined}
+      $zIndex={overlay?.zIndex}
+      onPointerDownCapture={handlePointerDownCapture}
+      onFocusCapture={handleFocusCapture}
+      {...props}
+    >
+      <HoneyParentOverlayContext value={parentOverlayContextValue}>
+        {invokeIfFunction(children, {
+          overlay,
+          isActive: active,
+          deactivateOverlay: onDeactivateRef.current,
+        })}
+      </HoneyParentOverlayContext>
     </HoneyFlex>
   );
 };
@@ -0,0 +1,62 @@
+import React, { useSyncExternalStore } from 'react';
+
+import { HONEY_OVERLAY_PRIORITY } from '../../constants';
+import { HoneyOverlay } from '../HoneyOverlay';
+import { HoneyPopupPortal } from '../HoneyPopup/HoneyPopupPortal';
+import {
+  getOpenedOverlaysSnapshot,
+  honeyOverlays,
+  subscribeOpenedOverlays,
+} from './honey-overlays';
+
+/**
+ * Renders the overlays opened with `honeyOverlays.open()`.
+ *
+ * Place a single host inside `HoneyLayoutProvider`. Each opened component is wrapped in a modal
+ * `HoneyOverlay` with the dialog priority, so it is registered in the overlay stack like any other
+ * dialog: the content behind it is inert, focus is kept inside it and Escape closes it.
+ *
+ * @example
+ * ```tsx
+ * <HoneyLayoutProvider theme={theme}>
+ *   <App />
+ *
+ *   <HoneyOverlayHost />
+ * </HoneyLayoutProvider>
+ * ```
+ */
+export const HoneyOverlayHost = () => {
+  const openedOverlays = useSyncExternalStore(
+    subscribeOpenedOverlays,
+    getOpenedOverlaysSnapshot,
+    getOpenedOverlaysSnapshot,
+  );
+
+  return openedOverlays.map(openedOverlay => {
+    const deactivateOverlay = (result?: unknown) => honeyOverlays.close(openedOverlay.id, result);
+
+    return (
+      <HoneyPopupPortal key={openedOverlay.id}>
+        <HoneyOverlay
+          active={true}
+          overlayId={openedOverlay.id}
+          onDeactivate={deactivateOverlay}
+          priority={HONEY_OVERLAY_PRIORITY.dialog}
+          modal={true}
+          trapFocus={true}
+          $position="fixed"
+          $inset={0}
+          center={true}
+          {...openedOverlay.overlayProps}
+          // Data
+          data-testid="honey-overlay-host-overlay"
+        >
+          {openedOverlay.render({
+            overlayId: openedOverlay.id,
+            deactivateOverlay,
+          })}
+        </HoneyOverlay>
+      </HoneyPopupPortal>
+    );
+  });
+};
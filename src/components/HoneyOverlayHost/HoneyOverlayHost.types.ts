@@ -0,0 +1,54 @@
+import type { ReactNode } from 'react';
+import type { FastOmit } from '@react-hive/honey-style';
+
+import type { HoneyOverlayId } from '../../types';
+import type { HoneyOverlayProps } from '../HoneyOverlay';
+
+/**
+ * Props passed to every component opened with `honeyOverlays.open()`.
+ *
+ * @template Result - The value the overlay is closed with.
+ */
+export interface HoneyOpenedOverlayProps<Result = unknown> {
+  /**
+   * ID of the overlay in the overlay stack.
+   */
+  overlayId: HoneyOverlayId;
+  /**
+   * Closes the overlay and resolves the promise returned by `honeyOverlays.open()`.
+   *
+   * @param result - The value the promise is resolved with.
+   */
+  deactivateOverlay: (result?: Result) => void;
+}
+
+export interface HoneyOpenOverlayOptions {
+  /**
+   * Custom overlay ID, used to close the overlay with `honeyOverlays.close()`.
+   *
+   * @default It generates automatically
+   */
+  overlayId?: HoneyOverlayId;
+  /**
+   * Additional props for the overlay that wraps the opened component.
+   *
+   * By default, the overlay is a modal dialog covering the viewport with its content centered.
+   */
+  overlayProps?: FastOmit<HoneyOverlayProps, 'children' | 'active' | 'overlayId' | 'onDeactivate'>;
+}
+
+/**
+ * An overlay opened with `honeyOverlays.open()` and rendered by `HoneyOverlayHost`.
+ */
+export interface HoneyOpenedOverlay {
+  id: HoneyOverlayId;
+  /**
+   * Renders the opened component with its props.
+   */
+  render: (openedOverlayProps: HoneyOpenedOverlayProps) => ReactNode;
+  overlayProps: HoneyOpenOverlayOptions['overlayProps'];
+  /**
+   * Resolves the promise returned by `honeyOverlays.open()`.
+   */
+  resolve: (result: unknown) => void;
+}
@@ -0,0 +1,102 @@
+import React from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
+
+import { themeMock } from '../../../__mocks__';
+import { HoneyLayoutProvider } from '../../../providers';
+import { HoneyOverlayHost } from '../HoneyOverlayHost';
+import { honeyOverlays } from '../honey-overlays';
+import type { HoneyOpenedOverlayProps } from '../HoneyOverlayHost.types';
+
+interface ConfirmDialogProps {
+  message: string;
+}
+
+const ConfirmDialog = ({
+  message,
+  deactivateOverlay,
+}: ConfirmDialogProps & HoneyOpenedOverlayProps<boolean>) => (
+  <div role="alertdialog">
+    {message}
+
+    <button onClick={() => deactivateOverlay(false)}>Cancel</button>
+    <button onClick={() => deactivateOverlay(true)}>Confirm</button>
+  </div>
+);
+
+const customRender = () =>
+  render(
+    <HoneyLayoutProvider theme={themeMock}>
+      <button>Page</button>
+
+      <HoneyOverlayHost />
+    </HoneyLayoutProvider>,
+  );
+
+describe('[HoneyOverlayHost]: imperative overlays', () => {
+  afterEach(() => {
+    act(() => honeyOverlays.closeAll());
+  });
+
+  it('should render an opened component with its props', () => {
+    const { getByRole } = customRender();
+
+    act(() => {
+      void honeyOverlays.open(ConfirmDialog, { message: 'Discard changes?' });
+    });
+
+    expect(getByRole('alertdialog')).toHaveTextContent('Discard changes?');
+  });
+
+  it('should resolve with the value passed to `deactivateOverlay`', async () => {
+    const { getByText, queryByRole } = customRender();
+
+    let result: Promise<boolean | undefined> = Promise.resolve(undefined);
+
+    act(() => {
+      result = honeyOverlays.open(ConfirmDialog, { message: 'Discard changes?' });
+    });
+
+    act(() => {
+      fireEvent.click(getByText('Confirm'));
+    });
+
+    await expect(result).resolves.toBe(true);
+    expect(queryByRole('alertdialog')).toBeNull();
+  });
+
+  it('should resolve with `undefined` when closed with the Escape key', async () => {
+    customRender();
+
+    let result: Promise<boolean | undefined> = Promise.resolve(true);
+
+    act(() => {
+      result = honeyOverlays.open(ConfirmDialog, { message: 'Discard changes?' });
+    });
+
+    act(() => {
+      fireEvent.keyUp(document, { code: 'Escape' });
+    });
+
+    await expect(result).resolves.toBeUndefined();
+  });
+
+  it('should register the overlay in the overlay stack as a modal', () => {
+    const { getByText } = customRender();
+
+    act(() => {
+      void honeyOverlays.open(
+        ConfirmDialog,
+        { message: 'Discard changes?' },
+        { overlayId: 'confirm' },
+      );
+    });
+
+    expect(getByText('Page').closest('[inert]')).not.toBeNull();
+
+    act(() => {
+      honeyOverlays.close('confirm');
+    });
+
+    expect(getByText('Page').closest('[inert]')).toBeNull();
+  });
+});
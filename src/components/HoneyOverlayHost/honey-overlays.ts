@@ -0,0 +1,135 @@
+import { createElement } from 'react';
+import { generateEphemeralId } from '@react-hive/honey-utils';
+import type { ComponentType } from 'react';
+
+import type { HoneyOverlayId } from '../../types';
+import type {
+  HoneyOpenedOverlay,
+  HoneyOpenedOverlayProps,
+  HoneyOpenOverlayOptions,
+} from './HoneyOverlayHost.types';
+
+/**
+ * Overlays opened imperatively, shared by every `HoneyOverlayHost`.
+ *
+ * The list lives outside React, so overlays can be opened from services, route guards and data
+ * loaders that have no access to the component tree.
+ */
+let openedOverlays: readonly HoneyOpenedOverlay[] = [];
+
+const subscribers = new Set<() => void>();
+
+const setOpenedOverlays = (nextOpenedOverlays: readonly HoneyOpenedOverlay[]) => {
+  openedOverlays = nextOpenedOverlays;
+
+  subscribers.forEach(subscriber => subscriber());
+};
+
+/**
+ * Returns the imperatively opened overlays in the order they were opened.
+ *
+ * The snapshot keeps the same identity until an overlay is opened or closed.
+ */
+export const getOpenedOverlaysSnapshot = () => openedOverlays;
+
+/**
+ * Subscribes to imperatively opened overlay changes.
+ *
+ * @param subscriber - Callback invoked when an overlay is opened or closed.
+ * @returns A cleanup function that removes the subscriber.
+ */
+export const subscribeOpenedOverlays = (subscriber: () => void) => {
+  subscribers.add(subscriber);
+
+  return () => {
+    subscribers.delete(subscriber);
+  };
+};
+
+/**
+ * Imperative API for opening overlays outside of the React render flow.
+ *
+ * Opened components are rendered by `HoneyOverlayHost`, which must be placed inside
+ * `HoneyLayoutProvider`. Overlays opened before a host is mounted are shown once it mounts.
+ *
+ * @example
+ * ```tsx
+ * const ConfirmDialog = ({
+ *   message,
+ *   deactivateOverlay,
+ * }: ConfirmDialogProps & HoneyOpenedOverlayProps<boolean>) => (
+ *   <div role="alertdialog">
+ *     {message}
+ *
+ *     <button onClick={() => deactivateOverlay(false)}>Cancel</button>
+ *     <button onClick={() => deactivateOverlay(true)}>Leave</button>
+ *   </div>
+ * );
+ *
+ * const canLeave = async () =>
+ *   (await honeyOverlays.open(ConfirmDialog, { message: 'Discard unsaved changes?' })) === true;
+ * ```
+ */
+export const honeyOverlays = {
+  /**
+   * Opens a component as an overlay registered in the overlay stack.
+   *
+   * The component receives its props together with `HoneyOpenedOverlayProps`.
+   *
+   * @param Component - The component to render.
+   * @param props - Props of the component, without the injected overlay props.
+   * @param options - Optional overlay options.
+   *
+   * @returns A promise resolved with the value passed to `deactivateOverlay`, or with `undefined`
+   * when the overlay is closed in another way, such as with the Escape key.
+   */
+  open: <Props extends object, Result = unknown>(
+    Component: ComponentType<Props & HoneyOpenedOverlayProps<Result>>,
+    props: Props,
+    { overlayId = generateEphemeralId(), overlayProps }: HoneyOpenOverlayOptions = {},
+  ) =>
+    new Promise<Result | undefined>(resolve => {
+      // Opening an overlay with the ID of an opened overlay replaces it
+      honeyOverlays.close(overlayId);
+
+      setOpenedOverlays([
+        ...openedOverlays,
+        {
+          id: overlayId,
+          render: openedOverlayProps =>
+            createElement(Component, {
+              ...props,
+              ...(openedOverlayProps as HoneyOpenedOverlayProps<Result>),
+            }),
+          overlayProps,
+          resolve: resolve as (result: unknown) => void,
+        },
+      ]);
+    }),
+  /**
+   * Closes an imperatively opened overlay.
+   *
+   * @param overlayId - The ID of the overlay to close.
+   * @param result - The value the promise returned by `open()` is resolved with.
+   */
+  close: (overlayId: HoneyOverlayId, result?: unknown) => {
+    const openedOverlay = openedOverlays.find(openedOverlay => openedOverlay.id === overlayId);
+    if (!openedOverlay) {
+      return;
+    }
+
+    setOpenedOverlays(openedOverlays.filter(targetOverlay => targetOverlay !== openedOverlay));
+
+    openedOverlay.resolve(result);
+  },
+  /**
+   * Closes every imperatively opened overlay, resolving their promises with `undefined`.
+   */
+  closeAll: () => {
+    const closedOverlays = openedOverlays;
+
+    setOpenedOverlays([]);
+
+    closedOverlays.forEach(openedOverlay => openedOverlay.resolve(undefined));
+  },
+};
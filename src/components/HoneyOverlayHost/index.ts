@@ -0,0 +1,3 @@
+export * from './HoneyOverlayHost.types';
+export * from './honey-overlays';
+export * from './HoneyOverlayHost';
@@ -0,0 +1,200 @@
+import React, { useEffect, useReducer, useState, useSyncExternalStore } from 'react';
+import type { FastOmit } from '@react-hive/honey-style';
+
+import { __DEV__ } from '../../constants';
+import { useHoneyLayout } from '../../hooks';
+import { HoneyFlex } from '../HoneyFlex';
+import { HoneyPopupPortal } from '../HoneyPopup/HoneyPopupPortal';
+import type { HoneyOverlayEventRecord, HoneyOverlayId, Nullable } from '../../types';
+import type { HoneyFlexProps } from '../HoneyFlex';
+
+const HIGHLIGHT_OUTLINE = '2px solid #ff00ff';
+
+/**
+ * Describes an element in the CSS selector notation, e.g. `div#settings.dialog`.
+ *
+ * @param element - The element to describe.
+ *
+ * @returns The tag name with the ID and the first class name of the element.
+ */
+const describeElement = (element: Nullable<HTMLElement>) => {
+  if (!element) {
+    return 'none';
+  }
+
+  const className = element.classList[0];
+
+  return `${element.tagName.toLowerCase()}${element.id ? `#${element.id}` : ''}${className ? `.${className}` : ''}`;
+};
+
+const formatEventTime = (timeStamp: number) => new Date(timeStamp).toISOString().slice(11, 23);
+
+export interface HoneyOverlayInspectorProps extends FastOmit<HoneyFlexProps, 'children'> {
+  /**
+   * Maximum number of entries kept in the event log. Older entries are removed first.
+   *
+   * @default 50
+   */
+  maxLogEntries?: number;
+}
+
+/**
+ * A debugging panel showing the live overlay stack and a log of the events received by overlays.
+ *
+ * Each row of the stack shows the overlay ID, registration order, `listenKeys`, the number of
+ * listeners and the container element. Hovering a row outlines the overlay container. Listener
+ * counts are refreshed whenever the stack changes or an overlay receives an event.
+ *
+ * The panel is rendered only in development builds (`__DEV__`), so it can stay in the application
+ * tree. It is rendered in a portal and is never made inert by modal overlays.
+ *
+ * @param props - Inspector component props.
+ *
+ * @example
+ * ```tsx
+ * <HoneyLayoutProvider theme={theme}>
+ *   <App />
+ *
+ *   <HoneyOverlayInspector maxLogEntries={100} />
+ * </HoneyLayoutProvider>
+ * ```
+ */
+export const HoneyOverlayInspector = (props: HoneyOverlayInspectorProps) => {
+  return __DEV__ ? <HoneyOverlayInspectorPanel {...props} /> : null;
+};
+
+const HoneyOverlayInspectorPanel = ({
+  maxLogEntries = 50,
+  ...props
+}: HoneyOverlayInspectorProps) => {
+  const { getOverlaysSnapshot, subscribeOverlays, subscribeOverlayEvents } = useHoneyLayout();
+
+  const overlays = useSyncExternalStore(
+    subscribeOverlays,
+    getOverlaysSnapshot,
+    getOverlaysSnapshot,
+  );
+
+  const [eventRecords, setEventRecords] = useState<HoneyOverlayEventRecord[]>([]);
+  const [highlightedOverlayId, setHighlightedOverlayId] = useState<Nullable<HoneyOverlayId>>(null);
+
+  // Listener counts are not part of the stack snapshot, so they are re-read on every render
+  const [, refresh] = useReducer((count: number) => count + 1, 0);
+
+  useEffect(
+    () =>
+      subscribeOverlayEvents(eventRecord => {
+        setEventRecords(prevEventRecords =>
+          [...prevEventRecords, eventRecord].slice(-maxLogEntries),
+        );
+      }),
+    [maxLogEntries],
+  );
+
+  useEffect(() => subscribeOverlays(refresh), []);
+
+  const highlightedContainer =
+    overlays.find(overlay => overlay.id === highlightedOverlayId)?.containerRef.current ?? null;
+
+  useEffect(() => {
+    if (!highlightedContainer) {
+      return;
+    }
+
+    const { outline: originalOutline, outlineOffset: originalOutlineOffset } =
+      highlightedContainer.style;
+
+    highlightedContainer.style.outline = HIGHLIGHT_OUTLINE;
+    highlightedContainer.style.outlineOffset = '-2px';
+
+    return () => {
+      highlightedContainer.style.outline = originalOutline;
+      highlightedContainer.style.outlineOffset = originalOutlineOffset;
+    };
+  }, [highlightedContainer]);
+
+  return (
+    <HoneyPopupPortal>
+      <HoneyFlex
+        $position="fixed"
+        $left={0}
+        $bottom={0}
+        $zIndex={2147483647}
+        $gap={1}
+        $width="420px"
+        $maxHeight="50vh"
+        $overflow="auto"
+        $padding={1}
+        $fontFamily="monospace"
+        $fontSize="12px"
+        $color="#fff"
+        $backgroundColor="rgba(0, 0, 0, 0.85)"
+        {...props}
+        // Data
+        data-testid="honey-overlay-inspector"
+        data-honey-overlay-ignore=""
+      >
+        <strong>Overlays ({overlays.length})</strong>
+
+        <HoneyFlex
+          // ARIA
+          role="list"
+          aria-label="Overlay stack"
+        >
+          {/* The top-level overlay is listed first */}
+          {[...overlays].reverse().map(overlay => (
+            <HoneyFlex
+              key={overlay.id}
+              row={true}
+              $gap={1}
+              $padding={0.5}
+              $cursor="default"
+              $backgroundColor={
+                overlay.id === highlightedOverlayId ? 'rgba(255, 0, 255, 0.3)' : undefined
+              }
+              onPointerEnter={() => setHighlightedOverlayId(overlay.id)}
+              onPointerLeave={() => setHighlightedOverlayId(null)}
+              // ARIA
+              role="listitem"
+              // Data
+              data-testid="honey-overlay-inspector-overlay"
+              data-overlay-id={overlay.id}
+            >
+              <span>#{overlay.registrationOrder}</span>
+              <span>{overlay.id}</span>
+              {overlay.parentId && <span>parent: {overlay.parentId}</span>}
+              <span>{overlay.listenKeys.length ? overlay.listenKeys.join(', ') : 'all keys'}</span>
+              <span>listeners: {overlay.getListenersCount()}</span>
+              <span>{describeElement(overlay.containerRef.current)}</span>
+            </HoneyFlex>
+          ))}
+        </HoneyFlex>
+
+        <HoneyFlex row={true} centerY={true} $justifyContent="space-between">
+          <strong>Events ({eventRecords.length})</strong>
+
+          <button type="button" onClick={() => setEventRecords([])}>
+            Clear
+          </button>
+        </HoneyFlex>
+
+        <HoneyFlex
+          // ARIA
+          role="log"
+          aria-label="Overlay events"
+        >
+          {eventRecords.map((eventRecord, index) => (
+            <span
+              key={`${eventRecord.timeStamp}-${index}`}
+              // Data
+              data-testid="honey-overlay-inspector-event"
+            >
+              {formatEventTime(eventRecord.timeStamp)} {eventRecord.eventType}
+              {eventRecord.keyCode ? ` ${eventRecord.keyCode}` : ''} → {eventRecord.overlayId}
+            </span>
+          ))}
+        </HoneyFlex>
+      </HoneyFlex>
+    </HoneyPopupPortal>
+  );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { noop } from '@react-hive/honey-utils';
+import { fireEvent, render } from '@testing-library/react';
+import type { ReactElement } from 'react';
+
+import { themeMock } from '../../../__mocks__';
+import { HoneyLayoutProvider } from '../../../providers';
+import { HoneyOverlay } from '../../HoneyOverlay';
+import { HoneyOverlayInspector } from '../HoneyOverlayInspector';
+
+const customRender = (element: ReactElement) =>
+  render(
+    <HoneyLayoutProvider theme={themeMock}>
+      {element}
+
+      <HoneyOverlayInspector />
+    </HoneyLayoutProvider>,
+  );
+
+describe('[HoneyOverlayInspector]: basic behavior', () => {
+  it('should list the overlay stack with the top-level overlay first', () => {
+    const { getAllByTestId } = customRender(
+      <>
+        <HoneyOverlay active={true} overlayId="menu" onDeactivate={noop} listenKeys={['Escape']}>
+          Menu
+        </HoneyOverlay>
+
+        <HoneyOverlay active={true} overlayId="dialog" onDeactivate={noop}>
+          Dialog
+        </HoneyOverlay>
+      </>,
+    );
+
+    const rows = getAllByTestId('honey-overlay-inspector-overlay');
+
+    expect(rows.map(row => row.getAttribute('data-overlay-id'))).toEqual(['dialog', 'menu']);
+    expect(rows[1]).toHaveTextContent('Escape');
+    expect(rows[1]).toHaveTextContent(/listeners: \d+/);
+  });
+
+  it('should outline the overlay container while its row is hovered', () => {
+    const { getByTestId, getByText } = customRender(
+      <HoneyOverlay active={true} overlayId="dialog" onDeactivate={noop}>
+        Dialog
+      </HoneyOverlay>,
+    );
+
+    const container = getByText('Dialog');
+
+    fireEvent.pointerEnter(getByTestId('honey-overlay-inspector-overlay'));
+
+    expect(container.style.outline).not.toBe('');
+
+    fireEvent.pointerLeave(getByTestId('honey-overlay-inspector-overlay'));
+
+    expect(container.style.outline).toBe('');
+  });
+
+  it('should log the events received by overlays', () => {
+    const { getAllByTestId } = customRender(
+      <>
+        <HoneyOverlay active={true} overlayId="dialog" onDeactivate={noop}>
+          Dialog
+        </HoneyOverlay>
+
+        <HoneyOverlay active={true} overlayId="menu" onDeactivate={noop} listenKeys={['Escape']}>
+          Menu
+        </HoneyOverlay>
+      </>,
+    );
+
+    fireEvent.keyUp(document, { code: 'Enter' });
+    fireEvent.keyUp(document, { code: 'Escape' });
+
+    const events = getAllByTestId('honey-overlay-inspector-event');
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toHaveTextContent('keyup Enter → dialog');
+    expect(events[1]).toHaveTextContent('keyup Escape → menu');
+  });
+
+  it('should not be made inert by modal overlays', () => {
+    const { getByTestId } = customRender(
+      <HoneyOverlay active={true} modal={true} onDeactivate={noop}>
+        Dialog
+      </HoneyOverlay>,
+    );
+
+    expect(getByTestId('honey-overlay-inspector').closest('[inert]')).toBeNull();
+  });
+});
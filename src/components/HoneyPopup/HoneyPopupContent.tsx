@@ -11,6 +11,7 @@ import type {
 } from '@floating-ui/react';
 import type { FastOmit } from '@react-hive/honey-style';
 
+import { HONEY_OVERLAY_PRIORITY } from '../../constants';
 import { HoneyPopupContext, HoneyOverlay } from '../../components';
 import { HoneyPopupStyled } from './HoneyPopupStyled';
 import { HoneyPopupPortal } from './HoneyPopupPortal';
@@ -133,6 +134,7 @@ export const HoneyPopupContent = <
                 <HoneyOverlay
                   ref={floating.refs.setFloating}
                   active={isOpen}
+                  priority={HONEY_OVERLAY_PRIORITY.popover}
                   style={
                     adjustStyles?.(
                       {
@@ -0,0 +1,32 @@
+import type { HoneyFlexProps } from '../HoneyFlex';
+import type { HoneyToastPlacement } from './HoneyToast.types';
+
+/**
+ * Returns the positioning props of a toast region.
+ *
+ * Newest toasts are placed closest to the screen edge of the region.
+ *
+ * @param placement - The toast region placement.
+ *
+ * @returns `HoneyFlex` props that pin the region to its screen edge.
+ */
+export const getHoneyToastRegionProps = (placement: HoneyToastPlacement): HoneyFlexProps => {
+  const [vertical, horizontal] = placement.split('-');
+
+  return {
+    $position: 'fixed',
+    $top: vertical === 'top' ? 0 : undefined,
+    $bottom: vertical === 'bottom' ? 0 : undefined,
+    $left: horizontal === 'left' ? 0 : horizontal === 'center' ? '50%' : undefined,
+    $right: horizontal === 'right' ? 0 : undefined,
+    $transform: horizontal === 'center' ? 'translateX(-50%)' : undefined,
+    $flexDirection: vertical === 'top' ? 'column-reverse' : 'column',
+    $alignItems:
+      horizontal === 'left' ? 'flex-start' : horizontal === 'right' ? 'flex-end' : 'center',
+    $gap: 1,
+    $padding: 2,
+    $maxWidth: '100%',
+    // Only the toasts themselves react to the pointer
+    $pointerEvents: 'none',
+  };
+};
@@ -0,0 +1,136 @@
+import type { ReactNode } from 'react';
+
+export type HoneyToastId = string;
+
+export type HoneyToastPlacement =
+  'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+export type HoneyToastType = 'default' | 'success' | 'error' | 'loading';
+
+export interface HoneyToastRenderContext {
+  /**
+   * The toast being rendered.
+   */
+  toast: HoneyToast;
+  /**
+   * Dismisses the toast.
+   */
+  dismiss: () => void;
+}
+
+export type HoneyToastContent = ReactNode | ((context: HoneyToastRenderContext) => ReactNode);
+
+export interface HoneyToastOptions {
+  /**
+   * Custom toast ID. Showing a toast with the ID of an existing toast updates that toast.
+   *
+   * @default It generates automatically
+   */
+  id?: HoneyToastId;
+  /**
+   * The toast type. Error toasts are announced assertively, other toasts politely.
+   *
+   * @default 'default'
+   */
+  type?: HoneyToastType;
+  /**
+   * The region the toast is shown in.
+   *
+   * @default The `placement` of `HoneyToastProvider`
+   */
+  placement?: HoneyToastPlacement;
+  /**
+   * Time in milliseconds after which the toast is dismissed automatically, or `null` to keep it
+   * until it is dismissed manually. The timer pauses while the region is hovered and while the
+   * window is not focused.
+   *
+   * @default The `durationMs` of `HoneyToastProvider`, or `null` for loading toasts
+   */
+  durationMs?: number | null;
+  /**
+   * Callback invoked when the toast is dismissed, either manually or automatically.
+   */
+  onDismiss?: (toast: HoneyToast) => void;
+}
+
+export interface HoneyToast {
+  id: HoneyToastId;
+  /**
+   * The toast content.
+   */
+  content: HoneyToastContent;
+  type: HoneyToastType;
+  placement: HoneyToastPlacement;
+  /**
+   * Time in milliseconds after which the toast is dismissed automatically, or `null`.
+   */
+  durationMs: number | null;
+  /**
+   * Whether the toast is dismissed and playing its exit transition.
+   */
+  isDismissed: boolean;
+  /**
+   * Incremented on every update, which restarts the auto-dismiss timer.
+   */
+  version: number;
+  onDismiss: HoneyToastOptions['onDismiss'];
+}
+
+export interface HoneyToastPromiseMessages<Value> {
+  /**
+   * Content shown while the promise is pending.
+   */
+  loading: ReactNode;
+  /**
+   * Content shown when the promise is fulfilled.
+   */
+  success: ReactNode | ((value: Value) => ReactNode);
+  /**
+   * Content shown when the promise is rejected.
+   */
+  error: ReactNode | ((error: unknown) => ReactNode);
+}
+
+export interface HoneyToastApi {
+  /**
+   * Shows a toast.
+   *
+   * @param content - The toast content.
+   * @param options - Optional toast options.
+   *
+   * @returns The ID of the toast.
+   */
+  show: (content: HoneyToastContent, options?: HoneyToastOptions) => HoneyToastId;
+  /**
+   * Updates the content or options of a toast that has not been dismissed yet.
+   *
+   * Updating a toast restarts its auto-dismiss timer.
+   *
+   * @param toastId - The ID of the toast to update.
+   * @param toastUpdate - The new content and options.
+   */
+  update: (
+    toastId: HoneyToastId,
+    toastUpdate: Omit<HoneyToastOptions, 'id'> & { content?: HoneyToastContent },
+  ) => void;
+  /**
+   * Dismisses a toast, or every toast when the ID is omitted.
+   *
+   * @param toastId - The ID of the toast to dismiss.
+   */
+  dismiss: (toastId?: HoneyToastId) => void;
+  /**
+   * Shows a loading toast that is updated with the outcome of a promise.
+   *
+   * @param promise - The promise to track.
+   * @param messages - The toast content for each state of the promise.
+   * @param options - Optional toast options.
+   *
+   * @returns The tracked promise.
+   */
+  promise: <Value>(
+    promise: Promise<Value>,
+    messages: HoneyToastPromiseMessages<Value>,
+    options?: HoneyToastOptions,
+  ) => Promise<Value>;
+}
@@ -0,0 +1,5 @@
+import { createContext } from 'react';
+
+import type { HoneyToastApi } from './HoneyToast.types';
+
+export const HoneyToastContext = createContext<HoneyToastApi | undefined>(undefined);
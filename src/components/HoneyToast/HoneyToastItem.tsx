@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { invokeIfFunction } from '@react-hive/honey-utils';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+import type { ReactNode } from 'react';
+
+import { HoneyToastStyled } from './HoneyToastStyled';
+import type { Nullable } from '../../types';
+import type { HoneyToast, HoneyToastRenderContext } from './HoneyToast.types';
+
+export interface HoneyToastItemProps {
+  toast: HoneyToast;
+  /**
+   * Whether the auto-dismiss timer is paused.
+   */
+  isPaused: boolean;
+  transitionDurationMs: number;
+  onDismiss: (toast: HoneyToast) => void;
+  /**
+   * Custom renderer of the toast content.
+   */
+  renderToast?: (context: HoneyToastRenderContext) => ReactNode;
+}
+
+export const HoneyToastItem = ({
+  toast,
+  isPaused,
+  transitionDurationMs,
+  onDismiss,
+  renderToast,
+}: HoneyToastItemProps) => {
+  const onDismissRef = useHoneyLatest(onDismiss);
+
+  const [isTransitionActive, setIsTransitionActive] = useState(false);
+
+  // Time left before the toast is dismissed, kept between pauses of the timer
+  const remainingTimeRef = useRef<Nullable<{ version: number; timeMs: number }>>(null);
+
+  useEffect(() => {
+    // Start the enter transition after the initial styles are applied
+    const animationFrameId = requestAnimationFrame(() => setIsTransitionActive(true));
+
+    return () => {
+      cancelAnimationFrame(animationFrameId);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (toast.durationMs === null || toast.isDismissed) {
+      return;
+    }
+
+    if (remainingTimeRef.current?.version !== toast.version) {
+      remainingTimeRef.current = {
+        version: toast.version,
+        timeMs: toast.durationMs,
+      };
+    }
+
+    if (isPaused) {
+      return;
+    }
+
+    const remainingTime = remainingTimeRef.current;
+    const startTime = Date.now();
+
+    const timeoutId = setTimeout(() => onDismissRef.current(toast), remainingTime.timeMs);
+
+    return () => {
+      clearTimeout(timeoutId);
+
+      remainingTime.timeMs -= Date.now() - startTime;
+    };
+  }, [isPaused, toast.version, toast.durationMs, toast.isDismissed]);
+
+  const renderContext: HoneyToastRenderContext = {
+    toast,
+    dismiss: () => onDismissRef.current(toast),
+  };
+
+  return (
+    <HoneyToastStyled
+      placement={toast.placement}
+      active={isTransitionActive && !toast.isDismissed}
+      transitionDurationMs={transitionDurationMs}
+      // ARIA
+      role={toast.type === 'error' ? 'alert' : 'status'}
+      aria-atomic={true}
+      // Data
+      data-testid="honey-toast"
+      data-toast-type={toast.type}
+    >
+      {renderToast ? renderToast(renderContext) : invokeIfFunction(toast.content, renderContext)}
+    </HoneyToastStyled>
+  );
+};
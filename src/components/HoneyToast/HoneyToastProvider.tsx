@@ -0,0 +1,337 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { generateEphemeralId, invokeIfFunction } from '@react-hive/honey-utils';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+import type { ReactNode } from 'react';
+import type { FastOmit } from '@react-hive/honey-style';
+
+import { HoneyToastContext } from './HoneyToastContext';
+import { HoneyToastRegion } from './HoneyToastRegion';
+import type { TimeoutId } from '../../types';
+import type { HoneyPopupPortalProps } from '../HoneyPopup/HoneyPopupPortal';
+import type {
+  HoneyToast,
+  HoneyToastApi,
+  HoneyToastId,
+  HoneyToastPlacement,
+  HoneyToastRenderContext,
+  HoneyToastType,
+} from './HoneyToast.types';
+
+export interface HoneyToastProviderProps {
+  children?: ReactNode;
+  /**
+   * The default region toasts are shown in.
+   *
+   * @default 'bottom-right'
+   */
+  placement?: HoneyToastPlacement;
+  /**
+   * The default time in milliseconds after which toasts are dismissed automatically.
+   *
+   * @default 5000
+   */
+  durationMs?: number;
+  /**
+   * Maximum number of toasts shown at the same time across all regions.
+   *
+   * Newer toasts wait in a queue until older toasts are dismissed.
+   *
+   * @default 3
+   */
+  maxVisible?: number;
+  /**
+   * Duration of the enter and exit transitions in milliseconds.
+   *
+   * @default 200
+   */
+  transitionDurationMs?: number;
+  /**
+   * Accessible label of the toast regions.
+   *
+   * @default 'Notifications'
+   */
+  ariaLabel?: string;
+  /**
+   * Custom renderer of the toast content, for example to add an icon and a close button.
+   */
+  renderToast?: (context: HoneyToastRenderContext) => ReactNode;
+  /**
+   * Properties for `HoneyPopupPortal` component used by the toast regions.
+   */
+  portalProps?: FastOmit<HoneyPopupPortalProps, 'children'>;
+}
+
+/**
+ * Provides the toast API to `useHoneyToast()` and renders the toast regions.
+ *
+ * Each region is a non-modal `HoneyOverlay` with the toast priority. It handles only the Escape
+ * key, which dismisses the newest toast, so other keyboard events still reach open dialogs.
+ * Auto-dismiss timers are paused while a region is hovered and while the window is not focused.
+ *
+ * @param props - Toast provider props.
+ *
+ * @example
+ * ```tsx
+ * <HoneyLayoutProvider theme={theme}>
+ *   <HoneyToastProvider placement="top-center" maxVisible={5}>
+ *     <App />
+ *   </HoneyToastProvider>
+ * </HoneyLayoutProvider>
+ * ```
+ */
+export const HoneyToastProvider = ({
+  children,
+  placement = 'bottom-right',
+  durationMs = 5000,
+  maxVisible = 3,
+  transitionDurationMs = 200,
+  ariaLabel = 'Notifications',
+  renderToast,
+  portalProps,
+}: HoneyToastProviderProps) => {
+  const placementRef = useHoneyLatest(placement);
+  const durationMsRef = useHoneyLatest(durationMs);
+  const maxVisibleRef = useHoneyLatest(maxVisible);
+  const transitionDurationMsRef = useHoneyLatest(transitionDurationMs);
+
+  const [toasts, setToasts] = useState<HoneyToast[]>([]);
+  const [isWindowFocused, setIsWindowFocused] = useState(true);
+
+  // Mirrors the state, so the API can read the latest toasts between renders
+  const toastsRef = useRef<HoneyToast[]>([]);
+  const removeTimeoutIdsRef = useRef(new Set<TimeoutId>());
+
+  const commitToasts = useCallback((nextToasts: HoneyToast[]) => {
+    toastsRef.current = nextToasts;
+
+    setToasts(nextToasts);
+  }, []);
+
+  const getDefaultDurationMs = (type: HoneyToastType) =>
+    type === 'loading' ? null : durationMsRef.current;
+
+  useEffect(() => {
+    const handleFocus = () => setIsWindowFocused(true);
+    const handleBlur = () => setIsWindowFocused(false);
+
+    window.addEventListener('focus', handleFocus);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  useEffect(() => {
+    const removeTimeoutIds = removeTimeoutIdsRef.current;
+
+    return () => {
+      removeTimeoutIds.forEach(clearTimeout);
+      removeTimeoutIds.clear();
+    };
+  }, []);
+
+  const update = useCallback<HoneyToastApi['update']>(
+    (toastId, { content, type, placement, durationMs, onDismiss }) => {
+      commitToasts(
+        toastsRef.current.map(toast => {
+          if (toast.id !== toastId || toast.isDismissed) {
+            return toast;
+          }
+
+          const nextType = type ?? toast.type;
+
+          return {
+            ...toast,
+            content: content === undefined ? toast.content : content,
+            type: nextType,
+            placement: placement ?? toast.placement,
+            durationMs:
+              durationMs !== undefined
+                ? durationMs
+                : type === undefined
+                  ? toast.durationMs
+                  : getDefaultDurationMs(nextType),
+            onDismiss: onDismiss ?? toast.onDismiss,
+            version: toast.version + 1,
+          };
+        }),
+      );
+    },
+    [],
+  );
+
+  const show = useCallback<HoneyToastApi['show']>((content, options = {}) => {
+    const toastId = options.id ?? generateEphemeralId();
+
+    const existingToast = toastsRef.current.find(
+      toast => toast.id === toastId && !toast.isDismissed,
+    );
+
+    if (existingToast) {
+      update(toastId, { ...options, content });
+
+      return toastId;
+    }
+
+    const type = options.type ?? 'default';
+
+    commitToasts([
+      // A toast with the same ID may still be playing its exit transition
+      ...toastsRef.current.filter(toast => toast.id !== toastId),
+      {
+        id: toastId,
+        content,
+        type,
+        placement: options.placement ?? placementRef.current,
+        durationMs:
+          options.durationMs === undefined ? getDefaultDurationMs(type) : options.durationMs,
+        isDismissed: false,
+        version: 0,
+        onDismiss: options.onDismiss,
+      },
+    ]);
+
+    return toastId;
+  }, []);
+
+  const dismissToasts = useCallback((isTarget: (toast: HoneyToast) => boolean) => {
+    const dismissedToasts: HoneyToast[] = [];
+    const queuedToastIds = new Set<HoneyToastId>();
+
+    let activeToastsCount = 0;
+
+    const nextToasts = toastsRef.current.map(toast => {
+      if (toast.isDismissed) {
+        return toast;
+      }
+
+      activeToastsCount++;
+
+      if (!isTarget(toast)) {
+        return toast;
+      }
+
+      if (activeToastsCount > maxVisibleRef.current) {
+        // Queued toasts were never shown, so they are removed without the exit transition
+        queuedToastIds.add(toast.id);
+      }
+
+      const dismissedToast: HoneyToast = {
+        ...toast,
+        isDismissed: true,
+      };
+
+      dismissedToasts.push(dismissedToast);
+
+      return dismissedToast;
+    });
+
+    if (!dismissedToasts.length) {
+      return;
+    }
+
+    commitToasts(nextToasts.filter(toast => !(toast.isDismissed && queuedToastIds.has(toast.id))));
+
+    dismissedToasts.forEach(dismissedToast => {
+      dismissedToast.onDismiss?.(dismissedToast);
+
+      if (queuedToastIds.has(dismissedToast.id)) {
+        return;
+      }
+
+      const timeoutId = setTimeout(() => {
+        removeTimeoutIdsRef.current.delete(timeoutId);
+
+        commitToasts(toastsRef.current.filter(toast => toast !== dismissedToast));
+      }, transitionDurationMsRef.current);
+
+      removeTimeoutIdsRef.current.add(timeoutId);
+    });
+  }, []);
+
+  const dismiss = useCallback<HoneyToastApi['dismiss']>(toastId => {
+    dismissToasts(toast => toastId === undefined || toast.id === toastId);
+  }, []);
+
+  const promise = useCallback<HoneyToastApi['promise']>((promise, messages, options = {}) => {
+    const toastId = show(messages.loading, {
+      ...options,
+      type: 'loading',
+      durationMs: null,
+    });
+
+    promise.then(
+      value => {
+        update(toastId, {
+          content: invokeIfFunction(messages.success, value),
+          type: 'success',
+          durationMs: options.durationMs,
+        });
+      },
+      (error: unknown) => {
+        update(toastId, {
+          content: invokeIfFunction(messages.error, error),
+          type: 'error',
+          durationMs: options.durationMs,
+        });
+      },
+    );
+
+    return promise;
+  }, []);
+
+  const api = useMemo<HoneyToastApi>(
+    () => ({
+      show,
+      update,
+      dismiss,
+      promise,
+    }),
+    [],
+  );
+
+  const handleDismissToast = useCallback((toast: HoneyToast) => {
+    dismissToasts(targetToast => targetToast.id === toast.id);
+  }, []);
+
+  const handleEscape = useCallback(() => {
+    const visibleToasts = toastsRef.current
+      .filter(toast => !toast.isDismissed)
+      .slice(0, maxVisibleRef.current);
+
+    const newestToast = visibleToasts[visibleToasts.length - 1];
+    if (newestToast) {
+      handleDismissToast(newestToast);
+    }
+  }, []);
+
+  // Toasts above the visible limit wait in the queue until older toasts are dismissed
+  const queuedToasts = toasts.filter(toast => !toast.isDismissed).slice(maxVisible);
+
+  const visibleToasts = toasts.filter(toast => !queuedToasts.includes(toast));
+
+  const placements = [...new Set(visibleToasts.map(toast => toast.placement))];
+
+  return (
+    <HoneyToastContext value={api}>
+      {children}
+
+      {placements.map(regionPlacement => (
+        <HoneyToastRegion
+          key={regionPlacement}
+          placement={regionPlacement}
+          toasts={visibleToasts.filter(toast => toast.placement === regionPlacement)}
+          isWindowFocused={isWindowFocused}
+          transitionDurationMs={transitionDurationMs}
+          ariaLabel={ariaLabel}
+          onDismiss={handleDismissToast}
+          onEscape={handleEscape}
+          renderToast={renderToast}
+          portalProps={portalProps}
+        />
+      ))}
+    </HoneyToastContext>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import type { ReactNode } from 'react';
+import type { FastOmit } from '@react-hive/honey-style';
+
+import { HONEY_OVERLAY_PRIORITY } from '../../constants';
+import { HoneyOverlay } from '../HoneyOverlay';
+import { HoneyLazyContent } from '../HoneyLazyContent';
+import { HoneyPopupPortal } from '../HoneyPopup/HoneyPopupPortal';
+import { HoneyToastItem } from './HoneyToastItem';
+import { getHoneyToastRegionProps } from './HoneyToast.helpers';
+import type { HoneyPopupPortalProps } from '../HoneyPopup/HoneyPopupPortal';
+import type { HoneyToast, HoneyToastPlacement, HoneyToastRenderContext } from './HoneyToast.types';
+
+export interface HoneyToastRegionProps {
+  placement: HoneyToastPlacement;
+  /**
+   * Toasts shown in the region, including dismissed toasts that play their exit transition.
+   */
+  toasts: HoneyToast[];
+  /**
+   * Whether the browser window is focused. Auto-dismiss timers are paused otherwise.
+   */
+  isWindowFocused: boolean;
+  transitionDurationMs: number;
+  ariaLabel: string;
+  onDismiss: (toast: HoneyToast) => void;
+  /**
+   * Callback invoked when Escape is released while the region is the top-level overlay.
+   */
+  onEscape: () => void;
+  renderToast?: (context: HoneyToastRenderContext) => ReactNode;
+  portalProps?: FastOmit<HoneyPopupPortalProps, 'children'>;
+}
+
+/**
+ * A screen corner or edge where toasts are stacked.
+ *
+ * While the region shows toasts, it is registered as a non-modal overlay with the toast priority
+ * that handles only the Escape key. Other keys move on to the overlays below, such as dialogs.
+ */
+export const HoneyToastRegion = ({
+  placement,
+  toasts,
+  isWindowFocused,
+  transitionDurationMs,
+  ariaLabel,
+  onDismiss,
+  onEscape,
+  renderToast,
+  portalProps,
+}: HoneyToastRegionProps) => {
+  const [isHovered, setIsHovered] = useState(false);
+
+  const isActive = toasts.some(toast => !toast.isDismissed);
+
+  return (
+    <HoneyLazyContent mount={isActive} unmountDelay={transitionDurationMs}>
+      <HoneyPopupPortal {...portalProps}>
+        <HoneyOverlay
+          active={isActive}
+          onDeactivate={onEscape}
+          listenKeys={['Escape']}
+          priority={HONEY_OVERLAY_PRIORITY.toast}
+          onPointerEnter={() => setIsHovered(true)}
+          onPointerLeave={() => setIsHovered(false)}
+          {...getHoneyToastRegionProps(placement)}
+          // ARIA
+          role="region"
+          aria-label={ariaLabel}
+          // Data
+          data-testid="honey-toast-region"
+          data-placement={placement}
+        >
+          {toasts.map(toast => (
+            <HoneyToastItem
+              key={toast.id}
+              toast={toast}
+              isPaused={isHovered || !isWindowFocused}
+              transitionDurationMs={transitionDurationMs}
+              onDismiss={onDismiss}
+              renderToast={renderToast}
+            />
+          ))}
+        </HoneyOverlay>
+      </HoneyPopupPortal>
+    </HoneyLazyContent>
+  );
+};
@@ -0,0 +1,45 @@
+import { css, styled } from '@react-hive/honey-style';
+
+import { honeyVisibilityTransitionEffect } from '../../effects';
+import { HoneyFlex } from '../HoneyFlex';
+import type { HoneyVisibilityTransitionEffectContextProps } from '../../effects';
+import type { HoneyFlexProps } from '../HoneyFlex';
+import type { HoneyToastPlacement } from './HoneyToast.types';
+
+export type HoneyToastStyledProps = HoneyFlexProps &
+  HoneyVisibilityTransitionEffectContextProps & {
+    /**
+     * The region the toast is shown in, which defines the direction of the transition.
+     */
+    placement: HoneyToastPlacement;
+    /**
+     * Duration of the enter and exit transitions in milliseconds.
+     */
+    transitionDurationMs: number;
+  };
+
+export const HoneyToastStyled = styled<HoneyToastStyledProps>(
+  HoneyFlex,
+  ({
+    $padding = 2,
+    $backgroundColor = 'white',
+    $borderRadius = '4px',
+    $boxShadow = '0 4px 12px rgba(0, 0, 0, 0.15)',
+    $pointerEvents = 'auto',
+  }) => ({
+    $padding,
+    $backgroundColor,
+    $borderRadius,
+    $boxShadow,
+    $pointerEvents,
+  }),
+)`
+  ${({ active = false, placement, transitionDurationMs }) => css`
+    ${honeyVisibilityTransitionEffect({
+      durationMs: transitionDurationMs,
+      extraProperties: ['transform'],
+    })};
+
+    transform: ${active ? 'none' : `translateY(${placement.startsWith('top') ? -100 : 100}%)`};
+  `}
+`;
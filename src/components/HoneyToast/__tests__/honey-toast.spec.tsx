@@ -0,0 +1,274 @@
+import React from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
+import type { ReactNode } from 'react';
+
+import { themeMock } from '../../../__mocks__';
+import { HoneyLayoutProvider } from '../../../providers';
+import { HoneyModal } from '../../HoneyModal';
+import { HoneyToastProvider } from '../HoneyToastProvider';
+import { useHoneyToast } from '../hooks';
+import type { HoneyToastApi } from '../HoneyToast.types';
+import type { HoneyToastProviderProps } from '../HoneyToastProvider';
+
+const customRender = (props: Partial<HoneyToastProviderProps> = {}, children?: ReactNode) => {
+  const toastRef: { current?: HoneyToastApi } = {};
+
+  const ToastApiReader = () => {
+    toastRef.current = useHoneyToast();
+
+    return null;
+  };
+
+  const result = render(
+    <HoneyLayoutProvider theme={themeMock}>
+      <HoneyToastProvider transitionDurationMs={100} {...props}>
+        <ToastApiReader />
+
+        {children}
+      </HoneyToastProvider>
+    </HoneyLayoutProvider>,
+  );
+
+  const toast = toastRef.current;
+  if (!toast) {
+    throw new Error('The toast API is not available');
+  }
+
+  return {
+    ...result,
+    toast,
+  };
+};
+
+describe('[HoneyToast]: basic behavior', () => {
+  beforeEach(() => {
+    vitest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vitest.useRealTimers();
+  });
+
+  it('should throw when `useHoneyToast()` is used outside of the provider', () => {
+    const ToastApiReader = () => {
+      useHoneyToast();
+
+      return null;
+    };
+
+    vitest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => render(<ToastApiReader />)).toThrow();
+  });
+
+  it('should show a toast in the default region', () => {
+    const { toast, getByTestId, getByText } = customRender({ placement: 'top-center' });
+
+    act(() => {
+      toast.show('Saved');
+    });
+
+    expect(getByText('Saved')).toHaveAttribute('role', 'status');
+    expect(getByTestId('honey-toast-region')).toHaveAttribute('data-placement', 'top-center');
+  });
+
+  it('should announce error toasts assertively', () => {
+    const { toast, getByText } = customRender();
+
+    act(() => {
+      toast.show('Failed', { type: 'error' });
+    });
+
+    expect(getByText('Failed')).toHaveAttribute('role', 'alert');
+  });
+
+  it('should dismiss a toast after its duration and remove it after the exit transition', () => {
+    const onDismiss = vitest.fn();
+
+    const { toast, queryByText } = customRender({ durationMs: 1000 });
+
+    act(() => {
+      toast.show('Saved', { onDismiss });
+    });
+
+    act(() => {
+      vitest.advanceTimersByTime(1000);
+    });
+
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+    expect(queryByText('Saved')).not.toBeNull();
+
+    act(() => {
+      vitest.advanceTimersByTime(100);
+    });
+
+    expect(queryByText('Saved')).toBeNull();
+  });
+
+  it('should pause the auto-dismiss timer while the region is hovered', () => {
+    const onDismiss = vitest.fn();
+
+    const { toast, getByTestId } = customRender({ durationMs: 1000 });
+
+    act(() => {
+      toast.show('Saved', { onDismiss });
+    });
+
+    act(() => {
+      vitest.advanceTimersByTime(600);
+    });
+
+    fireEvent.pointerEnter(getByTestId('honey-toast-region'));
+
+    act(() => {
+      vitest.advanceTimersByTime(2000);
+    });
+
+    expect(onDismiss).not.toHaveBeenCalled();
+
+    fireEvent.pointerLeave(getByTestId('honey-toast-region'));
+
+    act(() => {
+      vitest.advanceTimersByTime(400);
+    });
+
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pause the auto-dismiss timer while the window is not focused', () => {
+    const onDismiss = vitest.fn();
+
+    const { toast } = customRender({ durationMs: 1000 });
+
+    act(() => {
+      toast.show('Saved', { onDismiss });
+    });
+
+    act(() => {
+      window.dispatchEvent(new FocusEvent('blur'));
+    });
+
+    act(() => {
+      vitest.advanceTimersByTime(2000);
+    });
+
+    expect(onDismiss).not.toHaveBeenCalled();
+
+    act(() => {
+      window.dispatchEvent(new FocusEvent('focus'));
+    });
+
+    act(() => {
+      vitest.advanceTimersByTime(1000);
+    });
+
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+  });
+
+  it('should queue toasts above the visible limit', () => {
+    const { toast, queryByText } = customRender({ maxVisible: 2, durationMs: 1000 });
+
+    let firstToastId = '';
+
+    act(() => {
+      firstToastId = toast.show('First', { durationMs: null });
+      toast.show('Second', { durationMs: null });
+      toast.show('Third', { durationMs: null });
+    });
+
+    expect(queryByText('Third')).toBeNull();
+
+    act(() => {
+      toast.dismiss(firstToastId);
+    });
+
+    expect(queryByText('Third')).not.toBeNull();
+  });
+
+  it('should update the toast shown with the same ID', () => {
+    const { toast, getAllByTestId, getByText } = customRender();
+
+    act(() => {
+      toast.show('Uploading', { id: 'upload' });
+      toast.show('Uploaded', { id: 'upload', type: 'success' });
+    });
+
+    expect(getAllByTestId('honey-toast')).toHaveLength(1);
+    expect(getByText('Uploaded')).toHaveAttribute('data-toast-type', 'success');
+  });
+
+  it('should update a loading toast with the outcome of a promise', async () => {
+    const { toast, getByText } = customRender();
+
+    let resolvePromise: (value: number) => void = () => {};
+
+    act(() => {
+      void toast.promise(new Promise<number>(resolve => (resolvePromise = resolve)), {
+        loading: 'Uploading',
+        success: count => `Uploaded ${count} files`,
+        error: 'Upload failed',
+      });
+    });
+
+    expect(getByText('Uploading')).toHaveAttribute('data-toast-type', 'loading');
+
+    await act(async () => {
+      resolvePromise(3);
+    });
+
+    expect(getByText('Uploaded 3 files')).toHaveAttribute('data-toast-type', 'success');
+  });
+});
+
+describe('[HoneyToast]: overlay integration', () => {
+  it('should dismiss the newest toast when the Escape key is released', () => {
+    const onFirstDismiss = vitest.fn();
+    const onSecondDismiss = vitest.fn();
+
+    const { toast } = customRender();
+
+    act(() => {
+      toast.show('First', { onDismiss: onFirstDismiss });
+      toast.show('Second', { onDismiss: onSecondDismiss });
+    });
+
+    fireEvent.keyUp(document, { code: 'Escape' });
+
+    expect(onSecondDismiss).toHaveBeenCalledTimes(1);
+    expect(onFirstDismiss).not.toHaveBeenCalled();
+  });
+
+  it('should let keys other than Escape reach an open dialog', () => {
+    const onClose = vitest.fn();
+    const onDialogKeyUp = vitest.fn();
+
+    const { toast } = customRender(
+      {},
+      <HoneyModal open={true} onClose={onClose} overlayProps={{ onKeyUp: onDialogKeyUp }}>
+        Content
+      </HoneyModal>,
+    );
+
+    act(() => {
+      toast.show('Saved');
+    });
+
+    fireEvent.keyUp(document, { code: 'Enter' });
+
+    expect(onDialogKeyUp).toHaveBeenCalledWith(
+      'Enter',
+      expect.anything(),
+      expect.anything(),
+      expect.anything(),
+    );
+
+    fireEvent.keyUp(document, { code: 'Escape' });
+
+    expect(onDialogKeyUp).not.toHaveBeenCalledWith(
+      'Escape',
+      expect.anything(),
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+});
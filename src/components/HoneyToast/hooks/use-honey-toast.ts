@@ -0,0 +1,33 @@
+import { useContext } from 'react';
+import { assert } from '@react-hive/honey-utils';
+
+import { HoneyToastContext } from '../HoneyToastContext';
+
+/**
+ * Returns the API for showing, updating and dismissing toasts.
+ *
+ * @throws Will throw an error if the hook is used outside of a `HoneyToastProvider` component.
+ *
+ * @returns The toast API of the closest `HoneyToastProvider`.
+ *
+ * @example
+ * ```tsx
+ * const toast = useHoneyToast();
+ *
+ * const handleSave = () =>
+ *   toast.promise(saveDraft(), {
+ *     loading: 'Saving...',
+ *     success: 'Draft saved',
+ *     error: 'Could not save the draft',
+ *   });
+ * ```
+ */
+export const useHoneyToast = () => {
+  const context = useContext(HoneyToastContext);
+  assert(
+    context,
+    '[@react-hive/honey-layout]: The `useHoneyToast()` hook must be used inside <HoneyToastProvider/> component.',
+  );
+
+  return context;
+};
@@ -0,0 +1,5 @@
+export * from './HoneyToast.types';
+export * from './HoneyToastContext';
+export * from './HoneyToastStyled';
+export * from './HoneyToastProvider';
+export * from './hooks';
@@ -0,0 +1,38 @@
+import { HONEY_BREAKPOINTS } from '@react-hive/honey-style';
+import type { HoneyBreakpointName, HoneyBreakpoints } from '@react-hive/honey-style';
+
+/**
+ * Returns the largest breakpoint applied at a width. A breakpoint applies from its width up, and
+ * `xs` applies at any width.
+ *
+ * @param breakpoints - The breakpoints of the theme.
+ * @param width - The width in pixels.
+ *
+ * @returns The name of the applied breakpoint.
+ */
+export const getHoneyVirtualGridBreakpoint = (
+  breakpoints: Partial<HoneyBreakpoints>,
+  width: number,
+) =>
+  HONEY_BREAKPOINTS.reduce<HoneyBreakpointName>((appliedBreakpoint, breakpoint) => {
+    const breakpointWidth = breakpoints[breakpoint];
+
+    return breakpointWidth !== undefined && width >= breakpointWidth
+      ? breakpoint
+      : appliedBreakpoint;
+  }, 'xs');
+
+/**
+ * Calculates how many columns at least `minItemWidth` wide fit in a container.
+ *
+ * @param containerWidth - The content width of the container in pixels.
+ * @param minItemWidth - The minimum width of an item in pixels.
+ * @param columnGap - The gap between the columns in pixels.
+ *
+ * @returns The number of columns, at least 1.
+ */
+export const calculateHoneyVirtualGridColumns = (
+  containerWidth: number,
+  minItemWidth: number,
+  columnGap: number,
+) => Math.max(1, Math.floor((containerWidth + columnGap) / (minItemWidth + columnGap)));
@@ -0,0 +1,276 @@
+import React, { useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { assert } from '@react-hive/honey-utils';
+import { resolveSpacing } from '@react-hive/honey-style';
+import type { ReactNode, Ref } from 'react';
+import type { FastOmit } from '@react-hive/honey-style';
+
+import { mergeRefs, resolveResponsiveValue } from '../../helpers';
+import { useHoneyLayout } from '../../hooks';
+import { getHoneyListItemId } from '../HoneyList';
+import { useHoneyListVirtualizer } from '../HoneyList/hooks';
+import { HoneyVirtualGridStyled } from './HoneyVirtualGridStyled';
+import {
+  calculateHoneyVirtualGridColumns,
+  getHoneyVirtualGridBreakpoint,
+} from './HoneyVirtualGrid.helpers';
+import type { Nullable } from '../../types';
+import type { HoneyListItem, HoneyListItemKey } from '../HoneyList';
+import type { HoneyVirtualGridColumns, HoneyVirtualGridHandle } from './HoneyVirtualGrid.types';
+import type { HoneyVirtualGridStyledProps } from './HoneyVirtualGridStyled';
+
+export interface HoneyVirtualGridProps<Item extends HoneyListItem> extends FastOmit<
+  HoneyVirtualGridStyledProps,
+  'children'
+> {
+  /**
+   * Renders an item.
+   *
+   * @param item - The item.
+   * @param itemIndex - The index of the item.
+   *
+   * @returns The item content.
+   */
+  children: (item: Item, itemIndex: number) => ReactNode;
+  items: Item[];
+  /**
+   * The key of the items, passed to `getHoneyListItemId`.
+   */
+  itemKey?: HoneyListItemKey<Item>;
+  /**
+   * The number of columns, fixed or per breakpoint, at least 1. Breakpoints are compared with the
+   * grid width. Takes precedence over `minItemWidth` at the widths it applies to.
+   */
+  columns?: HoneyVirtualGridColumns;
+  /**
+   * The minimum width of an item in pixels. As many columns as fit in the grid width are rendered.
+   */
+  minItemWidth?: number;
+  /**
+   * The spacing between the rows and the columns.
+   *
+   * @default 0
+   */
+  spacing?: number;
+  /**
+   * The height of the rows in pixels, either fixed or returned for each row. When omitted, rows
+   * are measured after they are rendered, so rows may have different heights.
+   */
+  rowHeight?: number | ((rowIndex: number) => number);
+  /**
+   * The height in pixels of the rows that are not measured yet.
+   *
+   * @default 200
+   */
+  estimatedRowHeight?: number;
+  /**
+   * The number of rows rendered before and after the visible rows.
+   *
+   * @default 2
+   */
+  overscan?: number;
+  /**
+   * Reference to the imperative API of the grid.
+   */
+  handleRef?: Ref<HoneyVirtualGridHandle>;
+}
+
+/**
+ * A virtualized grid that renders only the rows inside its viewport.
+ *
+ * The number of columns is taken from `columns` or calculated from the grid width and
+ * `minItemWidth`. The grid width is measured after mounting, so the `xs` columns are used until
+ * then, for example when rendered on the server. Items fill the rows in order, and each row is as high as its highest item unless
+ * `rowHeight` is set. The grid scrolls vertically, so it must have a bounded height, for example
+ * a fixed `$height`.
+ *
+ * @template Item - The type of the items rendered in the grid.
+ *
+ * @example
+ * ```tsx
+ * <HoneyVirtualGrid
+ *   items={products}
+ *   itemKey="id"
+ *   minItemWidth={240}
+ *   spacing={2}
+ *   $height="100vh"
+ * >
+ *   {product => <ProductCard product={product} />}
+ * </HoneyVirtualGrid>
+ * ```
+ */
+export const HoneyVirtualGrid = <Item extends HoneyListItem>({
+  ref,
+  children,
+  items,
+  itemKey,
+  columns,
+  minItemWidth,
+  spacing = 0,
+  rowHeight,
+  estimatedRowHeight = 200,
+  overscan = 2,
+  handleRef,
+  ...props
+}: HoneyVirtualGridProps<Item>) => {
+  assert(
+    columns !== undefined || minItemWidth !== undefined,
+    '[@react-hive/honey-layout]: HoneyVirtualGrid requires either `columns` or `minItemWidth`.',
+  );
+
+  const { theme } = useHoneyLayout();
+
+  const gridRef = useRef<Nullable<HTMLDivElement>>(null);
+
+  const [gridWidth, setGridWidth] = useState(0);
+
+  useLayoutEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) {
+      return;
+    }
+
+    const updateGridWidth = () => setGridWidth(grid.clientWidth);
+
+    updateGridWidth();
+
+    // Not available in all environments, e.g. jsdom
+    const resizeObserver =
+      typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(updateGridWidth);
+
+    resizeObserver?.observe(grid);
+
+    return () => {
+      resizeObserver?.disconnect();
+    };
+  }, []);
+
+  const gap: number = resolveSpacing(spacing, null)({ theme });
+
+  const breakpointColumns = resolveResponsiveValue(
+    columns,
+    getHoneyVirtualGridBreakpoint(theme.breakpoints, gridWidth),
+  );
+
+  let columnsCount = 1;
+
+  if (breakpointColumns !== undefined) {
+    // No columns would make the number of rows infinite
+    columnsCount = Math.max(1, breakpointColumns);
+  } else if (minItemWidth !== undefined) {
+    columnsCount = calculateHoneyVirtualGridColumns(gridWidth, minItemWidth, gap);
+  }
+
+  // The rows are virtualized as the items of a list
+  const rows = useMemo(() => {
+    const gridRows: Item[][] = [];
+
+    for (let itemIndex = 0; itemIndex < items.length; itemIndex += columnsCount) {
+      gridRows.push(items.slice(itemIndex, itemIndex + columnsCount));
+    }
+
+    return gridRows;
+  }, [items, columnsCount]);
+
+  const rowsCount = rows.length;
+
+  const getItemId = (itemIndex: number) => getHoneyListItemId(items[itemIndex], itemKey, itemIndex);
+
+  // The gap after a row is part of its size
+  const getRowGap = (rowIndex: number) => (rowIndex < rowsCount - 1 ? gap : 0);
+
+  const rowSize = useMemo(
+    () =>
+      rowHeight === undefined
+        ? undefined
+        : (_row: Item[], rowIndex: number) =>
+            (typeof rowHeight === 'function' ? rowHeight(rowIndex) : rowHeight) +
+            getRowGap(rowIndex),
+    [rowHeight, rowsCount, gap],
+  );
+
+  const { virtualItems, totalSize, measureItemRef, scrollToIndex } = useHoneyListVirtualizer(
+    gridRef,
+    {
+      enabled: true,
+      items: rows,
+      orientation: 'vertical',
+      // Measured heights are kept while a row starts with the same item and has the same columns
+      getItemKey: (_row, rowIndex) =>
+        `${columnsCount}:${String(getItemId(rowIndex * columnsCount))}`,
+      itemSize: rowSize,
+      estimatedItemSize: estimatedRowHeight + gap,
+      overscan,
+    },
+  );
+
+  useImperativeHandle(handleRef, () => ({
+    scrollToIndex: (itemIndex, options) => {
+      if (itemIndex >= 0 && itemIndex < items.length) {
+        scrollToIndex(Math.floor(itemIndex / columnsCount), options);
+      }
+    },
+  }));
+
+  return (
+    <HoneyVirtualGridStyled
+      ref={mergeRefs(gridRef, ref)}
+      role="list"
+      // Data
+      data-testid="honey-virtual-grid"
+      {...props}
+    >
+      <div
+        role="none"
+        style={{ position: 'relative', width: '100%', height: totalSize }}
+        // Data
+        data-testid="honey-virtual-grid-content"
+      >
+        {virtualItems.map(virtualRow => {
+          const firstItemIndex = virtualRow.index * columnsCount;
+          const rowItems = rows[virtualRow.index];
+
+          return (
+            <div
+              key={virtualRow.index}
+              ref={rowHeight === undefined ? measureItemRef : undefined}
+              role="none"
+              style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                width: '100%',
+                transform: `translateY(${virtualRow.start}px)`,
+                display: 'grid',
+                gridTemplateColumns: `repeat(${columnsCount}, minmax(0, 1fr))`,
+                columnGap: gap,
+                paddingBottom: getRowGap(virtualRow.index),
+                boxSizing: 'border-box',
+                ...(rowHeight !== undefined && { height: virtualRow.size }),
+              }}
+              // Data
+              data-index={virtualRow.index}
+              data-testid="honey-virtual-grid-row"
+            >
+              {rowItems.map((item, rowItemIndex) => {
+                const itemIndex = firstItemIndex + rowItemIndex;
+
+                return (
+                  <div
+                    key={String(getItemId(itemIndex))}
+                    role="listitem"
+                    style={{ minWidth: 0 }}
+                    // ARIA
+                    aria-setsize={items.length}
+                    aria-posinset={itemIndex + 1}
+                  >
+                    {children(item, itemIndex)}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </HoneyVirtualGridStyled>
+  );
+};
@@ -0,0 +1,22 @@
+import type { HoneyResponsiveValue } from '../../types';
+import type { HoneyListScrollToOptions } from '../HoneyList';
+
+/**
+ * The number of columns of a grid, either fixed or set per breakpoint. A breakpoint value applies
+ * while the grid is at least as wide as the breakpoint, so the columns follow the grid width rather
+ * than the viewport width.
+ */
+export type HoneyVirtualGridColumns = HoneyResponsiveValue<number>;
+
+/**
+ * Imperative API of `HoneyVirtualGrid`.
+ */
+export interface HoneyVirtualGridHandle {
+  /**
+   * Scrolls the grid to the row containing an item.
+   *
+   * @param itemIndex - The index of the item.
+   * @param options - Optional alignment and scroll behavior.
+   */
+  scrollToIndex: (itemIndex: number, options?: HoneyListScrollToOptions) => void;
+}
@@ -0,0 +1,13 @@
+import { styled } from '@react-hive/honey-style';
+
+import { HoneyBox } from '../HoneyBox';
+import type { HoneyBoxProps } from '../HoneyBox';
+
+export type HoneyVirtualGridStyledProps = HoneyBoxProps;
+
+export const HoneyVirtualGridStyled = styled<HoneyVirtualGridStyledProps>(
+  HoneyBox,
+  ({ $overflow = 'hidden auto' }) => ({
+    $overflow,
+  }),
+)``;
@@ -0,0 +1,168 @@
+import React, { createRef } from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
+import type { ReactElement } from 'react';
+
+import { themeMock } from '../../../__mocks__';
+import { HoneyLayoutProvider } from '../../../providers';
+import { HoneyVirtualGrid } from '../HoneyVirtualGrid';
+import { getHoneyVirtualGridBreakpoint } from '../HoneyVirtualGrid.helpers';
+import type { HoneyVirtualGridHandle } from '../HoneyVirtualGrid.types';
+
+const generateItems = (length: number) =>
+  Array.from({ length }).map((_, index) => ({
+    id: index,
+    name: `name-${index}`,
+  }));
+
+const customRender = (element: ReactElement) =>
+  render(<HoneyLayoutProvider theme={themeMock}>{element}</HoneyLayoutProvider>);
+
+const getRenderedItemPositions = (grid: HTMLElement) =>
+  Array.from(grid.querySelectorAll('[role="listitem"]')).map(element =>
+    Number(element.getAttribute('aria-posinset')),
+  );
+
+describe('[HoneyVirtualGrid]: basic behavior', () => {
+  beforeEach(() => {
+    vitest.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(300);
+    vitest.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(1000);
+  });
+
+  afterEach(() => {
+    vitest.restoreAllMocks();
+  });
+
+  it('should fit as many columns as the minimum item width allows', () => {
+    const { getByTestId, getAllByTestId } = customRender(
+      <HoneyVirtualGrid
+        items={generateItems(100)}
+        itemKey="id"
+        minItemWidth={240}
+        rowHeight={100}
+        overscan={0}
+      >
+        {item => item.name}
+      </HoneyVirtualGrid>,
+    );
+
+    const rows = getAllByTestId('honey-virtual-grid-row');
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0].style.gridTemplateColumns).toBe('repeat(4, minmax(0, 1fr))');
+    expect(getRenderedItemPositions(getByTestId('honey-virtual-grid'))).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12,
+    ]);
+    expect(getByTestId('honey-virtual-grid-content').style.height).toBe('2500px');
+  });
+
+  it('should include the spacing in the columns and the row heights', () => {
+    const { getByTestId, getAllByTestId } = customRender(
+      <HoneyVirtualGrid
+        items={generateItems(9)}
+        itemKey="id"
+        minItemWidth={240}
+        spacing={2}
+        rowHeight={100}
+      >
+        {item => item.name}
+      </HoneyVirtualGrid>,
+    );
+
+    const rows = getAllByTestId('honey-virtual-grid-row');
+
+    expect(rows[0].style.gridTemplateColumns).toBe('repeat(3, minmax(0, 1fr))');
+    expect(rows[1]).toHaveStyle({ transform: 'translateY(116px)', paddingBottom: '16px' });
+    expect(getByTestId('honey-virtual-grid-content').style.height).toBe('332px');
+  });
+
+  it('should use the columns of the largest breakpoint applied to the grid width', () => {
+    const { getAllByTestId } = customRender(
+      <HoneyVirtualGrid items={generateItems(10)} columns={{ xs: 1, md: 3, xl: 5 }} rowHeight={100}>
+        {item => item.name}
+      </HoneyVirtualGrid>,
+    );
+
+    expect(getAllByTestId('honey-virtual-grid-row')[0].style.gridTemplateColumns).toBe(
+      'repeat(3, minmax(0, 1fr))',
+    );
+  });
+
+  it('should render at least one column', () => {
+    const { getAllByTestId } = customRender(
+      <HoneyVirtualGrid items={generateItems(3)} columns={0} rowHeight={100}>
+        {item => item.name}
+      </HoneyVirtualGrid>,
+    );
+
+    const rows = getAllByTestId('honey-virtual-grid-row');
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0].style.gridTemplateColumns).toBe('repeat(1, minmax(0, 1fr))');
+  });
+
+  it('should render the visible rows when the grid is scrolled', () => {
+    const { getByTestId } = customRender(
+      <HoneyVirtualGrid
+        items={generateItems(100)}
+        itemKey="id"
+        columns={2}
+        rowHeight={100}
+        overscan={1}
+      >
+        {item => item.name}
+      </HoneyVirtualGrid>,
+    );
+
+    const grid = getByTestId('honey-virtual-grid');
+
+    grid.scrollTop = 1000;
+    fireEvent.scroll(grid);
+
+    expect(getRenderedItemPositions(grid)).toEqual([19, 20, 21, 22, 23, 24, 25, 26, 27, 28]);
+    expect(grid.querySelector('[data-index="10"]')).toHaveStyle({
+      transform: 'translateY(1000px)',
+    });
+  });
+
+  it('should scroll to the row of an item using the handle', () => {
+    const handleRef = createRef<HoneyVirtualGridHandle>();
+
+    const { getByTestId } = customRender(
+      <HoneyVirtualGrid items={generateItems(50)} columns={2} rowHeight={100} handleRef={handleRef}>
+        {item => item.name}
+      </HoneyVirtualGrid>,
+    );
+
+    const grid = getByTestId('honey-virtual-grid');
+    grid.scrollTo = vitest.fn();
+
+    act(() => {
+      handleRef.current?.scrollToIndex(25, { align: 'start' });
+    });
+
+    expect(grid.scrollTo).toHaveBeenCalledWith({ top: 1200, behavior: undefined });
+  });
+
+  it('should throw without `columns` and `minItemWidth`', () => {
+    vitest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() =>
+      customRender(
+        <HoneyVirtualGrid items={generateItems(3)}>{item => item.name}</HoneyVirtualGrid>,
+      ),
+    ).toThrow();
+  });
+});
+
+describe('[HoneyVirtualGrid]: get the breakpoint of the grid width', () => {
+  it('should apply a breakpoint from the breakpoint width up', () => {
+    expect(getHoneyVirtualGridBreakpoint(themeMock.breakpoints, 768)).toBe('sm');
+    expect(getHoneyVirtualGridBreakpoint(themeMock.breakpoints, 1100)).toBe('md');
+    expect(getHoneyVirtualGridBreakpoint(themeMock.breakpoints, 2000)).toBe('xl');
+  });
+
+  it('should apply `xs` at any width', () => {
+    expect(getHoneyVirtualGridBreakpoint(themeMock.breakpoints, 0)).toBe('xs');
+    expect(getHoneyVirtualGridBreakpoint(themeMock.breakpoints, 500)).toBe('xs');
+  });
+});
@@ -0,0 +1,3 @@
+export * from './HoneyVirtualGrid.types';
+export * from './HoneyVirtualGrid.helpers';
+export * from './HoneyVirtualGrid';
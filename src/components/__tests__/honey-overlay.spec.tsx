@@ -0,0 +1,766 @@
+import React, { useRef, useState, useSyncExternalStore } from 'react';
+import { createPortal } from 'react-dom';
+import { noop } from '@react-hive/honey-utils';
+import { act, fireEvent, render } from '@testing-library/react';
+import type { ReactElement } from 'react';
+
+import { themeMock } from '../../__mocks__';
+import { HONEY_OVERLAY_BASE_Z_INDEX, HONEY_OVERLAY_PRIORITY } from '../../constants';
+import { createHoneyMemoryHistory } from '../../helpers';
+import {
+  useHoneyLayout,
+  useHoneyOverlayDeepLink,
+  useHoneyTopLevelOverlay,
+  useRegisterHoneyOverlay,
+} from '../../hooks';
+import { HoneyLayoutProvider } from '../../providers';
+import { HoneyOverlay } from '../HoneyOverlay';
+import type { HoneyOverlayHistory } from '../../types';
+
+const customRender = (element: ReactElement) =>
+  render(<HoneyLayoutProvider theme={themeMock}>{element}</HoneyLayoutProvider>);
+
+describe('[HoneyOverlay]: focus management', () => {
+  it('should not move focus when `trapFocus` is not enabled', () => {
+    const { getByTestId } = customRender(
+      <>
+        <button data-testid="opener">Open</button>
+
+        <HoneyOverlay active={true} onDeactivate={noop}>
+          <button data-testid="first">First</button>
+        </HoneyOverlay>
+      </>,
+    );
+
+    getByTestId('opener').focus();
+
+    expect(getByTestId('opener')).toHaveFocus();
+  });
+
+  it('should focus the first tabbable element when the overlay is activated', () => {
+    const { getByTestId } = customRender(
+      <HoneyOverlay active={true} onDeactivate={noop} trapFocus={true}>
+        <button data-testid="first">First</button>
+        <button data-testid="last">Last</button>
+      </HoneyOverlay>,
+    );
+
+    expect(getByTestId('first')).toHaveFocus();
+  });
+
+  it('should focus `initialFocusRef` element when provided', () => {
+    const Overlay = () => {
+      const initialFocusRef = useRef<HTMLButtonElement>(null);
+
+      return (
+        <HoneyOverlay
+          active={true}
+          onDeactivate={noop}
+          trapFocus={true}
+          initialFocusRef={initialFocusRef}
+        >
+          <button data-testid="first">First</button>
+          <button ref={initialFocusRef} data-testid="last">
+            Last
+          </button>
+        </HoneyOverlay>
+      );
+    };
+
+    const { getByTestId } = customRender(<Overlay />);
+
+    expect(getByTestId('last')).toHaveFocus();
+  });
+
+  it('should cycle focus with Tab and Shift+Tab inside the overlay', () => {
+    const { getByTestId } = customRender(
+      <HoneyOverlay active={true} onDeactivate={noop} trapFocus={true}>
+        <button data-testid="first">First</button>
+        <button data-testid="last">Last</button>
+      </HoneyOverlay>,
+    );
+
+    getByTestId('last').focus();
+    fireEvent.keyDown(document, { code: 'Tab' });
+
+    expect(getByTestId('first')).toHaveFocus();
+
+    fireEvent.keyDown(document, { code: 'Tab', shiftKey: true });
+
+    expect(getByTestId('last')).toHaveFocus();
+  });
+
+  it('should keep cycling focus while a higher priority overlay without a focus trap is active', () => {
+    const { getByTestId } = customRender(
+      <>
+        <HoneyOverlay
+          active={true}
+          onDeactivate={noop}
+          priority={HONEY_OVERLAY_PRIORITY.dialog}
+          trapFocus={true}
+        >
+          <button data-testid="first">First</button>
+          <button data-testid="last">Last</button>
+        </HoneyOverlay>
+
+        <HoneyOverlay active={true} onDeactivate={noop} priority={HONEY_OVERLAY_PRIORITY.toast}>
+          <button data-testid="toast-action">Undo</button>
+        </HoneyOverlay>
+      </>,
+    );
+
+    getByTestId('last').focus();
+    fireEvent.keyDown(document, { code: 'Tab' });
+
+    expect(getByTestId('first')).toHaveFocus();
+  });
+
+  it('should pause the focus trap while an overlay opened from it is on top', () => {
+    const { getByTestId } = customRender(
+      <HoneyOverlay active={true} onDeactivate={noop} trapFocus={true}>
+        <button data-testid="first">First</button>
+        <button data-testid="last">Last</button>
+
+        {createPortal(
+          <HoneyOverlay active={true} onDeactivate={noop}>
+            <button data-testid="popover-action">Action</button>
+          </HoneyOverlay>,
+          document.body,
+        )}
+      </HoneyOverlay>,
+    );
+
+    getByTestId('last').focus();
+    fireEvent.keyDown(document, { code: 'Tab' });
+
+    expect(getByTestId('first')).not.toHaveFocus();
+  });
+
+  it('should restore focus to the opener after the overlay is deactivated', () => {
+    const renderOverlay = (active: boolean) => (
+      <HoneyLayoutProvider theme={themeMock}>
+        <button data-testid="opener">Open</button>
+
+        <HoneyOverlay active={active} onDeactivate={noop} trapFocus={true}>
+          <button data-testid="first">First</button>
+        </HoneyOverlay>
+      </HoneyLayoutProvider>
+    );
+
+    const { getByTestId, rerender } = render(renderOverlay(false));
+
+    getByTestId('opener').focus();
+
+    rerender(renderOverlay(true));
+
+    expect(getByTestId('first')).toHaveFocus();
+
+    rerender(renderOverlay(false));
+
+    expect(getByTestId('opener')).toHaveFocus();
+  });
+});
+
+describe('[HoneyOverlay]: pointer down outside', () => {
+  it('should call `onPointerDownOutside` when a pointer is pressed outside the overlay', () => {
+    const pointerDownOutsideSpy = vitest.fn();
+
+    const { getByTestId } = customRender(
+      <>
+        <div data-testid="outside">Outside</div>
+
+        <HoneyOverlay
+          active={true}
+          onDeactivate={noop}
+          onPointerDownOutside={pointerDownOutsideSpy}
+        >
+          <div data-testid="inside">Inside</div>
+        </HoneyOverlay>
+      </>,
+    );
+
+    fireEvent.pointerDown(getByTestId('inside'));
+
+    expect(pointerDownOutsideSpy).not.toHaveBeenCalled();
+
+    fireEvent.pointerDown(getByTestId('outside'));
+
+    expect(pointerDownOutsideSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should notify only the top-level overlay', () => {
+    const parentPointerDownOutsideSpy = vitest.fn();
+    const childPointerDownOutsideSpy = vitest.fn();
+
+    const renderOverlays = (isChildActive: boolean) => (
+      <HoneyLayoutProvider theme={themeMock}>
+        <div data-testid="outside">Outside</div>
+
+        <HoneyOverlay
+          active={true}
+          onDeactivate={noop}
+          onPointerDownOutside={parentPointerDownOutsideSpy}
+        >
+          Parent
+        </HoneyOverlay>
+
+        <HoneyOverlay
+          active={isChildActive}
+          onDeactivate={noop}
+          onPointerDownOutside={childPointerDownOutsideSpy}
+        >
+          Child
+        </HoneyOverlay>
+      </HoneyLayoutProvider>
+    );
+
+    const { getByTestId, rerender } = render(renderOverlays(false));
+
+    rerender(renderOverlays(true));
+
+    fireEvent.pointerDown(getByTestId('outside'));
+
+    expect(childPointerDownOutsideSpy).toHaveBeenCalledTimes(1);
+    expect(parentPointerDownOutsideSpy).not.toHaveBeenCalled();
+  });
+
+  it('should not treat a pointer press inside a nested portal overlay as outside', () => {
+    const parentPointerDownOutsideSpy = vitest.fn();
+
+    const { getByTestId } = customRender(
+      <HoneyOverlay
+        active={true}
+        onDeactivate={noop}
+        onPointerDownOutside={parentPointerDownOutsideSpy}
+      >
+        {createPortal(
+          <HoneyOverlay active={true} onDeactivate={noop}>
+            <div data-testid="nested">Nested</div>
+          </HoneyOverlay>,
+          document.body,
+        )}
+      </HoneyOverlay>,
+    );
+
+    fireEvent.pointerDown(getByTestId('nested'));
+
+    expect(parentPointerDownOutsideSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('[HoneyOverlay]: priority', () => {
+  const renderOverlays = (isPopoverActive: boolean) => (
+    <HoneyLayoutProvider theme={themeMock}>
+      <TopLevelOverlay />
+
+      <HoneyOverlay
+        active={true}
+        onDeactivate={noop}
+        overlayId="dialog-overlay-id"
+        priority={HONEY_OVERLAY_PRIORITY.dialog}
+        modal={true}
+      >
+        {({ overlay }) => <div data-testid="dialog-z-index">{overlay?.zIndex}</div>}
+      </HoneyOverlay>
+
+      <HoneyOverlay
+        active={isPopoverActive}
+        onDeactivate={noop}
+        overlayId="popover-overlay-id"
+        priority={HONEY_OVERLAY_PRIORITY.popover}
+      >
+        {({ overlay }) => <div data-testid="popover-z-index">{overlay?.zIndex}</div>}
+      </HoneyOverlay>
+    </HoneyLayoutProvider>
+  );
+
+  const TopLevelOverlay = () => {
+    const topLevelOverlay = useHoneyTopLevelOverlay();
+
+    return <div data-testid="top-level-overlay">{topLevelOverlay?.id}</div>;
+  };
+
+  it('should keep a higher priority overlay on top when a lower priority one registers later', () => {
+    const { getByTestId, rerender } = render(renderOverlays(false));
+
+    rerender(renderOverlays(true));
+
+    expect(getByTestId('top-level-overlay')).toHaveTextContent('dialog-overlay-id');
+    expect(Number(getByTestId('dialog-z-index').textContent)).toBeGreaterThan(
+      Number(getByTestId('popover-z-index').textContent),
+    );
+  });
+
+  it('should apply the z-index to an overlay registered below the top-level overlay', () => {
+    const { getByTestId, rerender } = render(renderOverlays(false));
+
+    rerender(renderOverlays(true));
+
+    const popoverZIndex = getByTestId('popover-z-index');
+
+    expect(popoverZIndex).not.toBeEmptyDOMElement();
+    expect(popoverZIndex.parentElement).toHaveStyle({ zIndex: popoverZIndex.textContent });
+  });
+
+  it('should move the overlay and update its z-index when its priority changes', () => {
+    const renderUpdatedPopover = (popoverPriority: number) => (
+      <HoneyLayoutProvider theme={themeMock}>
+        <TopLevelOverlay />
+
+        <HoneyOverlay
+          active={true}
+          overlayId="dialog-overlay-id"
+          priority={HONEY_OVERLAY_PRIORITY.dialog}
+          onDeactivate={noop}
+        >
+          Dialog
+        </HoneyOverlay>
+
+        <HoneyOverlay
+          active={true}
+          overlayId="popover-overlay-id"
+          priority={popoverPriority}
+          onDeactivate={noop}
+        >
+          {({ overlay }) => <div data-testid="popover-z-index">{overlay?.zIndex}</div>}
+        </HoneyOverlay>
+      </HoneyLayoutProvider>
+    );
+
+    const { getByTestId, rerender } = render(renderUpdatedPopover(HONEY_OVERLAY_PRIORITY.popover));
+
+    expect(getByTestId('top-level-overlay')).toHaveTextContent('dialog-overlay-id');
+
+    rerender(renderUpdatedPopover(HONEY_OVERLAY_PRIORITY.toast));
+
+    expect(getByTestId('top-level-overlay')).toHaveTextContent('popover-overlay-id');
+    expect(getByTestId('popover-z-index')).toHaveTextContent(
+      String(HONEY_OVERLAY_BASE_Z_INDEX + HONEY_OVERLAY_PRIORITY.toast),
+    );
+  });
+
+  it('should stack overlays with the same priority in registration order', () => {
+    const renderSamePriorityOverlays = (isSecondActive: boolean) => (
+      <HoneyLayoutProvider theme={themeMock}>
+        <HoneyOverlay active={true} onDeactivate={noop}>
+          {({ overlay }) => <div data-testid="first-z-index">{overlay?.zIndex}</div>}
+        </HoneyOverlay>
+
+        <HoneyOverlay active={isSecondActive} onDeactivate={noop}>
+          {({ overlay }) => <div data-testid="second-z-index">{overlay?.zIndex}</div>}
+        </HoneyOverlay>
+      </HoneyLayoutProvider>
+    );
+
+    const { getByTestId, rerender } = render(renderSamePriorityOverlays(false));
+
+    rerender(renderSamePriorityOverlays(true));
+
+    expect(getByTestId('first-z-index')).toHaveTextContent(String(HONEY_OVERLAY_BASE_Z_INDEX));
+    expect(getByTestId('second-z-index')).toHaveTextContent(String(HONEY_OVERLAY_BASE_Z_INDEX + 1));
+  });
+});
+
+describe('[HoneyOverlay]: modal', () => {
+  const renderModal = (isModalActive: boolean, isNestedActive = false) => (
+    <HoneyLayoutProvider theme={themeMock}>
+      <div data-testid="outside" aria-hidden="false">
+        Outside
+      </div>
+
+      <div data-testid="ignored" data-honey-overlay-ignore="">
+        Ignored
+      </div>
+
+      <HoneyOverlay active={isModalActive} onDeactivate={noop} modal={true}>
+        <div data-testid="modal-content">Modal</div>
+
+        {createPortal(
+          <HoneyOverlay active={isNestedActive} onDeactivate={noop}>
+            <div data-testid="nested-content">Nested</div>
+          </HoneyOverlay>,
+          document.body,
+        )}
+      </HoneyOverlay>
+    </HoneyLayoutProvider>
+  );
+
+  it('should make the content outside the active modal overlay inert', () => {
+    const { getByTestId, rerender } = render(renderModal(false));
+
+    rerender(renderModal(true));
+
+    expect(getByTestId('outside')).toHaveAttribute('inert');
+    expect(getByTestId('outside')).toHaveAttribute('aria-hidden', 'true');
+    expect(getByTestId('modal-content').closest('[inert]')).toBeNull();
+
+    rerender(renderModal(false));
+
+    expect(getByTestId('outside')).not.toHaveAttribute('inert');
+    expect(getByTestId('outside')).toHaveAttribute('aria-hidden', 'false');
+  });
+
+  it('should keep elements marked with the ignore attribute interactive', () => {
+    const { getByTestId, rerender } = render(renderModal(false));
+
+    rerender(renderModal(true));
+
+    expect(getByTestId('outside')).toHaveAttribute('inert');
+    expect(getByTestId('ignored')).not.toHaveAttribute('inert');
+    expect(getByTestId('ignored')).not.toHaveAttribute('aria-hidden');
+  });
+
+  it('should keep overlays opened from the modal overlay interactive', () => {
+    const { getByTestId, rerender } = render(renderModal(false));
+
+    rerender(renderModal(true));
+    rerender(renderModal(true, true));
+
+    expect(getByTestId('nested-content').closest('[inert]')).toBeNull();
+    expect(getByTestId('modal-content').closest('[inert]')).toBeNull();
+    expect(getByTestId('outside')).toHaveAttribute('inert');
+  });
+});
+
+describe('[HoneyOverlay]: nested overlays', () => {
+  const OverlayChildren = ({ overlayId }: { overlayId: string }) => {
+    const { getOverlayChildren, getOverlaysSnapshot, subscribeOverlays } = useHoneyLayout();
+
+    useSyncExternalStore(subscribeOverlays, getOverlaysSnapshot);
+
+    return (
+      <div data-testid="overlay-children">
+        {getOverlayChildren(overlayId)
+          .map(overlay => overlay.id)
+          .join(',')}
+      </div>
+    );
+  };
+
+  const renderNestedOverlays = (isDialogActive: boolean, onMenuDeactivate = noop) => (
+    <HoneyLayoutProvider theme={themeMock}>
+      <OverlayChildren overlayId="dialog" />
+
+      <HoneyOverlay active={isDialogActive} overlayId="dialog" onDeactivate={noop}>
+        <HoneyOverlay active={true} overlayId="popup" onDeactivate={noop}>
+          {createPortal(
+            <HoneyOverlay active={true} overlayId="menu" onDeactivate={onMenuDeactivate}>
+              Menu
+            </HoneyOverlay>,
+            document.body,
+          )}
+        </HoneyOverlay>
+      </HoneyOverlay>
+    </HoneyLayoutProvider>
+  );
+
+  it('should register nested overlays as children of the closest overlay', () => {
+    const { getByTestId } = render(renderNestedOverlays(true));
+
+    expect(getByTestId('overlay-children')).toHaveTextContent('popup');
+  });
+
+  it('should cascade the deactivation of a parent to all its descendants', () => {
+    const onMenuDeactivate = vitest.fn();
+
+    const { getByTestId, rerender } = render(renderNestedOverlays(true, onMenuDeactivate));
+
+    rerender(renderNestedOverlays(false, onMenuDeactivate));
+
+    expect(onMenuDeactivate).toHaveBeenCalledTimes(1);
+    expect(getByTestId('overlay-children')).toBeEmptyDOMElement();
+  });
+
+  it('should keep the descendants registered when the parent overlay is updated', () => {
+    const onMenuDeactivate = vitest.fn();
+
+    const renderUpdatedDialog = (isDialogModal: boolean) => (
+      <HoneyLayoutProvider theme={themeMock}>
+        <OverlayChildren overlayId="dialog" />
+
+        <HoneyOverlay active={true} overlayId="dialog" modal={isDialogModal} onDeactivate={noop}>
+          <HoneyOverlay active={true} overlayId="menu" onDeactivate={onMenuDeactivate}>
+            Menu
+          </HoneyOverlay>
+        </HoneyOverlay>
+      </HoneyLayoutProvider>
+    );
+
+    const { getByTestId, rerender } = render(renderUpdatedDialog(false));
+
+    rerender(renderUpdatedDialog(true));
+
+    expect(onMenuDeactivate).not.toHaveBeenCalled();
+    expect(getByTestId('overlay-children')).toHaveTextContent('menu');
+  });
+
+  it('should apply updated `listenKeys` to the registered overlay', () => {
+    const onKeyUp = vitest.fn();
+
+    const renderUpdatedOverlay = (listenKey: 'Enter' | 'Escape') => (
+      <HoneyLayoutProvider theme={themeMock}>
+        <HoneyOverlay active={true} listenKeys={[listenKey]} onKeyUp={onKeyUp} onDeactivate={noop}>
+          Overlay
+        </HoneyOverlay>
+      </HoneyLayoutProvider>
+    );
+
+    const { rerender } = render(renderUpdatedOverlay('Enter'));
+
+    rerender(renderUpdatedOverlay('Escape'));
+
+    fireEvent.keyUp(document, { code: 'Enter' });
+
+    expect(onKeyUp).not.toHaveBeenCalled();
+
+    fireEvent.keyUp(document, { code: 'Escape' });
+
+    expect(onKeyUp).toHaveBeenCalledTimes(1);
+  });
+
+  it('should register the overlay again when its ID changes', () => {
+    const renderUpdatedOverlay = (overlayId: string) => (
+      <HoneyLayoutProvider theme={themeMock}>
+        <TopLevelOverlay />
+
+        <HoneyOverlay active={true} overlayId={overlayId} onDeactivate={noop}>
+          Overlay
+        </HoneyOverlay>
+      </HoneyLayoutProvider>
+    );
+
+    const TopLevelOverlay = () => {
+      const topLevelOverlay = useHoneyTopLevelOverlay();
+
+      return <div data-testid="top-level-overlay">{topLevelOverlay?.id}</div>;
+    };
+
+    const { getByTestId, rerender } = render(renderUpdatedOverlay('first-overlay-id'));
+
+    rerender(renderUpdatedOverlay('second-overlay-id'));
+
+    expect(getByTestId('top-level-overlay')).toHaveTextContent('second-overlay-id');
+  });
+
+  it('should not leave orphaned registrations when an ancestor unmounts first', () => {
+    const DetachedChildOverlay = () => {
+      useRegisterHoneyOverlay(true, {
+        id: 'menu',
+        parentId: 'dialog',
+        onKeyUp: noop,
+      });
+
+      return null;
+    };
+
+    const OverlayCount = () => {
+      const { getOverlaysSnapshot, subscribeOverlays } = useHoneyLayout();
+
+      const overlays = useSyncExternalStore(subscribeOverlays, getOverlaysSnapshot);
+
+      return <div data-testid="overlay-count">{overlays.length}</div>;
+    };
+
+    const renderTree = (isDialogMounted: boolean) => (
+      <HoneyLayoutProvider theme={themeMock}>
+        <OverlayCount />
+
+        {isDialogMounted && (
+          <HoneyOverlay active={true} overlayId="dialog" onDeactivate={noop}>
+            Dialog
+          </HoneyOverlay>
+        )}
+
+        <DetachedChildOverlay />
+      </HoneyLayoutProvider>
+    );
+
+    const { getByTestId, rerender } = render(renderTree(true));
+
+    expect(getByTestId('overlay-count')).toHaveTextContent('2');
+
+    rerender(renderTree(false));
+
+    expect(getByTestId('overlay-count')).toHaveTextContent('0');
+  });
+});
+
+describe('[HoneyOverlay]: history', () => {
+  const SettingsOverlay = ({ onDeactivate }: { onDeactivate?: () => void }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    useHoneyOverlayDeepLink('settings', () => setIsOpen(true));
+
+    const handleDeactivate = () => {
+      onDeactivate?.();
+      setIsOpen(false);
+    };
+
+    return (
+      <>
+        <button onClick={() => setIsOpen(true)}>Open</button>
+
+        {isOpen && (
+          <HoneyOverlay active={true} historyKey="settings" onDeactivate={handleDeactivate}>
+            {({ deactivateOverlay }) => (
+              <div data-testid="settings">
+                <button onClick={deactivateOverlay}>Close</button>
+              </div>
+            )}
+          </HoneyOverlay>
+        )}
+      </>
+    );
+  };
+
+  const renderWithHistory = (history: HoneyOverlayHistory, onDeactivate?: () => void) =>
+    render(
+      <HoneyLayoutProvider theme={themeMock} overlayHistory={history}>
+        <SettingsOverlay onDeactivate={onDeactivate} />
+      </HoneyLayoutProvider>,
+    );
+
+  it('should push a history entry when an overlay with a `historyKey` is registered', () => {
+    const history = createHoneyMemoryHistory('/page?tab=general');
+
+    const { getByText } = renderWithHistory(history);
+
+    fireEvent.click(getByText('Open'));
+
+    expect(history.getUrl()).toBe('/page?tab=general&overlay=settings');
+  });
+
+  it('should deactivate the overlay through `onDeactivate` when navigating back', () => {
+    const onDeactivate = vitest.fn();
+    const history = createHoneyMemoryHistory('/page');
+
+    const { getByText, queryByTestId } = renderWithHistory(history, onDeactivate);
+
+    fireEvent.click(getByText('Open'));
+
+    act(() => history.go(-1));
+
+    expect(onDeactivate).toHaveBeenCalledTimes(1);
+    expect(queryByTestId('settings')).toBeNull();
+    expect(history.getUrl()).toBe('/page');
+  });
+
+  it('should remove the history entry when the overlay is closed from the UI', () => {
+    const history = createHoneyMemoryHistory('/page');
+
+    const { getByText, queryByTestId } = renderWithHistory(history);
+
+    fireEvent.click(getByText('Open'));
+    fireEvent.click(getByText('Close'));
+
+    expect(queryByTestId('settings')).toBeNull();
+    expect(history.getUrl()).toBe('/page');
+  });
+
+  it('should open the overlay from a deep link and close it with the Back button', () => {
+    const history = createHoneyMemoryHistory('/page?overlay=settings');
+
+    const { queryByTestId } = renderWithHistory(history);
+
+    expect(queryByTestId('settings')).not.toBeNull();
+
+    act(() => history.go(-1));
+
+    expect(queryByTestId('settings')).toBeNull();
+    expect(history.getUrl()).toBe('/page');
+  });
+
+  it('should keep the state of the deep link entry placed below the overlay', () => {
+    const history = createHoneyMemoryHistory('/page?overlay=settings');
+    history.replace({ routerKey: 'page' }, '/page?overlay=settings');
+
+    renderWithHistory(history);
+
+    act(() => history.go(-1));
+
+    expect(history.getState()).toEqual({ routerKey: 'page' });
+    expect(history.getUrl()).toBe('/page');
+  });
+
+  it('should reopen the overlay when navigating forward to its entry', () => {
+    const history = createHoneyMemoryHistory('/page');
+
+    const { getByText, queryByTestId } = renderWithHistory(history);
+
+    fireEvent.click(getByText('Open'));
+
+    act(() => history.go(-1));
+    act(() => history.go(1));
+
+    expect(queryByTestId('settings')).not.toBeNull();
+    expect(history.getUrl()).toBe('/page?overlay=settings');
+  });
+
+  it('should skip the entry of an overlay closed below another overlay when navigating back', () => {
+    const HistoryOverlay = ({ historyKey }: { historyKey: string }) => {
+      const [isOpen, setIsOpen] = useState(false);
+
+      return (
+        <>
+          <button onClick={() => setIsOpen(true)}>Open {historyKey}</button>
+
+          {isOpen && (
+            <HoneyOverlay
+              active={true}
+              historyKey={historyKey}
+              onDeactivate={() => setIsOpen(false)}
+            >
+              <div data-testid={historyKey}>
+                <button onClick={() => setIsOpen(false)}>Close {historyKey}</button>
+              </div>
+            </HoneyOverlay>
+          )}
+        </>
+      );
+    };
+
+    const history = createHoneyMemoryHistory('/page');
+
+    const { getByText, queryByTestId } = render(
+      <HoneyLayoutProvider theme={themeMock} overlayHistory={history}>
+        <HistoryOverlay historyKey="settings" />
+        <HistoryOverlay historyKey="profile" />
+      </HoneyLayoutProvider>,
+    );
+
+    fireEvent.click(getByText('Open settings'));
+    fireEvent.click(getByText('Open profile'));
+    fireEvent.click(getByText('Close settings'));
+
+    expect(history.getUrl()).toBe('/page?overlay=profile');
+
+    act(() => history.go(-1));
+
+    expect(queryByTestId('profile')).toBeNull();
+    expect(history.getUrl()).toBe('/page');
+  });
+
+  it('should push the entry of an overlay opened while the history navigates', () => {
+    const memoryHistory = createHoneyMemoryHistory('/page');
+    const pendingDeltas: number[] = [];
+
+    // Navigates only when flushed, like the asynchronous browser history
+    const history: HoneyOverlayHistory = {
+      ...memoryHistory,
+      go: delta => {
+        pendingDeltas.push(delta);
+      },
+    };
+
+    const { getByText, queryByTestId } = renderWithHistory(history);
+
+    fireEvent.click(getByText('Open'));
+    fireEvent.click(getByText('Close'));
+    fireEvent.click(getByText('Open'));
+
+    act(() => pendingDeltas.splice(0).forEach(delta => memoryHistory.go(delta)));
+
+    expect(queryByTestId('settings')).not.toBeNull();
+    expect(history.getUrl()).toBe('/page?overlay=settings');
+  });
+});
@@ -2,10 +2,17 @@ export * from './HoneyBox';
 export * from './HoneyFlex';
 export * from './HoneyGrid';
 export * from './HoneyGridColumn';
+export * from './HoneyCssGrid';
 export * from './HoneyList';
+export * from './HoneyVirtualGrid';
 export * from './HoneyStatusContent';
 export * from './HoneyLazyContent';
 export * from './HoneyOverlay';
 export * from './HoneyPopup';
 export * from './HoneyContextMenu';
 export * from './HoneyLayerRegistry';
+export * from './HoneyModal';
+export * from './HoneyDrawer';
+export * from './HoneyToast';
+export * from './HoneyOverlayInspector';
+export * from './HoneyOverlayHost';
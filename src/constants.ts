@@ -4,6 +4,38 @@ export const __DEV__ = ENV !== 'production';
 
 export const HONEY_LAYOUT_CSS_PROPERTY_PREFIX = '$';
 
+/**
+ * Built-in overlay priorities. Overlays with a higher priority are always stacked above overlays
+ * with a lower priority, regardless of the order in which they were registered.
+ *
+ * Any number can be used as a priority, so custom levels can be placed between the built-in ones.
+ */
+export const HONEY_OVERLAY_PRIORITY = {
+  default: 0,
+  popover: 100,
+  dialog: 200,
+  toast: 300,
+  critical: 400,
+} as const;
+
+/**
+ * The z-index of the lowest overlay with the default priority.
+ *
+ * The z-index of an overlay is computed from this base value and the overlay priority.
+ */
+export const HONEY_OVERLAY_BASE_Z_INDEX = 1000;
+
+/**
+ * Attribute marking elements that are never made inert or hidden from assistive technologies while
+ * a modal overlay is open, such as developer tools rendered next to the application.
+ */
+export const HONEY_OVERLAY_IGNORE_ATTRIBUTE = 'data-honey-overlay-ignore';
+
+/**
+ * The URL search parameter holding the `historyKey` of the top-level overlay with a history entry.
+ */
+export const HONEY_OVERLAY_HISTORY_SEARCH_PARAM = 'overlay';
+
 if (__DEV__ && typeof window !== 'undefined' && !process.env.VITEST_WORKER_ID) {
   console.info(
     '[@react-hive/honey-layout]: You are running in development mode. ' +
@@ -6,6 +6,11 @@ import type {
   HoneyScreenState,
   HoneyOverlayId,
   HoneyActiveOverlay,
+  HoneyOverlayCustomEventType,
+  HoneyOverlayEventRecord,
+  HoneyRegisteredHotkey,
+  HoneyHotkeyConfig,
+  HoneyHotkeyId,
 } from '../types';
 
 /**
@@ -14,7 +19,7 @@ import type {
  * The returned array keeps the same identity until the overlay stack changes, allowing it to
  * be consumed safely by `useSyncExternalStore`. Consumers must not mutate the snapshot.
  *
- * @returns The active overlays in registration order.
+ * @returns The active overlays in stack order, with the top-level overlay last.
  */
 export type HoneyGetOverlaysSnapshot = () => readonly HoneyActiveOverlay[];
 
@@ -26,6 +31,29 @@ export type HoneyGetOverlaysSnapshot = () => readonly HoneyActiveOverlay[];
  */
 export type HoneySubscribeOverlays = (subscriber: () => void) => () => void;
 
+/**
+ * Subscribes to overlay events delivered to overlay listeners.
+ *
+ * Intended for debugging tools such as `HoneyOverlayInspector`.
+ *
+ * @param subscriber - Callback invoked every time an overlay receives an event.
+ * @returns A cleanup function that removes the subscriber.
+ */
+export type HoneySubscribeOverlayEvents = (
+  subscriber: (eventRecord: HoneyOverlayEventRecord) => void,
+) => () => void;
+
+/**
+ * Subscribes to keydown events that are not handled by any overlay.
+ *
+ * A keydown event is unhandled when it continues past the bottom of the overlay stack and no
+ * overlay handles its key on keyup.
+ *
+ * @param subscriber - Callback invoked with every unhandled keydown event.
+ * @returns A cleanup function that removes the subscriber.
+ */
+export type HoneySubscribeUnhandledKeyDown = (subscriber: (e: KeyboardEvent) => void) => () => void;
+
 /**
  * Unregisters a previously registered overlay.
  *
@@ -41,6 +69,97 @@ export type HoneyUnregisterOverlay = (targetOverlayId: HoneyOverlayId) => void;
  */
 export type HoneyRegisterOverlay = (overlayConfig: HoneyOverlayConfig) => HoneyActiveOverlay;
 
+/**
+ * Updates the configuration of a registered overlay in place.
+ *
+ * @param overlayId - The ID of the overlay to update.
+ * @param overlayConfig - The new configuration for the overlay.
+ */
+export type HoneyUpdateOverlay = (
+  overlayId: HoneyOverlayId,
+  overlayConfig: HoneyOverlayConfig,
+) => void;
+
+/**
+ * Returns the overlays opened directly from an overlay.
+ *
+ * @param overlayId - The ID of the parent overlay.
+ * @returns The child overlays in stack order.
+ */
+export type HoneyGetOverlayChildren = (overlayId: HoneyOverlayId) => HoneyActiveOverlay[];
+
+/**
+ * Registers a function that opens the overlay with the given history key.
+ *
+ * The function is called right away when the current URL is a deep link to the overlay, and
+ * when the history navigates forward to the entry of the overlay.
+ *
+ * @param historyKey - The `historyKey` of the overlay.
+ * @param open - Opens the overlay.
+ * @returns A cleanup function that removes the deep link.
+ */
+export type HoneyRegisterOverlayDeepLink = (historyKey: string, open: () => void) => () => void;
+
+/**
+ * Options for dispatching a custom overlay event.
+ */
+export interface HoneyDispatchOverlayEventOptions {
+  /**
+   * ID of the overlay that receives the event first.
+   *
+   * When omitted, the event is delivered to the top-level overlay.
+   */
+  overlayId?: HoneyOverlayId;
+}
+
+/**
+ * Dispatches a user-defined event through the overlay stack.
+ *
+ * @param eventType - The custom event name.
+ * @param detail - Optional payload exposed as `e.detail` to listeners.
+ * @param options - Optional dispatch options.
+ *
+ * @returns `false` when a listener prevented the default action of the event, otherwise `true`.
+ */
+export type HoneyDispatchOverlayEvent = <Detail = unknown>(
+  eventType: HoneyOverlayCustomEventType,
+  detail?: Detail,
+  options?: HoneyDispatchOverlayEventOptions,
+) => boolean;
+
+/**
+ * Returns the current registered keyboard shortcuts snapshot.
+ *
+ * The returned array keeps the same identity until the registry changes. Consumers must not
+ * mutate the snapshot.
+ *
+ * @returns The registered shortcuts in registration order.
+ */
+export type HoneyGetHotkeysSnapshot = () => readonly HoneyRegisteredHotkey[];
+
+/**
+ * Subscribes to registered keyboard shortcut changes.
+ *
+ * @param subscriber - Callback invoked when a new registry snapshot is available.
+ * @returns A cleanup function that removes the subscriber.
+ */
+export type HoneySubscribeHotkeys = (subscriber: () => void) => () => void;
+
+/**
+ * Registers a keyboard shortcut description.
+ *
+ * @param hotkeyConfig - Description of the shortcut.
+ * @returns The registered shortcut.
+ */
+export type HoneyRegisterHotkey = (hotkeyConfig: HoneyHotkeyConfig) => HoneyRegisteredHotkey;
+
+/**
+ * Unregisters a previously registered keyboard shortcut.
+ *
+ * @param targetHotkeyId - The ID of the shortcut to unregister.
+ */
+export type HoneyUnregisterHotkey = (targetHotkeyId: HoneyHotkeyId) => void;
+
 /**
  * Values and overlay-store operations exposed by `HoneyLayoutProvider`.
  */
@@ -66,9 +185,50 @@ export interface HoneyLayoutContextValue {
    */
   registerOverlay: HoneyRegisterOverlay;
   /**
-   * Unregisters an overlay and publishes a new snapshot when the overlay existed.
+   * Updates a registered overlay without unregistering it or its descendants.
+   */
+  updateOverlay: HoneyUpdateOverlay;
+  /**
+   * Unregisters an overlay together with its descendants and publishes a new snapshot when the
+   * overlay existed.
    */
   unregisterOverlay: HoneyUnregisterOverlay;
+  /**
+   * Returns the overlays opened directly from an overlay.
+   */
+  getOverlayChildren: HoneyGetOverlayChildren;
+  /**
+   * Registers a function that opens an overlay from a deep link or history navigation.
+   */
+  registerOverlayDeepLink: HoneyRegisterOverlayDeepLink;
+  /**
+   * Dispatches a custom event to the top-level overlay or to an overlay by ID.
+   */
+  dispatchOverlayEvent: HoneyDispatchOverlayEvent;
+  /**
+   * Subscribes a consumer to the events received by overlays.
+   */
+  subscribeOverlayEvents: HoneySubscribeOverlayEvents;
+  /**
+   * Subscribes a consumer to the keydown events not handled by any overlay.
+   */
+  subscribeUnhandledKeyDown: HoneySubscribeUnhandledKeyDown;
+  /**
+   * Returns the registered keyboard shortcuts without subscribing the caller to changes.
+   */
+  getHotkeysSnapshot: HoneyGetHotkeysSnapshot;
+  /**
+   * Subscribes a consumer to registered keyboard shortcut changes.
+   */
+  subscribeHotkeys: HoneySubscribeHotkeys;
+  /**
+   * Registers a keyboard shortcut description and publishes a new registry snapshot.
+   */
+  registerHotkey: HoneyRegisterHotkey;
+  /**
+   * Unregisters a keyboard shortcut description.
+   */
+  unregisterHotkey: HoneyUnregisterHotkey;
 }
 
 export const HoneyLayoutContext = createContext<HoneyLayoutContextValue | undefined>(undefined);
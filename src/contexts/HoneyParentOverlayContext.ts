@@ -0,0 +1,24 @@
+import { createContext } from 'react';
+
+import type { HoneyOverlayId } from '../types';
+
+/**
+ * Information about the closest `HoneyOverlay`, provided to the overlays nested in its content.
+ */
+export interface HoneyParentOverlayContextValue {
+  /**
+   * The stacking priority of the parent overlay.
+   *
+   * Nested overlays, such as popups opened from a dialog, never get a lower priority, so they
+   * are always stacked above their parent.
+   */
+  priority: number;
+  /**
+   * The ID of the parent overlay, used as the `parentId` of nested overlays.
+   */
+  overlayId: HoneyOverlayId;
+}
+
+export const HoneyParentOverlayContext = createContext<HoneyParentOverlayContextValue | undefined>(
+  undefined,
+);
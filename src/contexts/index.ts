@@ -1 +1,2 @@
 export * from './HoneyLayoutContext';
+export * from './HoneyParentOverlayContext';
@@ -0,0 +1,99 @@
+import { css } from '@react-hive/honey-style';
+
+import {
+  applyFromBreakpoint,
+  applyResponsiveStyles,
+  hasResponsiveValue,
+  isResponsiveValueEqual,
+  resolveResponsiveValue,
+} from '../helpers';
+
+describe('[resolveResponsiveValue]: resolve a responsive value at a breakpoint', () => {
+  it('should return a value that is not set per breakpoint at any breakpoint', () => {
+    expect(resolveResponsiveValue(3, 'xs')).toBe(3);
+    expect(resolveResponsiveValue(3, 'xl')).toBe(3);
+  });
+
+  it('should return the value of the breakpoint', () => {
+    expect(resolveResponsiveValue({ xs: 1, md: 3 }, 'md')).toBe(3);
+  });
+
+  it('should fall back to the value of the closest smaller breakpoint', () => {
+    expect(resolveResponsiveValue({ xs: 1, md: 3 }, 'sm')).toBe(1);
+    expect(resolveResponsiveValue({ xs: 1, md: 3 }, 'xl')).toBe(3);
+  });
+
+  it('should return `undefined` when no smaller breakpoint has a value', () => {
+    expect(resolveResponsiveValue({ md: 3 }, 'sm')).toBeUndefined();
+    expect(resolveResponsiveValue(undefined, 'md')).toBeUndefined();
+  });
+});
+
+describe('[hasResponsiveValue]: check whether a responsive value is set at a breakpoint', () => {
+  it('should check the own value of the breakpoint', () => {
+    expect(hasResponsiveValue({ xs: 1, md: 3 }, 'md')).toBe(true);
+    expect(hasResponsiveValue({ xs: 1, md: 3 }, 'lg')).toBe(false);
+  });
+
+  it('should treat a value that is not set per breakpoint as the `xs` value', () => {
+    expect(hasResponsiveValue(3, 'xs')).toBe(true);
+    expect(hasResponsiveValue(3, 'md')).toBe(false);
+    expect(hasResponsiveValue(undefined, 'xs')).toBe(false);
+  });
+});
+
+describe('[isResponsiveValueEqual]: compare responsive values per breakpoint', () => {
+  it('should compare values that are not set per breakpoint', () => {
+    expect(isResponsiveValueEqual(3, 3)).toBe(true);
+    expect(isResponsiveValueEqual(3, 4)).toBe(false);
+    expect(isResponsiveValueEqual(undefined, 3)).toBe(false);
+  });
+
+  it('should compare values per breakpoint by their values', () => {
+    expect(isResponsiveValueEqual({ xs: 1, md: 3 }, { xs: 1, md: 3 })).toBe(true);
+    expect(isResponsiveValueEqual({ xs: 1, md: 3 }, { xs: 1, md: 4 })).toBe(false);
+    expect(isResponsiveValueEqual({ xs: 1 }, { xs: 1, md: 3 })).toBe(false);
+  });
+
+  it('should not treat a value per breakpoint as equal to a fixed value', () => {
+    expect(isResponsiveValueEqual({ xs: 3 }, 3)).toBe(false);
+  });
+});
+
+describe('[applyFromBreakpoint]: apply styles from a breakpoint up', () => {
+  it('should not wrap the styles of the `xs` breakpoint in a media query', () => {
+    const styles = css`
+      gap: 8px;
+    `;
+
+    expect(applyFromBreakpoint('xs', styles)).toBe(styles);
+    expect(applyFromBreakpoint('md', styles)).not.toBe(styles);
+  });
+});
+
+describe('[applyResponsiveStyles]: generate styles per breakpoint', () => {
+  it('should generate styles only for the breakpoints where a value is set', () => {
+    const getStyles = vitest.fn(
+      () => css`
+        gap: 8px;
+      `,
+    );
+
+    const styles = applyResponsiveStyles([1, { md: 2 }], getStyles);
+
+    expect(getStyles).toHaveBeenCalledTimes(2);
+    expect(getStyles).toHaveBeenCalledWith('xs');
+    expect(getStyles).toHaveBeenCalledWith('md');
+    expect(styles.map(breakpointStyles => breakpointStyles !== null)).toEqual([
+      true,
+      false,
+      true,
+      false,
+      false,
+    ]);
+  });
+
+  it('should skip a breakpoint when no styles are returned for it', () => {
+    expect(applyResponsiveStyles([1], () => null)).toEqual([null, null, null, null, null]);
+  });
+});
@@ -0,0 +1,15 @@
+import type { Nullable } from '../types';
+
+/**
+ * Checks whether an event target is an element that receives text input: an input, textarea,
+ * select or content editable element.
+ *
+ * @param target - The event target to check.
+ *
+ * @returns `true` when the target is an editable element.
+ */
+export const isEditableElement = (target: Nullable<EventTarget>) =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
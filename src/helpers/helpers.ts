@@ -1,6 +1,7 @@
 import * as CSS from 'csstype';
 import {
   css,
+  HONEY_BREAKPOINTS,
   isThemeColorValue,
   resolveColor,
   resolveSpacing,
@@ -20,6 +21,7 @@ import type {
   HoneyPrefixedCssProperties,
   HoneyPrefixedCssProperty,
   HoneyCssPropertyValue,
+  HoneyResponsiveValue,
   HoneyScreenState,
 } from '../types';
 
@@ -256,3 +258,119 @@ export const resolveScreenState = (
     isXl: currentBreakpoint === 'xl',
   };
 };
+
+/**
+ * Resolves the value of a responsive value at a breakpoint.
+ *
+ * A breakpoint without its own value takes the value of the closest smaller breakpoint, in the same way
+ * as the media queries applied from each breakpoint up.
+ *
+ * @param value - A value applied at any screen width, or a value per breakpoint.
+ * @param breakpoint - The name of the breakpoint.
+ *
+ * @returns The value at the breakpoint, or `undefined` when neither the breakpoint nor a smaller one
+ *          has a value.
+ */
+export const resolveResponsiveValue = <Value extends string | number | boolean>(
+  value: HoneyResponsiveValue<Value> | undefined,
+  breakpoint: HoneyBreakpointName,
+): Value | undefined => {
+  if (typeof value !== 'object') {
+    return value;
+  }
+
+  for (let index = HONEY_BREAKPOINTS.indexOf(breakpoint); index >= 0; index--) {
+    const breakpointValue = value[HONEY_BREAKPOINTS[index]];
+
+    if (breakpointValue !== undefined) {
+      return breakpointValue;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Determines whether a responsive value sets its own value at a breakpoint. A value that is not set per
+ * breakpoint belongs to the `xs` breakpoint, which applies at any screen width.
+ *
+ * @param value - A value applied at any screen width, or a value per breakpoint.
+ * @param breakpoint - The name of the breakpoint.
+ *
+ * @returns Returns true if the value changes at the breakpoint.
+ */
+export const hasResponsiveValue = <Value extends string | number | boolean>(
+  value: HoneyResponsiveValue<Value> | undefined,
+  breakpoint: HoneyBreakpointName,
+) =>
+  typeof value === 'object'
+    ? value[breakpoint] !== undefined
+    : breakpoint === 'xs' && value !== undefined;
+
+/**
+ * Compares two responsive values by their values per breakpoint, so an object literal that is created
+ * again on each render equals the previous one.
+ *
+ * @param value - A value applied at any screen width, or a value per breakpoint.
+ * @param otherValue - The responsive value to compare with.
+ *
+ * @returns Returns true if both values set the same value at every breakpoint.
+ */
+export const isResponsiveValueEqual = <Value extends string | number | boolean>(
+  value: HoneyResponsiveValue<Value> | undefined,
+  otherValue: HoneyResponsiveValue<Value> | undefined,
+) => {
+  if (value === otherValue) {
+    return true;
+  }
+
+  if (typeof value !== 'object' || typeof otherValue !== 'object') {
+    return false;
+  }
+
+  return HONEY_BREAKPOINTS.every(breakpoint => value[breakpoint] === otherValue[breakpoint]);
+};
+
+/**
+ * Applies styles from a breakpoint up. Styles of the `xs` breakpoint apply at any screen width, so they
+ * are not wrapped in a media query.
+ *
+ * @param breakpoint - The name of the breakpoint.
+ * @param styles - The styles applied from the breakpoint up.
+ *
+ * @returns The styles, wrapped in a media query for breakpoints other than `xs`.
+ */
+export const applyFromBreakpoint = (
+  breakpoint: HoneyBreakpointName,
+  styles: ReturnType<typeof css>,
+) =>
+  breakpoint === 'xs'
+    ? styles
+    : css`
+        @honey-media (${breakpoint}:up) {
+          ${styles};
+        }
+      `;
+
+/**
+ * Generates styles for each breakpoint where any of the responsive values sets its own value, applied
+ * from that breakpoint up.
+ *
+ * @param values - The responsive values the styles depend on.
+ * @param getStyles - Returns the styles at a breakpoint, or `null` to skip the breakpoint.
+ *
+ * @returns The styles of each breakpoint.
+ */
+export const applyResponsiveStyles = (
+  values: (HoneyResponsiveValue<string | number | boolean> | undefined)[],
+  getStyles: (breakpoint: HoneyBreakpointName) => ReturnType<typeof css> | null,
+) =>
+  HONEY_BREAKPOINTS.map(breakpoint => {
+    if (!values.some(value => hasResponsiveValue(value, breakpoint))) {
+      return null;
+    }
+
+    const styles = getStyles(breakpoint);
+
+    return styles && applyFromBreakpoint(breakpoint, styles);
+  });
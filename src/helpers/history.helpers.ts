@@ -0,0 +1,73 @@
+import type { HoneyOverlayHistory } from '../types';
+
+/**
+ * Creates an overlay history backed by `window.history`.
+ *
+ * @returns The overlay history that pushes browser history entries and listens to `popstate`.
+ */
+export const createHoneyBrowserHistory = (): HoneyOverlayHistory => ({
+  getUrl: () => `${window.location.pathname}${window.location.search}${window.location.hash}`,
+  getState: () => window.history.state,
+  push: (state, url) => window.history.pushState(state, '', url),
+  replace: (state, url) => window.history.replaceState(state, '', url),
+  go: delta => window.history.go(delta),
+  listen: listener => {
+    window.addEventListener('popstate', listener);
+
+    return () => {
+      window.removeEventListener('popstate', listener);
+    };
+  },
+});
+
+/**
+ * Creates an overlay history that keeps its entries in memory.
+ *
+ * Unlike the browser history, navigation with `go()` notifies the listeners synchronously.
+ *
+ * @param initialUrl - The URL of the first history entry.
+ *
+ * @returns The in-memory overlay history.
+ */
+export const createHoneyMemoryHistory = (initialUrl = '/'): HoneyOverlayHistory => {
+  const entries: { state: unknown; url: string }[] = [
+    {
+      state: null,
+      url: initialUrl,
+    },
+  ];
+
+  const listeners = new Set<() => void>();
+
+  let index = 0;
+
+  return {
+    getUrl: () => entries[index].url,
+    getState: () => entries[index].state,
+    push: (state, url) => {
+      // Entries after the current one are discarded, like in the browser history
+      entries.splice(index + 1, entries.length, { state, url });
+
+      index++;
+    },
+    replace: (state, url) => {
+      entries[index] = { state, url };
+    },
+    go: delta => {
+      const nextIndex = Math.min(Math.max(index + delta, 0), entries.length - 1);
+
+      if (nextIndex !== index) {
+        index = nextIndex;
+
+        listeners.forEach(listener => listener());
+      }
+    },
+    listen: listener => {
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -1,2 +1,4 @@
 export * from './react.helpers';
+export * from './dom.helpers';
 export * from './helpers';
+export * from './history.helpers';
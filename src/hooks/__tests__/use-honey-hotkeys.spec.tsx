@@ -0,0 +1,241 @@
+import type { ReactElement } from 'react';
+import React from 'react';
+import { noop } from '@react-hive/honey-utils';
+import { fireEvent, render } from '@testing-library/react';
+
+import { themeMock } from '../../__mocks__';
+import { useHoneyHotkeys, useHoneyRegisteredHotkeys } from '../../hooks';
+import { HoneyLayoutProvider } from '../../providers';
+import { HoneyOverlay } from '../../components';
+import type { HoneyHotkeyBinding, UseHoneyHotkeysOptions } from '../../hooks';
+
+const customRender = (element: ReactElement) =>
+  render(<HoneyLayoutProvider theme={themeMock}>{element}</HoneyLayoutProvider>);
+
+interface HotkeysProps {
+  bindings: HoneyHotkeyBinding[];
+  options?: UseHoneyHotkeysOptions;
+}
+
+const Hotkeys = ({ bindings, options }: HotkeysProps) => {
+  useHoneyHotkeys(bindings, options);
+
+  return null;
+};
+
+describe('[useHoneyHotkeys]: page-level bindings', () => {
+  it('should trigger a binding when the key combination is pressed', () => {
+    const handler = vitest.fn();
+
+    customRender(<Hotkeys bindings={[{ keys: 'Ctrl+K', handler }]} />);
+
+    fireEvent.keyDown(document, { code: 'KeyK' });
+
+    expect(handler).not.toHaveBeenCalled();
+
+    const e = new KeyboardEvent('keydown', { code: 'KeyK', ctrlKey: true, cancelable: true });
+    document.dispatchEvent(e);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(e.defaultPrevented).toBe(true);
+  });
+
+  it('should require the exact modifier state', () => {
+    const handler = vitest.fn();
+
+    customRender(<Hotkeys bindings={[{ keys: 'Shift+ArrowDown', handler }]} />);
+
+    fireEvent.keyDown(document, { code: 'ArrowDown', shiftKey: true, ctrlKey: true });
+
+    expect(handler).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(document, { code: 'ArrowDown', shiftKey: true });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should trigger a sequence only when its steps are typed in order', () => {
+    const handler = vitest.fn();
+
+    customRender(<Hotkeys bindings={[{ keys: 'g g', handler }]} />);
+
+    fireEvent.keyDown(document, { code: 'KeyG' });
+    fireEvent.keyDown(document, { code: 'KeyH' });
+    fireEvent.keyDown(document, { code: 'KeyG' });
+
+    expect(handler).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(document, { code: 'KeyG' });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reset a sequence after the sequence timeout', () => {
+    vitest.useFakeTimers();
+
+    const handler = vitest.fn();
+
+    customRender(
+      <Hotkeys bindings={[{ keys: 'g g', handler }]} options={{ sequenceTimeout: 500 }} />,
+    );
+
+    fireEvent.keyDown(document, { code: 'KeyG' });
+    vitest.advanceTimersByTime(600);
+    fireEvent.keyDown(document, { code: 'KeyG' });
+
+    expect(handler).not.toHaveBeenCalled();
+
+    vitest.useRealTimers();
+  });
+
+  it('should not trigger a binding while an input is focused', () => {
+    const handler = vitest.fn();
+
+    const { getByTestId } = customRender(
+      <>
+        <input data-testid="input" />
+
+        <Hotkeys bindings={[{ keys: 'g', handler }]} />
+      </>,
+    );
+
+    fireEvent.keyDown(getByTestId('input'), { code: 'KeyG' });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should not trigger page-level bindings for keys handled by an active overlay', () => {
+    const handler = vitest.fn();
+
+    customRender(
+      <>
+        <Hotkeys bindings={[{ keys: 'Escape', handler }]} />
+
+        <HoneyOverlay active={true} onDeactivate={noop}>
+          Overlay
+        </HoneyOverlay>
+      </>,
+    );
+
+    fireEvent.keyDown(document, { code: 'Escape' });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should trigger page-level bindings for keys no active overlay listens for', () => {
+    const handler = vitest.fn();
+
+    customRender(
+      <>
+        <Hotkeys bindings={[{ keys: 'Ctrl+K', handler }]} />
+
+        <HoneyOverlay active={true} onDeactivate={noop} listenKeys={['Escape']}>
+          Overlay
+        </HoneyOverlay>
+      </>,
+    );
+
+    fireEvent.keyDown(document, { code: 'KeyK', ctrlKey: true });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('[useHoneyHotkeys]: overlay bindings', () => {
+  it('should trigger bindings scoped to the active overlay', () => {
+    const handler = vitest.fn();
+
+    customRender(
+      <HoneyOverlay active={true} onDeactivate={noop} overlayId="test-overlay-id">
+        <Hotkeys
+          bindings={[{ keys: 'Enter', handler }]}
+          options={{ overlayId: 'test-overlay-id' }}
+        />
+      </HoneyOverlay>,
+    );
+
+    fireEvent.keyDown(document, { code: 'Enter' });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let keys without a binding reach the overlay below', () => {
+    const parentHandler = vitest.fn();
+    const childHandler = vitest.fn();
+
+    const renderOverlays = (isChildActive: boolean) => (
+      <HoneyLayoutProvider theme={themeMock}>
+        <HoneyOverlay active={true} onDeactivate={noop} overlayId="parent-overlay-id">
+          <Hotkeys
+            bindings={[{ keys: 'Enter', handler: parentHandler }]}
+            options={{ overlayId: 'parent-overlay-id' }}
+          />
+        </HoneyOverlay>
+
+        <HoneyOverlay active={isChildActive} onDeactivate={noop} overlayId="child-overlay-id">
+          <Hotkeys
+            bindings={[{ keys: 'Space', handler: childHandler }]}
+            options={{ overlayId: 'child-overlay-id' }}
+          />
+        </HoneyOverlay>
+      </HoneyLayoutProvider>
+    );
+
+    const { rerender } = render(renderOverlays(false));
+
+    rerender(renderOverlays(true));
+
+    fireEvent.keyDown(document, { code: 'Space' });
+
+    expect(childHandler).toHaveBeenCalledTimes(1);
+    expect(parentHandler).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(document, { code: 'Enter' });
+
+    expect(parentHandler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('[useHoneyHotkeys]: registry', () => {
+  it('should list registered bindings until they are unmounted', () => {
+    const RegisteredHotkeys = () => {
+      const hotkeys = useHoneyRegisteredHotkeys();
+
+      return (
+        <ul>
+          {hotkeys.map(hotkey => (
+            <li key={hotkey.id} data-testid="hotkey">
+              {hotkey.keys.join(', ')}: {hotkey.description}
+            </li>
+          ))}
+        </ul>
+      );
+    };
+
+    const renderHotkeys = (isMounted: boolean) => (
+      <HoneyLayoutProvider theme={themeMock}>
+        {isMounted && (
+          <Hotkeys
+            bindings={[
+              { keys: ['Mod+K', 'Ctrl+P'], description: 'Open palette', handler: noop },
+              { keys: 'g g', description: 'Go to top', handler: noop },
+            ]}
+          />
+        )}
+
+        <RegisteredHotkeys />
+      </HoneyLayoutProvider>
+    );
+
+    const { queryAllByTestId, rerender } = render(renderHotkeys(true));
+
+    expect(queryAllByTestId('hotkey').map(element => element.textContent)).toEqual([
+      'Mod+K, Ctrl+P: Open palette',
+      'g g: Go to top',
+    ]);
+
+    rerender(renderHotkeys(false));
+
+    expect(queryAllByTestId('hotkey')).toHaveLength(0);
+  });
+});
@@ -1,13 +1,20 @@
-import type { ReactElement } from 'react';
-import React from 'react';
+import type { ReactElement, ReactNode } from 'react';
+import React, { useEffect } from 'react';
 import { noop } from '@react-hive/honey-utils';
 import { render } from '@testing-library/react';
 
 import { themeMock } from '../../__mocks__';
-import { useHoneyOverlay } from '../../hooks';
+import { useHoneyLayout, useHoneyOverlay } from '../../hooks';
 import { HoneyLayoutProvider } from '../../providers';
 import { HoneyOverlay } from '../../components';
-import type { HoneyKeyboardEventCode } from '../../types';
+import type { HoneyOverlayProps } from '../../components';
+import type {
+  HoneyKeyboardEventCode,
+  HoneyOverlayCustomEventListenerHandler,
+  HoneyOverlayEventListenerHandler,
+  HoneyOverlayEventListenerOptions,
+} from '../../types';
+import type { HoneyDispatchOverlayEvent } from '../../contexts';
 
 export const dispatchDocumentKeyboardEvent = (eventName: string, eventData?: KeyboardEventInit) => {
   document.dispatchEvent(new KeyboardEvent(eventName, eventData));
@@ -89,3 +96,240 @@ describe('[useHoneyOverlay]: basic behavior', () => {
     expect(deactivateSpy).toHaveBeenCalled();
   });
 });
+
+describe('[useHoneyOverlay]: extended events', () => {
+  interface CustomEventListenerProps {
+    overlayId: string;
+    handler: HoneyOverlayCustomEventListenerHandler;
+    options?: HoneyOverlayEventListenerOptions;
+  }
+
+  const CustomEventListener = ({ overlayId, handler, options }: CustomEventListenerProps) => {
+    const overlay = useHoneyOverlay(overlayId);
+
+    useEffect(() => {
+      if (!overlay) {
+        return;
+      }
+
+      overlay.addListener('save', handler, options);
+
+      return () => {
+        overlay.removeListener('save', handler);
+      };
+    }, [overlay]);
+
+    return null;
+  };
+
+  const renderOverlays = (
+    parentListener: Omit<CustomEventListenerProps, 'overlayId'>,
+    childListener: Omit<CustomEventListenerProps, 'overlayId'>,
+  ) => {
+    let dispatchOverlayEvent: HoneyDispatchOverlayEvent = () => true;
+
+    const Dispatcher = () => {
+      dispatchOverlayEvent = useHoneyLayout().dispatchOverlayEvent;
+
+      return null;
+    };
+
+    const { rerender } = customRender(
+      <>
+        <Dispatcher />
+
+        <HoneyOverlay active={true} onDeactivate={noop} overlayId="parent-overlay-id">
+          <CustomEventListener overlayId="parent-overlay-id" {...parentListener} />
+        </HoneyOverlay>
+      </>,
+    );
+
+    rerender(
+      <HoneyLayoutProvider theme={themeMock}>
+        <Dispatcher />
+
+        <HoneyOverlay active={true} onDeactivate={noop} overlayId="parent-overlay-id">
+          <CustomEventListener overlayId="parent-overlay-id" {...parentListener} />
+        </HoneyOverlay>
+
+        <HoneyOverlay active={true} onDeactivate={noop} overlayId="child-overlay-id">
+          <CustomEventListener overlayId="child-overlay-id" {...childListener} />
+        </HoneyOverlay>
+      </HoneyLayoutProvider>,
+    );
+
+    return dispatchOverlayEvent;
+  };
+
+  it('should call `onKeyDown` handler without preventing the default action', () => {
+    const keyDownSpy = vitest.fn();
+
+    const OverlayConsumer = () => {
+      useHoneyOverlay('test-overlay-id', {
+        onKeyDown: keyDownSpy,
+      });
+
+      return null;
+    };
+
+    customRender(
+      <HoneyOverlay active={true} onDeactivate={noop} overlayId="test-overlay-id">
+        <OverlayConsumer />
+      </HoneyOverlay>,
+    );
+
+    const e = new KeyboardEvent('keydown', { code: 'KeyS', ctrlKey: true, cancelable: true });
+    document.dispatchEvent(e);
+
+    expect(keyDownSpy.mock.calls[0][0]).toBe('KeyS');
+    expect(e.defaultPrevented).toBe(false);
+  });
+
+  it('should dispatch a custom event only to the top-level overlay by default', () => {
+    const parentHandler = vitest.fn();
+    const childHandler = vitest.fn();
+
+    const dispatchOverlayEvent = renderOverlays(
+      { handler: parentHandler },
+      { handler: childHandler },
+    );
+
+    dispatchOverlayEvent('save', { draftId: 1 });
+
+    expect(childHandler).toHaveBeenCalledTimes(1);
+    expect(childHandler.mock.calls[0][1].detail).toEqual({ draftId: 1 });
+    expect(parentHandler).not.toHaveBeenCalled();
+  });
+
+  it('should dispatch a custom event to an overlay by ID', () => {
+    const parentHandler = vitest.fn();
+    const childHandler = vitest.fn();
+
+    const dispatchOverlayEvent = renderOverlays(
+      { handler: parentHandler },
+      { handler: childHandler },
+    );
+
+    dispatchOverlayEvent('save', undefined, { overlayId: 'parent-overlay-id' });
+
+    expect(parentHandler).toHaveBeenCalledTimes(1);
+    expect(childHandler).not.toHaveBeenCalled();
+  });
+
+  it('should continue the event to the overlay below when the listener propagates it', () => {
+    const parentHandler = vitest.fn();
+    const childHandler = vitest.fn();
+
+    const dispatchOverlayEvent = renderOverlays(
+      { handler: parentHandler },
+      { handler: childHandler, options: { propagate: true } },
+    );
+
+    dispatchOverlayEvent('save');
+
+    expect(childHandler).toHaveBeenCalledTimes(1);
+    expect(parentHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a prevented custom event when the listener prevents the default action', () => {
+    const dispatchOverlayEvent = renderOverlays(
+      { handler: noop },
+      { handler: noop, options: { preventDefault: true } },
+    );
+
+    expect(dispatchOverlayEvent('save')).toBe(false);
+  });
+});
+
+describe('[useHoneyOverlay]: event propagation', () => {
+  const renderOverlays = (
+    parentProps: Partial<HoneyOverlayProps>,
+    childProps: Partial<HoneyOverlayProps>,
+    childContent: ReactNode = 'Child',
+  ) => {
+    const renderStack = (isChildActive: boolean) => (
+      <HoneyLayoutProvider theme={themeMock}>
+        <HoneyOverlay active={true} onDeactivate={noop} {...parentProps}>
+          Parent
+        </HoneyOverlay>
+
+        <HoneyOverlay active={isChildActive} onDeactivate={noop} {...childProps}>
+          {childContent}
+        </HoneyOverlay>
+      </HoneyLayoutProvider>
+    );
+
+    const { rerender } = render(renderStack(false));
+
+    rerender(renderStack(true));
+  };
+
+  it('should move a key not handled by the top-level overlay to the overlay below', () => {
+    const parentDeactivateSpy = vitest.fn();
+    const childDeactivateSpy = vitest.fn();
+
+    renderOverlays(
+      { onDeactivate: parentDeactivateSpy },
+      { onDeactivate: childDeactivateSpy, listenKeys: ['Enter'] },
+    );
+
+    dispatchDocumentKeyboardEvent('keyup', {
+      code: 'Escape',
+    });
+
+    expect(childDeactivateSpy).not.toHaveBeenCalled();
+    expect(parentDeactivateSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not move a key handled by the top-level overlay to the overlay below', () => {
+    const parentDeactivateSpy = vitest.fn();
+    const childDeactivateSpy = vitest.fn();
+
+    renderOverlays({ onDeactivate: parentDeactivateSpy }, { onDeactivate: childDeactivateSpy });
+
+    dispatchDocumentKeyboardEvent('keyup', {
+      code: 'Escape',
+    });
+
+    expect(childDeactivateSpy).toHaveBeenCalledTimes(1);
+    expect(parentDeactivateSpy).not.toHaveBeenCalled();
+  });
+
+  it('should stop a propagating event when a listener calls `stopPropagation`', () => {
+    const parentKeyUpSpy = vitest.fn();
+
+    const StoppingListener = () => {
+      const overlay = useHoneyOverlay('child-overlay-id');
+
+      useEffect(() => {
+        if (!overlay) {
+          return;
+        }
+
+        const handleKeyUp: HoneyOverlayEventListenerHandler = (keyCode, overlay, e, control) => {
+          control.stopPropagation();
+        };
+
+        overlay.addListener('keyup', handleKeyUp, { propagate: true });
+
+        return () => {
+          overlay.removeListener('keyup', handleKeyUp);
+        };
+      }, [overlay]);
+
+      return null;
+    };
+
+    renderOverlays(
+      { onKeyUp: parentKeyUpSpy },
+      { overlayId: 'child-overlay-id', listenKeys: ['Enter'] },
+      <StoppingListener />,
+    );
+
+    dispatchDocumentKeyboardEvent('keyup', {
+      code: 'Enter',
+    });
+
+    expect(parentKeyUpSpy).not.toHaveBeenCalled();
+  });
+});
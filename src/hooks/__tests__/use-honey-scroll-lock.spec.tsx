@@ -0,0 +1,107 @@
+import React from 'react';
+import { noop } from '@react-hive/honey-utils';
+import { render } from '@testing-library/react';
+
+import { themeMock } from '../../__mocks__';
+import { HoneyLayoutProvider } from '../../providers';
+import { HoneyOverlay } from '../../components';
+
+describe('[useHoneyScrollLock]: basic behavior', () => {
+  const renderOverlays = (isOuterActive: boolean, isInnerActive: boolean) => (
+    <HoneyLayoutProvider theme={themeMock}>
+      <HoneyOverlay active={isOuterActive} onDeactivate={noop} modal={true}>
+        Outer
+      </HoneyOverlay>
+
+      <HoneyOverlay active={isInnerActive} onDeactivate={noop} modal={true}>
+        <div data-testid="inner-content">Inner</div>
+      </HoneyOverlay>
+    </HoneyLayoutProvider>
+  );
+
+  beforeEach(() => {
+    Object.defineProperty(document.documentElement, 'clientWidth', {
+      configurable: true,
+      value: window.innerWidth - 15,
+    });
+  });
+
+  afterEach(() => {
+    // Restores the jsdom implementation from the prototype
+    Reflect.deleteProperty(document.documentElement, 'clientWidth');
+  });
+
+  it('should lock the body scroll and compensate for the scrollbar width', () => {
+    const { rerender } = render(renderOverlays(false, false));
+
+    expect(document.body.style.overflow).toBe('');
+
+    rerender(renderOverlays(true, false));
+
+    expect(document.body.style.overflow).toBe('hidden');
+    expect(document.body.style.paddingRight).toBe('15px');
+
+    rerender(renderOverlays(false, false));
+
+    expect(document.body.style.overflow).toBe('');
+    expect(document.body.style.paddingRight).toBe('');
+  });
+
+  it('should keep the body locked until the last overlay is deactivated', () => {
+    const { rerender } = render(renderOverlays(true, false));
+
+    rerender(renderOverlays(true, true));
+    rerender(renderOverlays(true, false));
+
+    expect(document.body.style.overflow).toBe('hidden');
+
+    rerender(renderOverlays(false, false));
+
+    expect(document.body.style.overflow).toBe('');
+  });
+
+  it('should allow wheel scrolling only inside the latest locked overlay', () => {
+    const { getByTestId } = render(renderOverlays(true, true));
+
+    const outsideWheelEvent = new WheelEvent('wheel', { bubbles: true, cancelable: true });
+    document.body.dispatchEvent(outsideWheelEvent);
+
+    expect(outsideWheelEvent.defaultPrevented).toBe(true);
+
+    const insideWheelEvent = new WheelEvent('wheel', { bubbles: true, cancelable: true });
+    getByTestId('inner-content').dispatchEvent(insideWheelEvent);
+
+    expect(insideWheelEvent.defaultPrevented).toBe(false);
+  });
+
+  it('should allow wheel scrolling inside overlays stacked above the locked overlay', () => {
+    const { getByTestId } = render(
+      <HoneyLayoutProvider theme={themeMock}>
+        <HoneyOverlay active={true} onDeactivate={noop} modal={true}>
+          Dialog
+        </HoneyOverlay>
+
+        <HoneyOverlay active={true} onDeactivate={noop} lockScroll={false}>
+          <div data-testid="popup-content">Popup</div>
+        </HoneyOverlay>
+      </HoneyLayoutProvider>,
+    );
+
+    const wheelEvent = new WheelEvent('wheel', { bubbles: true, cancelable: true });
+    getByTestId('popup-content').dispatchEvent(wheelEvent);
+
+    expect(wheelEvent.defaultPrevented).toBe(false);
+  });
+
+  it('should not lock the body scroll when `lockScroll` is disabled', () => {
+    render(
+      <HoneyLayoutProvider theme={themeMock}>
+        <HoneyOverlay active={true} onDeactivate={noop} modal={true} lockScroll={false}>
+          Content
+        </HoneyOverlay>
+      </HoneyLayoutProvider>,
+    );
+
+    expect(document.body.style.overflow).toBe('');
+  });
+});
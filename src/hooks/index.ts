@@ -2,3 +2,9 @@ export * from './use-honey-media-query';
 export * from './use-honey-layout';
 export * from './use-register-honey-overlay';
 export * from './use-honey-overlay';
+export * from './use-honey-top-level-overlay';
+export * from './use-honey-focus-trap';
+export * from './use-honey-hotkeys';
+export * from './use-honey-registered-hotkeys';
+export * from './use-honey-scroll-lock';
+export * from './use-honey-overlay-deep-link';
@@ -0,0 +1,152 @@
+import { useEffect } from 'react';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+import { getFocusableHtmlElements } from '@react-hive/honey-utils';
+import type { RefObject } from 'react';
+
+import type { Nullable } from '../types';
+
+export interface UseHoneyFocusTrapOptions {
+  /**
+   * Whether the focus trap is enabled.
+   *
+   * When the trap becomes enabled, focus is moved into the container. When it becomes disabled
+   * or the component unmounts, focus is optionally restored to the previously focused element.
+   *
+   * @default true
+   */
+  enabled?: boolean;
+  /**
+   * Temporarily suspends Tab and Shift+Tab containment without releasing the trap.
+   *
+   * Useful when another overlay is stacked above the container and should own keyboard focus.
+   * Pausing does not restore focus to the previously focused element.
+   *
+   * @default false
+   */
+  paused?: boolean;
+  /**
+   * Element that receives focus when the trap becomes enabled.
+   *
+   * When omitted or not mounted, the first tabbable element inside the container is focused.
+   * If the container has no tabbable elements, the container itself is focused.
+   */
+  initialFocusRef?: RefObject<Nullable<HTMLElement>>;
+  /**
+   * Whether focus should return to the element that was focused before the trap was enabled.
+   *
+   * @default true
+   */
+  restoreFocus?: boolean;
+}
+
+/**
+ * Moves focus into a container and keeps keyboard focus inside it.
+ *
+ * While the trap is enabled and not paused, Tab and Shift+Tab cycle through the tabbable
+ * elements of the container. Focus that has escaped the container is brought back on the next
+ * Tab key press.
+ *
+ * @param containerRef - Reference to the element that focus should be trapped in.
+ * @param options - Optional configuration for the focus trap.
+ *
+ * @remarks
+ * The container should be focusable (e.g. `tabIndex={-1}`) so it can receive focus when it
+ * has no tabbable descendants.
+ *
+ * @example
+ * ```tsx
+ * const containerRef = useRef<HTMLDivElement>(null);
+ *
+ * useHoneyFocusTrap(containerRef, {
+ *   enabled: isOpen,
+ * });
+ *
+ * return <div ref={containerRef} tabIndex={-1}>...</div>;
+ * ```
+ */
+export const useHoneyFocusTrap = (
+  containerRef: RefObject<Nullable<HTMLElement>>,
+  {
+    enabled = true,
+    paused = false,
+    initialFocusRef,
+    restoreFocus = true,
+  }: UseHoneyFocusTrapOptions = {},
+) => {
+  const initialFocusRefRef = useHoneyLatest(initialFocusRef);
+  const restoreFocusRef = useHoneyLatest(restoreFocus);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) {
+      return;
+    }
+
+    const previouslyFocusedElement =
+      document.activeElement instanceof HTMLElement ? document.activeElement : null;
+
+    if (!container.contains(document.activeElement)) {
+      const initialFocusElement =
+        initialFocusRefRef.current?.current ?? getFocusableHtmlElements(container)[0] ?? container;
+
+      initialFocusElement.focus();
+    }
+
+    return () => {
+      if (restoreFocusRef.current && previouslyFocusedElement?.isConnected) {
+        previouslyFocusedElement.focus();
+      }
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || paused) {
+      return;
+    }
+
+    /**
+     * Keeps Tab and Shift+Tab navigation inside the container.
+     *
+     * @param e - The native keyboard event emitted by the document.
+     */
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const container = containerRef.current;
+      if (e.code !== 'Tab' || !container) {
+        return;
+      }
+
+      const focusableElements = getFocusableHtmlElements(container);
+      if (!focusableElements.length) {
+        e.preventDefault();
+
+        container.focus();
+        return;
+      }
+
+      const firstElement = focusableElements[0];
+      const lastElement = focusableElements[focusableElements.length - 1];
+
+      const activeElement = document.activeElement;
+
+      if (!container.contains(activeElement)) {
+        e.preventDefault();
+
+        (e.shiftKey ? lastElement : firstElement).focus();
+      } else if (e.shiftKey && (activeElement === firstElement || activeElement === container)) {
+        e.preventDefault();
+
+        lastElement.focus();
+      } else if (!e.shiftKey && activeElement === lastElement) {
+        e.preventDefault();
+
+        firstElement.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [enabled, paused]);
+};
@@ -0,0 +1,378 @@
+import { useEffect, useRef } from 'react';
+import { assert } from '@react-hive/honey-utils';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+
+import { isEditableElement } from '../helpers';
+import { useHoneyLayout, useHoneyOverlay } from '../hooks';
+import type {
+  HoneyHotkey,
+  HoneyHotkeyHandler,
+  HoneyKeyboardEventCode,
+  HoneyOverlayEventListenerHandler,
+  HoneyOverlayId,
+} from '../types';
+
+interface HoneyHotkeyStroke {
+  keyCode: HoneyKeyboardEventCode;
+  ctrlKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+  metaKey: boolean;
+}
+
+const MODIFIER_KEY_CODES: HoneyKeyboardEventCode[] = [
+  'ShiftLeft',
+  'ShiftRight',
+  'ControlLeft',
+  'ControlRight',
+  'AltLeft',
+  'AltRight',
+  'MetaLeft',
+  'MetaRight',
+];
+
+const isApplePlatform = () =>
+  typeof navigator !== 'undefined' && /Mac|iPhone|iPad|iPod/i.test(navigator.userAgent);
+
+/**
+ * Converts a key name used in a hotkey to a keyboard event code.
+ *
+ * @param key - A `HoneyKeyboardEventCode`, a single letter or a single digit.
+ *
+ * @returns The keyboard event code, e.g. `KeyK` for `K` and `Digit1` for `1`.
+ */
+const resolveHotkeyKeyCode = (key: string): HoneyKeyboardEventCode => {
+  if (/^[a-z]$/i.test(key)) {
+    return `Key${key.toUpperCase()}` as HoneyKeyboardEventCode;
+  }
+
+  if (/^\d$/.test(key)) {
+    return `Digit${key}` as HoneyKeyboardEventCode;
+  }
+
+  return key as HoneyKeyboardEventCode;
+};
+
+/**
+ * Parses a single step of a hotkey, such as `Mod+Shift+KeyP`.
+ *
+ * @param hotkey - The full hotkey, used in error messages.
+ * @param stroke - The step to parse.
+ *
+ * @returns The key code together with the required modifier state.
+ */
+const parseHotkeyStroke = (hotkey: HoneyHotkey, stroke: string): HoneyHotkeyStroke => {
+  const parts = stroke.split('+');
+  const key = parts.pop();
+
+  assert(key, `[@react-hive/honey-layout]: The "${hotkey}" hotkey does not contain a key.`);
+
+  const parsedStroke: HoneyHotkeyStroke = {
+    keyCode: resolveHotkeyKeyCode(key),
+    ctrlKey: false,
+    altKey: false,
+    shiftKey: false,
+    metaKey: false,
+  };
+
+  parts.forEach(modifier => {
+    if (modifier === 'Mod') {
+      parsedStroke[isApplePlatform() ? 'metaKey' : 'ctrlKey'] = true;
+    } else if (modifier === 'Ctrl' || modifier === 'Control') {
+      parsedStroke.ctrlKey = true;
+    } else if (modifier === 'Alt' || modifier === 'Option') {
+      parsedStroke.altKey = true;
+    } else if (modifier === 'Shift') {
+      parsedStroke.shiftKey = true;
+    } else if (modifier === 'Meta' || modifier === 'Cmd') {
+      parsedStroke.metaKey = true;
+    } else {
+      assert(
+        false,
+        `[@react-hive/honey-layout]: The "${hotkey}" hotkey contains an unknown "${modifier}" modifier.`,
+      );
+    }
+  });
+
+  return parsedStroke;
+};
+
+/**
+ * Parses a hotkey into the sequence of steps that trigger it.
+ *
+ * @param hotkey - The hotkey to parse, e.g. `Mod+K` or `g g`.
+ *
+ * @returns The steps of the hotkey. A key combination is a sequence with a single step.
+ */
+const parseHotkey = (hotkey: HoneyHotkey) =>
+  hotkey
+    .trim()
+    .split(/\s+/)
+    .map(stroke => parseHotkeyStroke(hotkey, stroke));
+
+const isStrokeMatching = (stroke: HoneyHotkeyStroke, e: KeyboardEvent) =>
+  stroke.keyCode === e.code &&
+  stroke.ctrlKey === e.ctrlKey &&
+  stroke.altKey === e.altKey &&
+  stroke.shiftKey === e.shiftKey &&
+  stroke.metaKey === e.metaKey;
+
+export interface HoneyHotkeyBinding {
+  /**
+   * Key combination or sequence that triggers the binding. Multiple alternatives can be passed
+   * as an array.
+   *
+   * @example `'Mod+K'`, `'Shift+ArrowDown'`, `'g g'`, `['Mod+Enter', 'Ctrl+KeyS']`
+   */
+  keys: HoneyHotkey | HoneyHotkey[];
+  /**
+   * Callback invoked when the key combination or sequence is completed.
+   */
+  handler: HoneyHotkeyHandler;
+  /**
+   * Human-readable description shown in the registered shortcuts list.
+   */
+  description?: string;
+  /**
+   * Optional group name used to organize shortcuts in a help dialog.
+   */
+  group?: string;
+  /**
+   * Whether the default browser action of the completing keydown event is prevented.
+   *
+   * @default true
+   */
+  preventDefault?: boolean;
+  /**
+   * Whether the binding is triggered while an input, textarea, select or editable element is
+   * focused.
+   *
+   * @default false
+   */
+  enableOnEditable?: boolean;
+}
+
+export interface UseHoneyHotkeysOptions {
+  /**
+   * Whether the bindings are registered and listen for keyboard events.
+   *
+   * @default true
+   */
+  enabled?: boolean;
+  /**
+   * ID of the overlay the bindings are scoped to.
+   *
+   * Scoped bindings are triggered only while the overlay is active and receives the keydown
+   * event, so keys handled by the bindings do not reach overlays below it. When omitted, the
+   * bindings are page-level and are triggered only by keys that no overlay in the stack handles,
+   * either on keydown or on keyup.
+   */
+  overlayId?: HoneyOverlayId;
+  /**
+   * Maximum delay in milliseconds between two steps of a key sequence, such as `g g`.
+   *
+   * @default 1000
+   */
+  sequenceTimeout?: number;
+}
+
+/**
+ * Binds keyboard shortcuts to handlers on top of the overlay event system.
+ *
+ * Shortcuts are matched on keydown against the `code` of the event and the exact modifier
+ * state, so `Shift+ArrowDown` is not triggered by `Ctrl+Shift+ArrowDown`. Steps separated with
+ * spaces form a sequence that must be typed within `sequenceTimeout`.
+ *
+ * Every binding is also added to the keyboard shortcuts registry of `HoneyLayoutProvider` while
+ * the hook is enabled. Use `useHoneyRegisteredHotkeys` to list them, for example in a help dialog.
+ *
+ * @param bindings - Keyboard shortcuts and their handlers. Handlers may change between renders.
+ * @param options - Optional configuration for the scope and sequence handling.
+ *
+ * @example
+ * ```tsx
+ * useHoneyHotkeys([
+ *   {
+ *     keys: 'Mod+K',
+ *     description: 'Open command palette',
+ *     handler: openCommandPalette,
+ *   },
+ *   {
+ *     keys: 'g g',
+ *     description: 'Go to top',
+ *     handler: scrollToTop,
+ *   },
+ * ]);
+ * ```
+ *
+ * @example
+ * ```tsx
+ * useHoneyHotkeys(
+ *   [
+ *     {
+ *       keys: 'Shift+ArrowDown',
+ *       description: 'Extend selection',
+ *       handler: extendSelection,
+ *     },
+ *   ],
+ *   {
+ *     overlayId: 'file-picker',
+ *   },
+ * );
+ * ```
+ */
+export const useHoneyHotkeys = (
+  bindings: HoneyHotkeyBinding[],
+  { enabled = true, overlayId, sequenceTimeout = 1000 }: UseHoneyHotkeysOptions = {},
+) => {
+  const { subscribeUnhandledKeyDown, registerHotkey, unregisterHotkey } = useHoneyLayout();
+
+  const bindingsRef = useHoneyLatest(bindings);
+  const sequenceTimeoutRef = useHoneyLatest(sequenceTimeout);
+
+  // Progress of the sequences, keyed by the hotkey, together with the time of the last step
+  const sequenceStateRef = useRef({
+    progress: new Map<HoneyHotkey, number>(),
+    lastStepTime: 0,
+  });
+
+  const overlay = useHoneyOverlay(overlayId ?? '', {
+    enabled: enabled && overlayId !== undefined,
+  });
+
+  /**
+   * Triggers the bindings completed by a keydown event.
+   *
+   * @param e - The keydown event.
+   *
+   * @returns `true` when at least one binding was triggered.
+   */
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (MODIFIER_KEY_CODES.includes(e.code as HoneyKeyboardEventCode)) {
+      return false;
+    }
+
+    const sequenceState = sequenceStateRef.current;
+    const now = Date.now();
+
+    if (now - sequenceState.lastStepTime > sequenceTimeoutRef.current) {
+      sequenceState.progress.clear();
+    }
+
+    sequenceState.lastStepTime = now;
+
+    const nextProgress = new Map<HoneyHotkey, number>();
+    let isTriggered = false;
+
+    bindingsRef.current.forEach(binding => {
+      if (!binding.enableOnEditable && isEditableElement(e.target)) {
+        return;
+      }
+
+      const hotkeys = Array.isArray(binding.keys) ? binding.keys : [binding.keys];
+
+      const isCompleted = hotkeys.some(hotkey => {
+        const strokes = parseHotkey(hotkey);
+
+        let step = sequenceState.progress.get(hotkey) ?? 0;
+
+        if (!isStrokeMatching(strokes[step], e)) {
+          // A broken sequence can start over from the current key
+          if (step === 0 || !isStrokeMatching(strokes[0], e)) {
+            return false;
+          }
+
+          step = 0;
+        }
+
+        step++;
+
+        if (step < strokes.length) {
+          nextProgress.set(hotkey, step);
+
+          return false;
+        }
+
+        return true;
+      });
+
+      if (isCompleted) {
+        isTriggered = true;
+
+        if (binding.preventDefault ?? true) {
+          e.preventDefault();
+        }
+
+        binding.handler(e);
+      }
+    });
+
+    sequenceState.progress = nextProgress;
+
+    return isTriggered;
+  };
+
+  const handleKeyDownRef = useHoneyLatest(handleKeyDown);
+
+  useEffect(() => {
+    if (!overlay) {
+      return;
+    }
+
+    const handleOverlayKeyDown: HoneyOverlayEventListenerHandler = (
+      keyCode,
+      overlay,
+      e,
+      control,
+    ) => {
+      if (handleKeyDownRef.current(e)) {
+        control.stopPropagation();
+      }
+    };
+
+    // Keys that do not trigger a binding continue to the overlay below
+    overlay.addListener('keydown', handleOverlayKeyDown, { propagate: true });
+
+    return () => {
+      overlay.removeListener('keydown', handleOverlayKeyDown);
+    };
+  }, [overlay]);
+
+  useEffect(() => {
+    if (!enabled || overlayId !== undefined) {
+      return;
+    }
+
+    // Page-level bindings receive only the keys that no overlay handles
+    return subscribeUnhandledKeyDown(e => {
+      handleKeyDownRef.current(e);
+    });
+  }, [enabled, overlayId]);
+
+  const registrySignature = JSON.stringify(
+    bindings.map(({ keys, description, group }) => [keys, description, group]),
+  );
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const registeredHotkeys = bindingsRef.current.map(({ keys, description, group }) => {
+      const hotkeys = Array.isArray(keys) ? keys : [keys];
+      // Report invalid hotkeys when they are registered instead of on the first key press
+      hotkeys.forEach(parseHotkey);
+
+      return registerHotkey({
+        keys: hotkeys,
+        description,
+        group,
+        overlayId: overlayId ?? null,
+      });
+    });
+
+    return () => {
+      registeredHotkeys.forEach(hotkey => unregisterHotkey(hotkey.id));
+    };
+  }, [enabled, overlayId, registrySignature]);
+};
@@ -0,0 +1,62 @@
+import { useEffect } from 'react';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+
+import { useHoneyLayout } from '../hooks';
+
+interface UseHoneyOverlayDeepLinkOptions {
+  /**
+   * Whether the deep link is registered.
+   *
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Opens an overlay registered with a `historyKey` from a deep link or history navigation.
+ *
+ * `onOpen` is called when the component mounts while the URL contains the overlay search
+ * parameter with the history key, for example `?overlay=settings`, and when the history navigates
+ * forward to the entry of the closed overlay.
+ *
+ * Deep links are matched by the history key rather than by the overlay ID, since the overlay is
+ * not registered yet when it has to be opened, and its ID may be generated on every registration.
+ *
+ * @param historyKey - The `historyKey` of the overlay.
+ * @param onOpen - Opens the overlay. It may change between renders.
+ * @param options - Optional configuration for the deep link.
+ *
+ * @example
+ * ```tsx
+ * const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+ *
+ * useHoneyOverlayDeepLink('settings', () => setIsSettingsOpen(true));
+ *
+ * return (
+ *   <HoneyModal
+ *     open={isSettingsOpen}
+ *     onClose={() => setIsSettingsOpen(false)}
+ *     overlayProps={{ historyKey: 'settings' }}
+ *   >
+ *     <Settings />
+ *   </HoneyModal>
+ * );
+ * ```
+ */
+export const useHoneyOverlayDeepLink = (
+  historyKey: string,
+  onOpen: () => void,
+  { enabled = true }: UseHoneyOverlayDeepLinkOptions = {},
+) => {
+  const { registerOverlayDeepLink } = useHoneyLayout();
+
+  const onOpenRef = useHoneyLatest(onOpen);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    return registerOverlayDeepLink(historyKey, () => onOpenRef.current());
+  }, [enabled, historyKey]);
+};
@@ -3,13 +3,42 @@ import { useCallback, useEffect, useSyncExternalStore } from 'react';
 import { useHoneyLayout } from '../hooks';
 import type {
   HoneyOverlayId,
+  HoneyOverlayEventHandler,
   HoneyOverlayEventListenerHandler,
+  HoneyOverlayEventType,
+  HoneyOverlayFocusEventListenerHandler,
+  HoneyOverlayPointerEventListenerHandler,
   Nullable,
   HoneyActiveOverlay,
 } from '../types';
 
 const subscribeToNothing = () => () => undefined;
 
+/**
+ * Attaches a listener to an overlay for as long as both the overlay and the handler are defined.
+ *
+ * @param overlay - The overlay to attach the listener to.
+ * @param eventType - The overlay event type to listen for.
+ * @param handler - The listener handler.
+ */
+const useHoneyOverlayListener = <EventType extends HoneyOverlayEventType>(
+  overlay: Nullable<HoneyActiveOverlay>,
+  eventType: EventType,
+  handler: HoneyOverlayEventHandler<EventType> | undefined,
+) => {
+  useEffect(() => {
+    if (!overlay || !handler) {
+      return;
+    }
+
+    overlay.addListener(eventType, handler);
+
+    return () => {
+      overlay.removeListener(eventType, handler);
+    };
+  }, [overlay, handler]);
+};
+
 interface UseHoneyOverlayOptions {
   /**
    * Whether the hook should resolve the overlay and attach event listeners.
@@ -28,10 +57,33 @@ interface UseHoneyOverlayOptions {
    * or the component unmounts.
    */
   onKeyUp?: HoneyOverlayEventListenerHandler;
+  /**
+   * Callback fired when the target overlay receives a keydown event.
+   *
+   * The default browser action is not prevented unless the handler calls `e.preventDefault()`,
+   * which allows shortcuts such as Ctrl+S to be stopped before the browser acts.
+   *
+   * The handler follows the same attachment and cleanup rules as `onKeyUp`.
+   */
+  onKeyDown?: HoneyOverlayEventListenerHandler;
+  /**
+   * Callback fired when a pointer is pressed outside the target overlay container while the
+   * target overlay is the top-level overlay.
+   *
+   * The handler follows the same attachment and cleanup rules as `onKeyUp`.
+   */
+  onPointerDownOutside?: HoneyOverlayPointerEventListenerHandler;
+  /**
+   * Callback fired when focus moves outside the target overlay container while the target
+   * overlay is the top-level overlay.
+   *
+   * The handler follows the same attachment and cleanup rules as `onKeyUp`.
+   */
+  onFocusInOutside?: HoneyOverlayFocusEventListenerHandler;
 }
 
 /**
- * Returns an active overlay by ID and optionally attaches a keyup event listener.
+ * Returns an active overlay by ID and optionally attaches overlay event listeners.
  *
  * The hook reads the overlay through the external overlay store exposed by
  * `HoneyLayoutProvider`. It subscribes to stack changes with `useSyncExternalStore`, but
@@ -39,17 +91,18 @@ interface UseHoneyOverlayOptions {
  * re-render the consuming component when the selected overlay instance remains unchanged.
  *
  * @param targetOverlayId - The ID of the active overlay to find.
- * @param options - Optional configuration for resolving the overlay and handling keyup events.
+ * @param options - Optional configuration for resolving the overlay and handling overlay events.
  *
  * @returns The matching active overlay, or `null` when the hook is disabled or the overlay is
  * not currently registered.
  *
  * @remarks
  * - The hook resolves only overlays that are currently registered.
- * - If `enabled` is `false`, the snapshot is `null` and no keyup listener is attached.
+ * - If `enabled` is `false`, the snapshot is `null` and no event listeners are attached.
  * - If the target overlay is registered or unregistered, the consuming component is updated.
  * - Changes to unrelated overlays do not cause a re-render when the selected snapshot is equal.
- * - The `onKeyUp` listener is automatically cleaned up when its dependencies change.
+ * - Event listeners are automatically cleaned up when their dependencies change.
+ * - Custom events and listener options are available through `overlay.addListener()`.
  *
  * @example
  * ```tsx
@@ -62,10 +115,29 @@ interface UseHoneyOverlayOptions {
  *   },
  * });
  * ```
+ *
+ * @example
+ * ```tsx
+ * useHoneyOverlay('editor-overlay-id', {
+ *   onKeyDown: (keyCode, overlay, e) => {
+ *     if (keyCode === 'KeyS' && (e.ctrlKey || e.metaKey)) {
+ *       e.preventDefault();
+ *
+ *       saveDraft();
+ *     }
+ *   },
+ * });
+ * ```
  */
 export const useHoneyOverlay = (
   targetOverlayId: HoneyOverlayId,
-  { enabled = true, onKeyUp }: UseHoneyOverlayOptions = {},
+  {
+    enabled = true,
+    onKeyUp,
+    onKeyDown,
+    onPointerDownOutside,
+    onFocusInOutside,
+  }: UseHoneyOverlayOptions = {},
 ) => {
   const { getOverlaysSnapshot, subscribeOverlays } = useHoneyLayout();
 
@@ -83,17 +155,10 @@ export const useHoneyOverlay = (
     getOverlaySnapshot,
   );
 
-  useEffect(() => {
-    if (!overlay || !onKeyUp) {
-      return;
-    }
-
-    overlay.addListener('keyup', onKeyUp);
-
-    return () => {
-      overlay.removeListener('keyup', onKeyUp);
-    };
-  }, [overlay, onKeyUp]);
+  useHoneyOverlayListener(overlay, 'keyup', onKeyUp);
+  useHoneyOverlayListener(overlay, 'keydown', onKeyDown);
+  useHoneyOverlayListener(overlay, 'pointerdown-outside', onPointerDownOutside);
+  useHoneyOverlayListener(overlay, 'focusin-outside', onFocusInOutside);
 
   return overlay;
 };
@@ -0,0 +1,34 @@
+import { useSyncExternalStore } from 'react';
+
+import { useHoneyLayout } from '../hooks';
+
+/**
+ * Returns the keyboard shortcuts currently registered with `useHoneyHotkeys`.
+ *
+ * The hook subscribes to the keyboard shortcuts registry exposed by `HoneyLayoutProvider`, so the
+ * consuming component re-renders whenever a shortcut is registered or unregistered.
+ *
+ * @returns The registered shortcuts in registration order, including page-level shortcuts and
+ * shortcuts scoped to overlays.
+ *
+ * @example
+ * ```tsx
+ * const hotkeys = useHoneyRegisteredHotkeys();
+ *
+ * return (
+ *   <dl>
+ *     {hotkeys.map(hotkey => (
+ *       <Fragment key={hotkey.id}>
+ *         <dt>{hotkey.keys.join(' / ')}</dt>
+ *         <dd>{hotkey.description}</dd>
+ *       </Fragment>
+ *     ))}
+ *   </dl>
+ * );
+ * ```
+ */
+export const useHoneyRegisteredHotkeys = () => {
+  const { getHotkeysSnapshot, subscribeHotkeys } = useHoneyLayout();
+
+  return useSyncExternalStore(subscribeHotkeys, getHotkeysSnapshot, getHotkeysSnapshot);
+};
@@ -0,0 +1,181 @@
+import { useEffect } from 'react';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+import type { RefObject } from 'react';
+
+import { useHoneyLayout } from '../hooks';
+import type { HoneyOverlayId, Nullable } from '../types';
+
+interface HoneyScrollLock {
+  /**
+   * Checks whether wheel and touch scrolling is allowed for the target of a scroll gesture.
+   */
+  isScrollAllowed: (target: Node) => boolean;
+}
+
+/**
+ * Active scroll locks shared by every hook instance, in the order they were acquired.
+ *
+ * The document has a single body, so locks are counted globally rather than per provider.
+ */
+const scrollLocks: HoneyScrollLock[] = [];
+
+let restoreBodyStyles: Nullable<() => void> = null;
+
+/**
+ * Hides the body overflow and compensates for the removed scrollbar to keep the page layout steady.
+ *
+ * @returns A function that restores the original inline body styles.
+ */
+const lockBodyScroll = () => {
+  const { body, documentElement } = document;
+
+  const originalOverflow = body.style.overflow;
+  const originalPaddingRight = body.style.paddingRight;
+
+  const scrollbarWidth = window.innerWidth - documentElement.clientWidth;
+
+  if (scrollbarWidth > 0) {
+    const paddingRight = parseFloat(window.getComputedStyle(body).paddingRight) || 0;
+
+    body.style.paddingRight = `${paddingRight + scrollbarWidth}px`;
+  }
+
+  body.style.overflow = 'hidden';
+
+  return () => {
+    body.style.overflow = originalOverflow;
+    body.style.paddingRight = originalPaddingRight;
+  };
+};
+
+/**
+ * Prevents wheel and touch scrolling outside the elements allowed by the latest scroll lock.
+ *
+ * Hiding the body overflow does not stop scroll chaining on touch devices, so scroll gestures
+ * that start outside the allowed elements are cancelled.
+ *
+ * @param e - The native wheel or touch event.
+ */
+const handleScrollGesture = (e: Event) => {
+  const scrollLock = scrollLocks[scrollLocks.length - 1];
+
+  if (scrollLock && e.target instanceof Node && scrollLock.isScrollAllowed(e.target)) {
+    return;
+  }
+
+  if (e.cancelable) {
+    e.preventDefault();
+  }
+};
+
+const acquireScrollLock = (scrollLock: HoneyScrollLock) => {
+  scrollLocks.push(scrollLock);
+
+  if (scrollLocks.length === 1) {
+    restoreBodyStyles = lockBodyScroll();
+
+    document.addEventListener('wheel', handleScrollGesture, { passive: false });
+    document.addEventListener('touchmove', handleScrollGesture, { passive: false });
+  }
+};
+
+const releaseScrollLock = (scrollLock: HoneyScrollLock) => {
+  const scrollLockIndex = scrollLocks.indexOf(scrollLock);
+  if (scrollLockIndex === -1) {
+    return;
+  }
+
+  scrollLocks.splice(scrollLockIndex, 1);
+
+  if (!scrollLocks.length) {
+    restoreBodyStyles?.();
+    restoreBodyStyles = null;
+
+    document.removeEventListener('wheel', handleScrollGesture);
+    document.removeEventListener('touchmove', handleScrollGesture);
+  }
+};
+
+export interface UseHoneyScrollLockOptions {
+  /**
+   * Whether the lock is held.
+   *
+   * @default true
+   */
+  enabled?: boolean;
+  /**
+   * Element that can still be scrolled with the wheel or touch gestures while the lock is the
+   * latest acquired one, usually the container of the overlay holding the lock.
+   */
+  allowScrollRef?: RefObject<Nullable<HTMLElement>>;
+  /**
+   * ID of the overlay holding the lock.
+   *
+   * When provided, the containers of the overlays stacked above it, such as popups opened from a
+   * dialog, can be scrolled as well, even when they do not lock the scroll themselves.
+   */
+  overlayId?: HoneyOverlayId;
+}
+
+/**
+ * Locks the page scroll while enabled.
+ *
+ * Locks are reference counted across every component using the hook. The body stays locked until
+ * the last lock is released, so closing a nested dialog does not unlock the page while an outer
+ * dialog is still open. The scrollbar width is added to the body padding while the page is locked
+ * to prevent layout shifts.
+ *
+ * Must be used inside `HoneyLayoutProvider`, since the overlays stacked above the overlay holding
+ * the lock are read from its overlay store.
+ *
+ * @param options - Optional configuration for the scroll lock.
+ *
+ * @example
+ * ```tsx
+ * const containerRef = useRef<HTMLDivElement>(null);
+ *
+ * useHoneyScrollLock({
+ *   enabled: isOpen,
+ *   allowScrollRef: containerRef,
+ * });
+ * ```
+ */
+export const useHoneyScrollLock = ({
+  enabled = true,
+  allowScrollRef,
+  overlayId,
+}: UseHoneyScrollLockOptions = {}) => {
+  const { getOverlaysSnapshot } = useHoneyLayout();
+
+  const overlayIdRef = useHoneyLatest(overlayId);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const scrollLock: HoneyScrollLock = {
+      isScrollAllowed: target => {
+        if (allowScrollRef?.current?.contains(target)) {
+          return true;
+        }
+
+        const overlays = getOverlaysSnapshot();
+        const overlayIndex = overlays.findIndex(overlay => overlay.id === overlayIdRef.current);
+
+        return (
+          overlayIndex !== -1 &&
+          overlays
+            .slice(overlayIndex + 1)
+            .some(overlay => overlay.containerRef.current?.contains(target) === true)
+        );
+      },
+    };
+
+    acquireScrollLock(scrollLock);
+
+    return () => {
+      releaseScrollLock(scrollLock);
+    };
+  }, [enabled]);
+};
@@ -0,0 +1,36 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+import { useHoneyLayout } from '../hooks';
+import type { HoneyActiveOverlay, Nullable } from '../types';
+
+/**
+ * Returns the overlay that is currently at the top of the overlay stack.
+ *
+ * The hook subscribes to the overlay store exposed by `HoneyLayoutProvider` and selects only
+ * the top-level overlay, so the consuming component re-renders only when the top of the stack
+ * changes.
+ *
+ * @returns The top-level active overlay, or `null` when no overlays are registered.
+ *
+ * @example
+ * ```tsx
+ * const topLevelOverlay = useHoneyTopLevelOverlay();
+ *
+ * const isTopLevel = topLevelOverlay?.id === 'settings-dialog';
+ * ```
+ */
+export const useHoneyTopLevelOverlay = () => {
+  const { getOverlaysSnapshot, subscribeOverlays } = useHoneyLayout();
+
+  const getTopLevelOverlaySnapshot = useCallback<() => Nullable<HoneyActiveOverlay>>(() => {
+    const overlays = getOverlaysSnapshot();
+
+    return overlays[overlays.length - 1] ?? null;
+  }, []);
+
+  return useSyncExternalStore(
+    subscribeOverlays,
+    getTopLevelOverlaySnapshot,
+    getTopLevelOverlaySnapshot,
+  );
+};
@@ -1,4 +1,5 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useReducer, useState } from 'react';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
 
 import { useHoneyLayout } from '../hooks';
 import type { HoneyActiveOverlay, HoneyOverlayConfig, Nullable } from '../types';
@@ -6,33 +7,71 @@ import type { HoneyActiveOverlay, HoneyOverlayConfig, Nullable } from '../types'
 /**
  * A hook for registering and managing an overlay in the layout system.
  *
+ * The overlay is registered while `shouldRegister` is `true`. Later changes of the configuration
+ * update the registered overlay in place, so its descendants and history entry are kept. A change
+ * of the overlay ID registers the overlay again under the new ID.
+ *
  * @param shouldRegister - A flag indicating whether the overlay should be registered.
  * @param overlayConfig - Configuration object specifying overlay behavior.
  *
- * @returns The registered overlay instance, or null if not registered.
+ * @returns The registered overlay instance, or null if not registered. The component re-renders once
+ *          the overlay is registered or unregistered, and when an update changes its z-index.
  */
 export const useRegisterHoneyOverlay = (
   shouldRegister: boolean,
   overlayConfig: HoneyOverlayConfig,
 ): Nullable<HoneyActiveOverlay> => {
-  const { registerOverlay, unregisterOverlay } = useHoneyLayout();
+  const { registerOverlay, updateOverlay, unregisterOverlay } = useHoneyLayout();
+
+  const [overlay, setOverlay] = useState<Nullable<HoneyActiveOverlay>>(null);
+  const [, refresh] = useReducer((count: number) => count + 1, 0);
 
-  const overlayRef = useRef<Nullable<HoneyActiveOverlay>>(null);
+  const overlayConfigRef = useHoneyLatest(overlayConfig);
 
   useEffect(() => {
     if (!shouldRegister) {
       return;
     }
 
-    const overlay = registerOverlay(overlayConfig);
-    overlayRef.current = overlay;
+    const registeredOverlay = registerOverlay(overlayConfigRef.current);
+    setOverlay(registeredOverlay);
 
     return () => {
-      overlayRef.current = null;
+      setOverlay(null);
 
-      unregisterOverlay(overlay.id);
+      unregisterOverlay(registeredOverlay.id);
     };
-  }, [shouldRegister, overlayConfig.onKeyUp]);
+  }, [shouldRegister, overlayConfig.id]);
+
+  // Listen keys are usually passed as an array literal, so they are compared by value
+  const listenKeysSignature = overlayConfig.listenKeys?.join(' ');
+
+  useEffect(() => {
+    if (!overlay) {
+      return;
+    }
+
+    const prevZIndex = overlay.zIndex;
+
+    updateOverlay(overlay.id, overlayConfig);
+
+    if (overlay.zIndex !== prevZIndex) {
+      refresh();
+    }
+  }, [
+    overlay,
+    overlayConfig.priority,
+    overlayConfig.modal,
+    overlayConfig.trapFocus,
+    overlayConfig.historyKey,
+    overlayConfig.parentId,
+    listenKeysSignature,
+    overlayConfig.onKeyUp,
+    overlayConfig.onKeyDown,
+    overlayConfig.onPointerDownOutside,
+    overlayConfig.onFocusInOutside,
+    overlayConfig.onDeactivate,
+  ]);
 
-  return overlayRef.current;
+  return overlay;
 };
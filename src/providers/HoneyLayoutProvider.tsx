@@ -4,25 +4,40 @@ import type { PropsWithChildren } from 'react';
 import type { HoneyStyleProviderProps } from '@react-hive/honey-style';
 
 import { useHoneyMediaQuery } from '../hooks';
+import { createHoneyBrowserHistory } from '../helpers';
 import { HoneyLayoutContext } from '../contexts';
-import { useHoneyOverlays } from './hooks';
+import { useHoneyHotkeysRegistry, useHoneyOverlays } from './hooks';
 import type { HoneyLayoutContextValue } from '../contexts';
 import type { UseHoneyMediaQueryOptions } from '../hooks';
+import type { HoneyOverlayHistory } from '../types';
 
 interface HoneyLayoutProviderProps extends HoneyStyleProviderProps {
   /**
    * Options used to derive the responsive screen state from the active theme.
    */
   mediaQueryOptions?: UseHoneyMediaQueryOptions;
+  /**
+   * The history that overlays registered with a `historyKey` are kept in sync with.
+   *
+   * Pass `createHoneyMemoryHistory()` to keep overlay history entries out of the browser history,
+   * for example in tests.
+   *
+   * @default The browser history
+   */
+  overlayHistory?: HoneyOverlayHistory;
 }
 
 /**
- * Provides Honey styling, responsive screen state, and overlay management to its descendants.
+ * Provides Honey styling, responsive screen state, overlay management, and the keyboard shortcuts
+ * registry to its descendants.
  *
  * Overlay state is held in a ref-backed external store. Registering or unregistering an overlay
  * notifies subscribed overlay consumers without updating this provider's React state or context
  * value. This prevents overlay stack changes from re-rendering the full layout subtree.
  *
+ * Overlays registered with a `historyKey` push an entry to `overlayHistory`, so the browser Back
+ * button closes the top-level overlay instead of leaving the page.
+ *
  * The context value changes only when the theme or responsive screen state changes. Overlay
  * consumers should read the store through `useHoneyOverlay` or `useSyncExternalStore` rather
  * than attempting to read the overlay ref directly.
@@ -42,12 +57,31 @@ export const HoneyLayoutProvider = ({
   children,
   theme,
   mediaQueryOptions,
+  overlayHistory,
   ...props
 }: PropsWithChildren<HoneyLayoutProviderProps>) => {
   const screenState = useHoneyMediaQuery(theme, mediaQueryOptions);
 
-  const { getOverlaysSnapshot, registerOverlay, subscribeOverlays, unregisterOverlay } =
-    useHoneyOverlays();
+  const history = useMemo(
+    () => overlayHistory ?? (typeof window === 'undefined' ? null : createHoneyBrowserHistory()),
+    [overlayHistory],
+  );
+
+  const {
+    getOverlaysSnapshot,
+    registerOverlay,
+    updateOverlay,
+    subscribeOverlays,
+    unregisterOverlay,
+    getOverlayChildren,
+    registerOverlayDeepLink,
+    dispatchOverlayEvent,
+    subscribeOverlayEvents,
+    subscribeUnhandledKeyDown,
+  } = useHoneyOverlays({ history });
+
+  const { getHotkeysSnapshot, subscribeHotkeys, registerHotkey, unregisterHotkey } =
+    useHoneyHotkeysRegistry();
 
   const contextValue = useMemo<HoneyLayoutContextValue>(
     () => ({
@@ -55,8 +89,18 @@ export const HoneyLayoutProvider = ({
       screenState,
       getOverlaysSnapshot,
       registerOverlay,
+      updateOverlay,
       subscribeOverlays,
       unregisterOverlay,
+      getOverlayChildren,
+      registerOverlayDeepLink,
+      dispatchOverlayEvent,
+      subscribeOverlayEvents,
+      subscribeUnhandledKeyDown,
+      getHotkeysSnapshot,
+      subscribeHotkeys,
+      registerHotkey,
+      unregisterHotkey,
     }),
     [theme, screenState],
   );
@@ -1 +1,2 @@
 export * from './use-honey-overlays';
+export * from './use-honey-hotkeys-registry';
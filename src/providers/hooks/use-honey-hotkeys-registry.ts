@@ -0,0 +1,100 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { generateEphemeralId } from '@react-hive/honey-utils';
+
+import type { HoneyRegisteredHotkey } from '../../types';
+import type {
+  HoneyRegisterHotkey,
+  HoneySubscribeHotkeys,
+  HoneyUnregisterHotkey,
+} from '../../contexts';
+
+/**
+ * Keeps track of the keyboard shortcuts registered by `useHoneyHotkeys`.
+ *
+ * Like the overlay store, registered shortcuts are stored in a ref, so registering or
+ * unregistering a shortcut does not re-render the component that owns this hook. Consumers read
+ * the registry with `useSyncExternalStore` through the exposed snapshot getter and subscription
+ * function.
+ *
+ * The registry only describes shortcuts. Keyboard events are handled by `useHoneyHotkeys` itself.
+ *
+ * @returns A stable registry containing methods for reading, subscribing to, registering and
+ * unregistering shortcuts.
+ */
+export const useHoneyHotkeysRegistry = () => {
+  const hotkeysRef = useRef<HoneyRegisteredHotkey[]>([]);
+  const subscribersRef = useRef(new Set<() => void>());
+
+  /**
+   * Returns the current registered shortcuts snapshot.
+   *
+   * The snapshot keeps the same array identity until the registry changes.
+   *
+   * @returns The registered shortcuts in registration order.
+   */
+  const getHotkeysSnapshot = useCallback(() => hotkeysRef.current, []);
+
+  /**
+   * Subscribes to registry changes.
+   *
+   * @param subscriber - Callback invoked whenever the registered shortcuts snapshot changes.
+   * @returns A cleanup function that removes the subscriber.
+   */
+  const subscribeHotkeys = useCallback<HoneySubscribeHotkeys>(subscriber => {
+    subscribersRef.current.add(subscriber);
+
+    return () => {
+      subscribersRef.current.delete(subscriber);
+    };
+  }, []);
+
+  const notifyHotkeySubscribers = useCallback(() => {
+    subscribersRef.current.forEach(subscriber => subscriber());
+  }, []);
+
+  /**
+   * Registers a keyboard shortcut and publishes a new registry snapshot.
+   *
+   * @param hotkeyConfig - Description of the shortcut.
+   * @returns The registered shortcut with a generated ID.
+   */
+  const registerHotkey = useCallback<HoneyRegisterHotkey>(hotkeyConfig => {
+    const hotkey: HoneyRegisteredHotkey = {
+      ...hotkeyConfig,
+      id: generateEphemeralId(),
+    };
+
+    hotkeysRef.current = [...hotkeysRef.current, hotkey];
+
+    notifyHotkeySubscribers();
+
+    return hotkey;
+  }, []);
+
+  /**
+   * Unregisters a keyboard shortcut by ID.
+   *
+   * Subscribers are notified only when a shortcut with the supplied ID was present.
+   *
+   * @param targetHotkeyId - The ID of the shortcut to remove.
+   */
+  const unregisterHotkey = useCallback<HoneyUnregisterHotkey>(targetHotkeyId => {
+    const nextHotkeys = hotkeysRef.current.filter(hotkey => hotkey.id !== targetHotkeyId);
+
+    if (nextHotkeys.length !== hotkeysRef.current.length) {
+      hotkeysRef.current = nextHotkeys;
+
+      notifyHotkeySubscribers();
+    }
+  }, []);
+
+  return useMemo(
+    () => ({
+      getHotkeysSnapshot,
+      subscribeHotkeys,
+      registerHotkey,
+      unregisterHotkey,
+    }),
+    [],
+  );
+};
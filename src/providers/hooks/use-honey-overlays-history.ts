@@ -0,0 +1,330 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useHoneyLatest } from '@react-hive/honey-hooks';
+
+import { HONEY_OVERLAY_HISTORY_SEARCH_PARAM } from '../../constants';
+import type { HoneyOverlayHistory, HoneyOverlayId, Nullable } from '../../types';
+import type { HoneyRegisterOverlayDeepLink } from '../../contexts';
+
+interface HoneyOverlayHistoryState {
+  honeyOverlayKey: string;
+  /**
+   * Number of overlay history entries up to and including this one.
+   */
+  honeyOverlayDepth: number;
+}
+
+interface HoneyOverlayHistoryEntry {
+  overlayId: HoneyOverlayId;
+  historyKey: string;
+  /**
+   * Whether the entry was pushed to the history. Entries added while the store navigates the
+   * history are pushed once the navigation ends.
+   */
+  isPushed: boolean;
+  /**
+   * Whether the overlay was closed while the entries of other overlays were above its entry. The
+   * entry stays in the history until the history navigates below it.
+   */
+  isStale: boolean;
+}
+
+const isOverlayHistoryState = (state: unknown): state is HoneyOverlayHistoryState =>
+  typeof state === 'object' &&
+  state !== null &&
+  'honeyOverlayKey' in state &&
+  'honeyOverlayDepth' in state;
+
+/**
+ * Returns a URL with the overlay search parameter set to the history key, or removed.
+ *
+ * @param url - The URL to update, including the search and hash parts.
+ * @param historyKey - The history key, or `null` to remove the parameter.
+ *
+ * @returns The updated URL without the origin.
+ */
+const setOverlaySearchParam = (url: string, historyKey: Nullable<string>) => {
+  const parsedUrl = new URL(url, 'http://localhost');
+
+  if (historyKey === null) {
+    parsedUrl.searchParams.delete(HONEY_OVERLAY_HISTORY_SEARCH_PARAM);
+  } else {
+    parsedUrl.searchParams.set(HONEY_OVERLAY_HISTORY_SEARCH_PARAM, historyKey);
+  }
+
+  return `${parsedUrl.pathname}${parsedUrl.search}${parsedUrl.hash}`;
+};
+
+const getOverlaySearchParam = (url: string) =>
+  new URL(url, 'http://localhost').searchParams.get(HONEY_OVERLAY_HISTORY_SEARCH_PARAM);
+
+/**
+ * Keeps the overlays registered with a `historyKey` in sync with a history.
+ *
+ * Every such overlay owns one history entry stacked in the order the overlays were registered.
+ * Closing an overlay from the UI removes its entry, while navigating back requests the
+ * deactivation of the overlays whose entries were left. The entry of an overlay closed below other
+ * entries cannot be removed without navigating, so it is marked stale and skipped once the
+ * history navigates back to it.
+ *
+ * The history navigates asynchronously in browsers, so entries added while the store navigates
+ * are pushed only after the navigation ends. Otherwise, the navigation would discard them.
+ *
+ * A page opened from a deep link, such as `?overlay=settings`, gets an entry without the overlay
+ * search parameter below the overlay entry, so the Back button closes the overlay first.
+ *
+ * @param history - The history to synchronize with, or `null` to disable the synchronization.
+ * @param requestOverlayDeactivation - Requests the deactivation of an overlay by ID.
+ *
+ * @returns Functions the overlay store calls when overlays are registered, updated and
+ * unregistered, together with the deep link registration.
+ */
+export const useHoneyOverlaysHistory = (
+  history: Nullable<HoneyOverlayHistory>,
+  requestOverlayDeactivation: (overlayId: HoneyOverlayId) => void,
+) => {
+  const historyRef = useHoneyLatest(history);
+
+  const entriesRef = useRef<HoneyOverlayHistoryEntry[]>([]);
+  const deepLinksRef = useRef(new Map<string, () => void>());
+  // Navigations started by the store itself, which must not deactivate overlays again
+  const navigationsCountRef = useRef(0);
+
+  /**
+   * Pushes the entries that were added while the store navigated the history.
+   *
+   * An existing history entry is reused when the overlay is reopened by navigating forward to it,
+   * or when the page was opened from a deep link to the overlay.
+   */
+  const pushPendingHistoryEntries = useCallback(() => {
+    const history = historyRef.current;
+    if (!history || navigationsCountRef.current) {
+      return;
+    }
+
+    entriesRef.current.forEach((entry, entryIndex) => {
+      if (entry.isPushed) {
+        return;
+      }
+
+      entry.isPushed = true;
+
+      const state = history.getState();
+      const url = history.getUrl();
+
+      const nextState: HoneyOverlayHistoryState = {
+        honeyOverlayKey: entry.historyKey,
+        honeyOverlayDepth: entryIndex + 1,
+      };
+
+      const isCurrentEntry =
+        isOverlayHistoryState(state) &&
+        state.honeyOverlayKey === entry.historyKey &&
+        state.honeyOverlayDepth === nextState.honeyOverlayDepth;
+
+      if (isCurrentEntry) {
+        return;
+      }
+
+      if (!entryIndex && getOverlaySearchParam(url) === entry.historyKey) {
+        // Opened from a deep link, so the page without the overlay is placed below its entry. The
+        // state of the entry is kept, since a router may store its own state there
+        history.replace(state, setOverlaySearchParam(url, null));
+      }
+
+      history.push(nextState, setOverlaySearchParam(url, entry.historyKey));
+    });
+  }, []);
+
+  /**
+   * Navigates the history back below the stale entries at its top.
+   */
+  const removeTopStaleHistoryEntries = useCallback(() => {
+    const history = historyRef.current;
+    const entries = entriesRef.current;
+
+    let staleEntriesCount = 0;
+
+    while (
+      staleEntriesCount < entries.length &&
+      entries[entries.length - 1 - staleEntriesCount].isStale
+    ) {
+      staleEntriesCount++;
+    }
+
+    if (!history || !staleEntriesCount) {
+      return;
+    }
+
+    entriesRef.current = entries.slice(0, entries.length - staleEntriesCount);
+
+    navigationsCountRef.current++;
+
+    history.go(-staleEntriesCount);
+  }, []);
+
+  /**
+   * Adds the history entry of a registered overlay.
+   *
+   * @param overlayId - The ID of the registered overlay.
+   * @param historyKey - The history key of the overlay.
+   */
+  const pushOverlayHistoryEntry = useCallback((overlayId: HoneyOverlayId, historyKey: string) => {
+    if (!historyRef.current) {
+      return;
+    }
+
+    entriesRef.current.push({
+      overlayId,
+      historyKey,
+      isPushed: false,
+      isStale: false,
+    });
+
+    pushPendingHistoryEntries();
+  }, []);
+
+  /**
+   * Removes the history entries of unregistered overlays.
+   *
+   * The entries at the top of the history are removed by navigating back below them, while the
+   * entries below the entries of other overlays are marked stale.
+   *
+   * @param overlayIds - The IDs of the unregistered overlays.
+   */
+  const removeOverlayHistoryEntries = useCallback((overlayIds: Set<HoneyOverlayId>) => {
+    if (!entriesRef.current.some(entry => overlayIds.has(entry.overlayId))) {
+      return;
+    }
+
+    // Entries that were not pushed yet have nothing to remove from the history
+    entriesRef.current = entriesRef.current.filter(
+      entry => entry.isPushed || !overlayIds.has(entry.overlayId),
+    );
+
+    entriesRef.current.forEach(entry => {
+      if (overlayIds.has(entry.overlayId)) {
+        entry.isStale = true;
+      }
+    });
+
+    removeTopStaleHistoryEntries();
+  }, []);
+
+  /**
+   * Keeps the history entry of an updated overlay in sync with its new history key.
+   *
+   * An entry is added or removed when the overlay gains or loses its history key. A changed key
+   * replaces the overlay search parameter only when the entry is the current one, since the
+   * entries below it cannot be changed without navigating. An entry that was not pushed yet is
+   * pushed with the new key.
+   *
+   * @param overlayId - The ID of the updated overlay.
+   * @param historyKey - The new history key of the overlay, if any.
+   */
+  const updateOverlayHistoryEntry = useCallback(
+    (overlayId: HoneyOverlayId, historyKey: string | undefined) => {
+      const history = historyRef.current;
+      if (!history) {
+        return;
+      }
+
+      const entries = entriesRef.current;
+      const entry = entries.find(entry => entry.overlayId === overlayId && !entry.isStale);
+
+      if (!entry) {
+        if (historyKey !== undefined) {
+          pushOverlayHistoryEntry(overlayId, historyKey);
+        }
+
+        return;
+      }
+
+      if (historyKey === undefined) {
+        removeOverlayHistoryEntries(new Set([overlayId]));
+        return;
+      }
+
+      if (entry.historyKey === historyKey) {
+        return;
+      }
+
+      entry.historyKey = historyKey;
+
+      if (entry.isPushed && entry === entries[entries.length - 1]) {
+        const nextState: HoneyOverlayHistoryState = {
+          honeyOverlayKey: historyKey,
+          honeyOverlayDepth: entries.length,
+        };
+
+        history.replace(nextState, setOverlaySearchParam(history.getUrl(), historyKey));
+      }
+    },
+    [],
+  );
+
+  const registerOverlayDeepLink = useCallback<HoneyRegisterOverlayDeepLink>((historyKey, open) => {
+    deepLinksRef.current.set(historyKey, open);
+
+    const history = historyRef.current;
+
+    if (
+      history &&
+      getOverlaySearchParam(history.getUrl()) === historyKey &&
+      !entriesRef.current.some(entry => entry.historyKey === historyKey && !entry.isStale)
+    ) {
+      open();
+    }
+
+    return () => {
+      if (deepLinksRef.current.get(historyKey) === open) {
+        deepLinksRef.current.delete(historyKey);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!history) {
+      return;
+    }
+
+    const handleNavigation = () => {
+      if (navigationsCountRef.current) {
+        navigationsCountRef.current--;
+
+        pushPendingHistoryEntries();
+        return;
+      }
+
+      const state = history.getState();
+      const depth = isOverlayHistoryState(state) ? state.honeyOverlayDepth : 0;
+
+      const leftEntries = entriesRef.current.slice(depth);
+      entriesRef.current = entriesRef.current.slice(0, depth);
+
+      // The top-level overlay is deactivated first, while closed overlays are skipped
+      leftEntries.reverse().forEach(entry => {
+        if (!entry.isStale) {
+          requestOverlayDeactivation(entry.overlayId);
+        }
+      });
+
+      if (isOverlayHistoryState(state) && depth > entriesRef.current.length) {
+        // Navigated forward to the entry of a closed overlay
+        deepLinksRef.current.get(state.honeyOverlayKey)?.();
+        return;
+      }
+
+      // Navigated back to the entry of an overlay that was already closed
+      removeTopStaleHistoryEntries();
+    };
+
+    return history.listen(handleNavigation);
+  }, [history]);
+
+  return {
+    pushOverlayHistoryEntry,
+    updateOverlayHistoryEntry,
+    removeOverlayHistoryEntries,
+    registerOverlayDeepLink,
+  };
+};
@@ -1,31 +1,233 @@
 import { useCallback, useEffect, useMemo, useRef } from 'react';
-import { generateEphemeralId } from '@react-hive/honey-utils';
+import { assert, generateEphemeralId } from '@react-hive/honey-utils';
 import type { RefObject } from 'react';
 
+import {
+  HONEY_OVERLAY_BASE_Z_INDEX,
+  HONEY_OVERLAY_IGNORE_ATTRIBUTE,
+  HONEY_OVERLAY_PRIORITY,
+} from '../../constants';
+import { useHoneyOverlaysHistory } from './use-honey-overlays-history';
 import type {
   HoneyActiveOverlay,
   HoneyKeyboardEventCode,
-  HoneyOverlayEventListener,
+  HoneyOverlayBuiltInEventType,
+  HoneyOverlayConfig,
+  HoneyOverlayEventControl,
+  HoneyOverlayEventHandler,
+  HoneyOverlayEventListeners,
+  HoneyOverlayEventListenerHandler,
+  HoneyOverlayEventRecord,
+  HoneyOverlayEventType,
+  HoneyOverlayHistory,
+  HoneyOverlayId,
+  HoneyOverlayKeyboardEventType,
+  HoneyOverlayNativeEvent,
   Nullable,
 } from '../../types';
-import type { HoneyRegisterOverlay, HoneyUnregisterOverlay } from '../../contexts';
+import type {
+  HoneyDispatchOverlayEvent,
+  HoneyGetOverlayChildren,
+  HoneyRegisterOverlay,
+  HoneySubscribeOverlayEvents,
+  HoneySubscribeUnhandledKeyDown,
+  HoneyUnregisterOverlay,
+  HoneyUpdateOverlay,
+} from '../../contexts';
+
+const BUILT_IN_OVERLAY_EVENT_TYPES: HoneyOverlayBuiltInEventType[] = [
+  'keyup',
+  'keydown',
+  'pointerdown-outside',
+  'focusin-outside',
+];
+
+const isKeyboardOverlayEventType = (
+  eventType: HoneyOverlayEventType,
+): eventType is HoneyOverlayKeyboardEventType => eventType === 'keyup' || eventType === 'keydown';
+
+/**
+ * Checks whether the target of a native event is inside the overlay container.
+ *
+ * @param overlay - The overlay to check against.
+ * @param e - The native event.
+ *
+ * @returns `true` when the event target is the container or one of its descendants.
+ */
+const isEventInsideOverlay = (overlay: HoneyActiveOverlay, e: Event) =>
+  e.target instanceof Node && overlay.containerRef.current?.contains(e.target) === true;
+
+/**
+ * Returns the z-index of an overlay placed above the overlays with the same priority.
+ *
+ * @param overlays - The overlays of the stack, without the placed overlay.
+ * @param priority - The priority of the placed overlay.
+ *
+ * @returns The z-index for the placed overlay.
+ */
+const getOverlayZIndex = (overlays: HoneyActiveOverlay[], priority: number) => {
+  const samePriorityZIndexes = overlays
+    .filter(overlay => overlay.priority === priority)
+    .map(overlay => overlay.zIndex);
+
+  return samePriorityZIndexes.length
+    ? Math.max(...samePriorityZIndexes) + 1
+    : HONEY_OVERLAY_BASE_Z_INDEX + priority;
+};
+
+/**
+ * Inserts an overlay above every overlay with the same or a lower priority.
+ *
+ * @param overlays - The overlays of the stack, without the inserted overlay.
+ * @param overlay - The overlay to insert.
+ *
+ * @returns A new stack containing the overlay.
+ */
+const insertOverlay = (overlays: HoneyActiveOverlay[], overlay: HoneyActiveOverlay) => {
+  const higherPriorityOverlayIndex = overlays.findIndex(
+    stackedOverlay => stackedOverlay.priority > overlay.priority,
+  );
+
+  const overlayIndex =
+    higherPriorityOverlayIndex === -1 ? overlays.length : higherPriorityOverlayIndex;
+
+  return [...overlays.slice(0, overlayIndex), overlay, ...overlays.slice(overlayIndex)];
+};
+
+const NON_HIDEABLE_TAG_NAMES = ['SCRIPT', 'STYLE', 'LINK', 'TEMPLATE'];
+
+/**
+ * Makes every element outside the given containers inert and hidden from assistive technologies.
+ *
+ * Starting from the body, siblings of the containers and of their ancestors receive the `inert`
+ * and `aria-hidden` attributes. Elements that are already inert are left untouched, so the
+ * attributes managed elsewhere, such as on inactive overlays, are not overwritten.
+ *
+ * Elements marked with the `HONEY_OVERLAY_IGNORE_ATTRIBUTE` attribute always stay interactive.
+ *
+ * @param overlayContainers - The elements that must stay interactive.
+ *
+ * @returns A function that restores the original attributes of the hidden elements.
+ */
+const hideOutsideElements = (overlayContainers: HTMLElement[]) => {
+  const containers = [
+    ...overlayContainers,
+    ...document.querySelectorAll<HTMLElement>(`[${HONEY_OVERLAY_IGNORE_ATTRIBUTE}]`),
+  ];
+
+  const keptElements = new Set<Element>();
+
+  containers.forEach(container => {
+    let element: Nullable<Element> = container;
+
+    while (element && element !== document.body) {
+      keptElements.add(element);
+
+      element = element.parentElement;
+    }
+  });
+
+  const hiddenElements: [Element, Nullable<string>][] = [];
+
+  const hideChildren = (parent: Element) => {
+    Array.from(parent.children).forEach(child => {
+      if (keptElements.has(child)) {
+        // The content of the containers themselves stays untouched
+        if (!containers.includes(child as HTMLElement)) {
+          hideChildren(child);
+        }
+
+        return;
+      }
+
+      if (NON_HIDEABLE_TAG_NAMES.includes(child.tagName) || child.hasAttribute('inert')) {
+        return;
+      }
+
+      hiddenElements.push([child, child.getAttribute('aria-hidden')]);
+
+      child.setAttribute('inert', '');
+      child.setAttribute('aria-hidden', 'true');
+    });
+  };
+
+  hideChildren(document.body);
+
+  return () => {
+    hiddenElements.forEach(([element, ariaHidden]) => {
+      element.removeAttribute('inert');
+
+      if (ariaHidden === null) {
+        element.removeAttribute('aria-hidden');
+      } else {
+        element.setAttribute('aria-hidden', ariaHidden);
+      }
+    });
+  };
+};
+
+interface UseHoneyOverlaysOptions {
+  /**
+   * The history that overlays registered with a `historyKey` are kept in sync with.
+   *
+   * When `null`, history keys are ignored.
+   *
+   * @default null
+   */
+  history?: Nullable<HoneyOverlayHistory>;
+}
 
 /**
- * Manages the active overlay stack and dispatches global keyboard events.
+ * Manages the active overlay stack and dispatches global keyboard, pointer, focus, and custom
+ * events.
  *
  * Registered overlays are stored in a ref so adding or removing an overlay does not re-render
  * the component that owns this hook. The hook exposes a snapshot getter and subscription
  * function that consumers can use with `useSyncExternalStore` to react to stack changes.
  *
- * Overlays are kept in stack order. The most recently registered overlay is treated as the
- * top-level overlay and is the only overlay that receives global keyboard events.
+ * Overlays are kept in stack order: by priority first, then by registration order. The last
+ * overlay in the stack is treated as the top-level overlay and receives events first. Keyboard
+ * events the top-level overlay does not handle bubble to the overlay below it. A handled event
+ * continues to the overlay below only when a listener was added with the `propagate` option and
+ * did not stop the propagation.
+ *
+ * While a modal overlay is in the stack, everything outside the containers of the top-most modal
+ * overlay and the overlays stacked above it is made inert and hidden from assistive technologies.
+ *
+ * Overlays registered with a `historyKey` are kept in sync with the history passed in the options.
+ *
+ * @param options - Optional configuration for the overlay store.
  *
  * @returns A stable overlay store containing methods for reading and subscribing to the stack,
- * together with helpers for registering and unregistering overlays.
+ * together with helpers for registering, updating and unregistering overlays and dispatching
+ * custom events.
  */
-export const useHoneyOverlays = () => {
+export const useHoneyOverlays = ({ history = null }: UseHoneyOverlaysOptions = {}) => {
   const overlaysRef = useRef<HoneyActiveOverlay[]>([]);
   const subscribersRef = useRef(new Set<() => void>());
+  const restoreHiddenElementsRef = useRef<Nullable<() => void>>(null);
+  const eventSubscribersRef = useRef(new Set<(eventRecord: HoneyOverlayEventRecord) => void>());
+  const unhandledKeyDownSubscribersRef = useRef(new Set<(e: KeyboardEvent) => void>());
+  const registrationCounterRef = useRef(0);
+  // Callbacks used to request the deactivation of overlays from the store
+  const deactivateCallbacksRef = useRef(new WeakMap<HoneyActiveOverlay, () => void>());
+  // Functions replacing the listeners added for the handlers of the overlay configs
+  const configHandlersUpdatersRef = useRef(
+    new WeakMap<HoneyActiveOverlay, (overlayConfig: HoneyOverlayConfig) => void>(),
+  );
+
+  const {
+    pushOverlayHistoryEntry,
+    updateOverlayHistoryEntry,
+    removeOverlayHistoryEntries,
+    registerOverlayDeepLink,
+  } = useHoneyOverlaysHistory(history, overlayId => {
+    const overlay = overlaysRef.current.find(overlay => overlay.id === overlayId);
+
+    if (overlay) {
+      deactivateCallbacksRef.current.get(overlay)?.();
+    }
+  });
 
   /**
    * Returns the current overlay stack snapshot.
@@ -33,7 +235,7 @@ export const useHoneyOverlays = () => {
    * The snapshot keeps the same array identity until the stack changes, making this getter
    * compatible with `useSyncExternalStore`.
    *
-   * @returns The current active overlays in registration order.
+   * @returns The current active overlays in stack order.
    */
   const getOverlaysSnapshot = useCallback(() => overlaysRef.current, []);
 
@@ -61,37 +263,182 @@ export const useHoneyOverlays = () => {
     subscribersRef.current.forEach(subscriber => subscriber());
   }, []);
 
+  /**
+   * Subscribes to events delivered to overlay listeners.
+   *
+   * @param subscriber - Callback invoked with a record of every event an overlay receives.
+   * @returns A cleanup function that removes the subscriber.
+   */
+  const subscribeOverlayEvents = useCallback<HoneySubscribeOverlayEvents>(subscriber => {
+    eventSubscribersRef.current.add(subscriber);
+
+    return () => {
+      eventSubscribersRef.current.delete(subscriber);
+    };
+  }, []);
+
+  /**
+   * Subscribes to keydown events that are not handled by any overlay.
+   *
+   * @param subscriber - Callback invoked with every keydown event that continued past the bottom
+   * of the overlay stack.
+   * @returns A cleanup function that removes the subscriber.
+   */
+  const subscribeUnhandledKeyDown = useCallback<HoneySubscribeUnhandledKeyDown>(subscriber => {
+    unhandledKeyDownSubscribersRef.current.add(subscriber);
+
+    return () => {
+      unhandledKeyDownSubscribersRef.current.delete(subscriber);
+    };
+  }, []);
+
+  /**
+   * Hides the content behind the top-most modal overlay, or restores it when the stack no
+   * longer contains a modal overlay.
+   *
+   * Overlays stacked above the top-most modal overlay, such as popups opened from a dialog, stay
+   * interactive. The hidden elements are recalculated whenever the stack or an overlay container
+   * changes.
+   */
+  const updateHiddenElements = useCallback(() => {
+    restoreHiddenElementsRef.current?.();
+    restoreHiddenElementsRef.current = null;
+
+    const overlays = overlaysRef.current;
+    const topModalOverlayIndex = overlays.findLastIndex(overlay => overlay.modal);
+
+    if (topModalOverlayIndex === -1) {
+      return;
+    }
+
+    const containers = overlays
+      .slice(topModalOverlayIndex)
+      .map(overlay => overlay.containerRef.current)
+      .filter(container => container !== null);
+
+    if (containers.length) {
+      restoreHiddenElementsRef.current = hideOutsideElements(containers);
+    }
+  }, []);
+
+  /**
+   * Delivers an event to an overlay and keeps moving it down the stack while the notified
+   * overlay asks for propagation.
+   *
+   * @param overlayIndex - Stack index of the first overlay that receives the event.
+   * @param eventType - The overlay event type.
+   * @param e - The native or custom event.
+   *
+   * @returns `true` when the event continued past the bottom of the stack.
+   */
+  const notifyOverlaysFrom = useCallback(
+    <EventType extends HoneyOverlayEventType>(
+      overlayIndex: number,
+      eventType: EventType,
+      e: HoneyOverlayNativeEvent<EventType>,
+    ) => {
+      // Listeners may deactivate overlays while the event is being dispatched
+      const overlays = overlaysRef.current;
+
+      for (let index = overlayIndex; index >= 0; index--) {
+        if (!overlays[index].notifyListeners(eventType, e)) {
+          return false;
+        }
+      }
+
+      return true;
+    },
+    [],
+  );
+
   useEffect(() => {
     /**
-     * Handles global keyup events and forwards them to the top-level overlay.
+     * Handles global keyboard events and forwards them to the top-level overlay.
+     *
+     * The latest registered overlay receives keyboard events first. The event reaches overlays
+     * lower in the stack only when the overlays above do not handle the key or let the event
+     * propagate, so inactive or visually hidden overlays do not react to the same key press.
      *
-     * Only the latest registered overlay receives keyboard events. This prevents inactive
-     * or visually hidden overlays lower in the stack from reacting to the same key press.
+     * A keydown event that continues past the bottom of the stack, and whose key is not handled
+     * on keyup by any overlay, is passed to the unhandled keydown subscribers.
      *
      * @param e - The native keyboard event emitted by the document.
      */
-    const handleKeyUp = (e: KeyboardEvent) => {
-      if (!overlaysRef.current.length) {
-        // No overlays to handle key events.
-        return;
-      }
+    const handleKeyboardEvent = (e: KeyboardEvent) => {
+      const overlays = overlaysRef.current;
 
-      const topLevelOverlay = overlaysRef.current[overlaysRef.current.length - 1];
+      const isPastOverlays = notifyOverlaysFrom(
+        overlays.length - 1,
+        e.type as HoneyOverlayKeyboardEventType,
+        e,
+      );
 
-      topLevelOverlay.notifyListeners('keyup', e.code as HoneyKeyboardEventCode, e);
+      if (
+        e.type === 'keydown' &&
+        isPastOverlays &&
+        !overlays.some(overlay =>
+          overlay.isListeningForKey('keyup', e.code as HoneyKeyboardEventCode),
+        )
+      ) {
+        unhandledKeyDownSubscribersRef.current.forEach(subscriber => subscriber(e));
+      }
     };
 
-    document.addEventListener('keyup', handleKeyUp);
+    /**
+     * Creates a handler that forwards a native event to the top-level overlay when the event
+     * target is outside its container.
+     *
+     * The event continues to the overlays below only while their listeners ask for propagation
+     * and the target is outside their containers as well.
+     *
+     * The listeners are attached in the bubbling phase, so React handlers of the overlay run
+     * first. Nested overlays rendered through portals are recognised by `HoneyOverlay` itself,
+     * because their React events still bubble through the parent overlay.
+     *
+     * @param eventType - The outside overlay event type to dispatch.
+     *
+     * @returns The native event handler.
+     */
+    const createOutsideEventHandler =
+      <EventType extends 'pointerdown-outside' | 'focusin-outside'>(eventType: EventType) =>
+      (e: HoneyOverlayNativeEvent<EventType>) => {
+        const overlays = overlaysRef.current;
+
+        for (let index = overlays.length - 1; index >= 0; index--) {
+          const overlay = overlays[index];
+
+          if (isEventInsideOverlay(overlay, e) || !overlay.notifyListeners(eventType, e)) {
+            break;
+          }
+        }
+      };
+
+    const handlePointerDown = createOutsideEventHandler('pointerdown-outside');
+    const handleFocusIn = createOutsideEventHandler('focusin-outside');
+
+    document.addEventListener('keyup', handleKeyboardEvent);
+    document.addEventListener('keydown', handleKeyboardEvent);
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('focusin', handleFocusIn);
 
     return () => {
-      document.removeEventListener('keyup', handleKeyUp);
+      document.removeEventListener('keyup', handleKeyboardEvent);
+      document.removeEventListener('keydown', handleKeyboardEvent);
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('focusin', handleFocusIn);
+
+      restoreHiddenElementsRef.current?.();
+      restoreHiddenElementsRef.current = null;
     };
   }, []);
 
   /**
-   * Registers a new overlay and adds it to the top of the overlay stack.
+   * Registers a new overlay and adds it to the overlay stack above every overlay with the same or
+   * a lower priority.
    *
-   * If no custom ID is provided, an ephemeral ID is generated automatically.
+   * If no custom ID is provided, an ephemeral ID is generated automatically. The z-index of the
+   * overlay is computed from its priority and the overlays with the same priority that are still
+   * active, so it changes only when the priority of the overlay is updated.
    * The returned overlay object exposes methods for storing its container element,
    * subscribing to overlay events, removing event listeners, and notifying registered
    * listeners when matching events occur.
@@ -99,15 +446,86 @@ export const useHoneyOverlays = () => {
    * Registering creates a new stack snapshot and notifies overlay stack subscribers without
    * re-rendering the component that owns this hook.
    *
-   * @param overlayConfig - The overlay configuration, including an optional ID, optional keyup
-   * handler, and optional list of keyboard codes the overlay should listen to.
+   * @param overlayConfig - The overlay configuration, including an optional ID, priority, modal
+   * flag, event handlers, and optional list of keyboard codes the overlay should listen to.
    *
    * @returns The registered active overlay instance.
    */
   const registerOverlay = useCallback<HoneyRegisterOverlay>(overlayConfig => {
     const overlayId = overlayConfig.id ?? generateEphemeralId();
+    const {
+      priority = HONEY_OVERLAY_PRIORITY.default,
+      modal = false,
+      trapFocus = false,
+      listenKeys = [],
+    } = overlayConfig;
+
+    const listeners: HoneyOverlayEventListeners = {};
+
+    /**
+     * Replaces the listener added for a handler of the overlay config, keeping its position among
+     * the listeners of the event type.
+     *
+     * @param type - The event type of the handler.
+     * @param prevHandler - The handler of the previous config, if any.
+     * @param nextHandler - The handler of the next config, if any.
+     */
+    const replaceConfigListener = <EventType extends HoneyOverlayBuiltInEventType>(
+      type: EventType,
+      prevHandler: HoneyOverlayEventHandler<EventType, never> | undefined,
+      nextHandler: HoneyOverlayEventHandler<EventType, never> | undefined,
+    ) => {
+      if (prevHandler === nextHandler) {
+        return;
+      }
+
+      if (!listeners[type]) {
+        listeners[type] = [];
+      }
+
+      const typeListeners = listeners[type];
+      const prevListenerIndex = prevHandler
+        ? (typeListeners?.findIndex(([listenerHandler]) => listenerHandler === prevHandler) ?? -1)
+        : -1;
+
+      if (prevListenerIndex === -1) {
+        if (nextHandler) {
+          // Listeners of the config are notified before the listeners added later
+          typeListeners?.unshift([nextHandler, {}]);
+        }
+      } else if (nextHandler) {
+        typeListeners?.splice(prevListenerIndex, 1, [nextHandler, {}]);
+      } else {
+        typeListeners?.splice(prevListenerIndex, 1);
+      }
+    };
+
+    let appliedConfig: Nullable<HoneyOverlayConfig> = null;
+
+    /**
+     * Replaces the listeners added for the handlers of the previously applied overlay config.
+     *
+     * @param nextConfig - The overlay config whose handlers should be listening.
+     */
+    const applyConfigHandlers = (nextConfig: HoneyOverlayConfig) => {
+      replaceConfigListener('keyup', appliedConfig?.onKeyUp, nextConfig.onKeyUp);
+      replaceConfigListener('keydown', appliedConfig?.onKeyDown, nextConfig.onKeyDown);
+      replaceConfigListener(
+        'pointerdown-outside',
+        appliedConfig?.onPointerDownOutside,
+        nextConfig.onPointerDownOutside,
+      );
+      replaceConfigListener(
+        'focusin-outside',
+        appliedConfig?.onFocusInOutside,
+        nextConfig.onFocusInOutside,
+      );
+
+      appliedConfig = nextConfig;
+    };
+
+    applyConfigHandlers(overlayConfig);
 
-    const listeners: HoneyOverlayEventListener[] = [['keyup', overlayConfig.onKeyUp]];
     const containerRef: RefObject<Nullable<HTMLDivElement>> = {
       current: null,
     };
@@ -115,25 +533,46 @@ export const useHoneyOverlays = () => {
     const overlay: HoneyActiveOverlay = {
       containerRef,
       id: overlayId,
+      priority,
+      modal,
+      trapFocus,
+      parentId: overlayConfig.parentId ?? null,
+      registrationOrder: ++registrationCounterRef.current,
+      listenKeys,
+      zIndex: getOverlayZIndex(overlaysRef.current, priority),
       /**
        * Stores the overlay container element reference.
        *
        * This allows consumers and overlay helpers to access the DOM element associated
-       * with the active overlay after it has been mounted.
+       * with the active overlay after it has been mounted. The content hidden behind modal
+       * overlays is recalculated, since it depends on the overlay containers.
        *
        * @param element - The overlay container element, or `null` when unavailable.
        */
       setContainerRef: element => {
+        if (containerRef.current === element) {
+          return;
+        }
+
         containerRef.current = element;
+
+        if (overlaysRef.current.includes(overlay)) {
+          updateHiddenElements();
+        }
       },
       /**
        * Adds a listener for a supported overlay event.
        *
        * @param type - The overlay event type to listen for.
        * @param handler - The event handler to call when the event is notified.
+       * @param options - Options that control default prevention and propagation.
        */
-      addListener: (type, handler) => {
-        listeners.push([type, handler]);
+      addListener: (type, handler, options = {}) => {
+        if (!listeners[type]) {
+          listeners[type] = [];
+        }
+
+        listeners[type]?.push([handler, options]);
       },
       /**
        * Removes a previously registered overlay event listener.
@@ -144,44 +583,124 @@ export const useHoneyOverlays = () => {
        * @param targetHandler - The exact handler reference to remove.
        */
       removeListener: (targetType, targetHandler) => {
-        const targetListenerIndex = listeners.findIndex(
-          ([type, listenerHandler]) => type === targetType && listenerHandler === targetHandler,
-        );
+        const typeListeners = listeners[targetType];
+
+        const targetListenerIndex =
+          typeListeners?.findIndex(([listenerHandler]) => listenerHandler === targetHandler) ?? -1;
 
         if (targetListenerIndex !== -1) {
-          listeners.splice(targetListenerIndex, 1);
+          typeListeners?.splice(targetListenerIndex, 1);
         }
       },
+      getListenersCount: () =>
+        Object.values(listeners).reduce(
+          (listenersCount, typeListeners) => listenersCount + (typeListeners?.length ?? 0),
+          0,
+        ),
+      isListeningForKey: (eventType, keyCode) =>
+        (!overlay.listenKeys.length || overlay.listenKeys.includes(keyCode)) &&
+        Boolean(listeners[eventType]?.length),
       /**
        * Notifies matching listeners for a specific overlay event.
        *
-       * If `listenKeys` is provided in the overlay config, listeners are called only when
-       * the received key code is included in that list. When no `listenKeys` are provided,
-       * all key codes are accepted.
+       * For keyboard events, if `listenKeys` is provided in the overlay config, listeners are
+       * called only when the received key code is included in that list. When no `listenKeys`
+       * are provided, all key codes are accepted.
+       *
+       * The default action of the event is prevented before listeners are called when at least
+       * one matching listener asks for it. By default, only `keyup` listeners do, ensuring handled
+       * overlay key releases do not trigger default browser behaviour.
        *
-       * The native event is prevented before listeners are called, ensuring handled overlay
-       * keyboard interactions do not trigger default browser behaviour.
+       * A keyboard event the overlay does not handle, either because the key is not listed in
+       * `listenKeys` or because there are no matching listeners, continues down the stack.
+       * A handled event continues only when a listener asked for propagation and no listener
+       * called `control.stopPropagation()`.
        *
        * @param targetEventType - The event type being dispatched.
-       * @param keyCode - The keyboard code associated with the event.
-       * @param e - The native keyboard event.
+       * @param e - The native or custom event.
+       *
+       * @returns `true` when the event should continue to the overlay below.
        */
-      notifyListeners: (targetEventType, keyCode, e) => {
-        const listenKeys = overlayConfig.listenKeys ?? [];
+      notifyListeners: (targetEventType, e) => {
+        const isKeyboardEvent = isKeyboardOverlayEventType(targetEventType);
+        const keyCode = (e as KeyboardEvent).code as HoneyKeyboardEventCode;
+
+        if (isKeyboardEvent && !overlay.isListeningForKey(targetEventType, keyCode)) {
+          // The overlay does not handle this key, so the event moves on to the overlay below
+          return true;
+        }
+
+        // Copy the listeners, so handlers can remove themselves while being notified
+        const matchingListeners = [...(listeners[targetEventType] ?? [])];
+
+        if (!matchingListeners.length) {
+          return isKeyboardEvent;
+        }
 
-        if (!listenKeys.length || listenKeys.includes(keyCode)) {
-          e.preventDefault();
+        const shouldPreventDefault = matchingListeners.some(
+          ([, { preventDefault = targetEventType === 'keyup' }]) => preventDefault,
+        );
 
-          listeners.forEach(([eventType, listener]) => {
-            if (eventType === targetEventType) {
-              listener(keyCode, overlay, e);
-            }
-          });
+        if (shouldPreventDefault) {
+          (e as Event).preventDefault();
         }
+
+        if (eventSubscribersRef.current.size) {
+          const eventRecord: HoneyOverlayEventRecord = {
+            overlayId: overlay.id,
+            eventType: targetEventType,
+            keyCode: isKeyboardEvent ? keyCode : undefined,
+            timeStamp: Date.now(),
+          };
+
+          eventSubscribersRef.current.forEach(subscriber => subscriber(eventRecord));
+        }
+
+        let isPropagationStopped = false;
+
+        const control: HoneyOverlayEventControl = {
+          stopPropagation: () => {
+            isPropagationStopped = true;
+          },
+        };
+
+        matchingListeners.forEach(([handler]) => {
+          if (isKeyboardEvent) {
+            (handler as HoneyOverlayEventListenerHandler)(
+              keyCode,
+              overlay,
+              e as KeyboardEvent,
+              control,
+            );
+          } else {
+            (
+              handler as (
+                overlay: HoneyActiveOverlay,
+                e: Event,
+                control: HoneyOverlayEventControl,
+              ) => void
+            )(overlay, e as Event, control);
+          }
+        });
+
+        return (
+          !isPropagationStopped && matchingListeners.some(([, { propagate = false }]) => propagate)
+        );
       },
     };
 
-    overlaysRef.current = [...overlaysRef.current, overlay];
+    overlaysRef.current = insertOverlay(overlaysRef.current, overlay);
+    configHandlersUpdatersRef.current.set(overlay, applyConfigHandlers);
+
+    if (overlayConfig.onDeactivate) {
+      deactivateCallbacksRef.current.set(overlay, overlayConfig.onDeactivate);
+    }
+
+    if (overlayConfig.historyKey !== undefined) {
+      pushOverlayHistoryEntry(overlayId, overlayConfig.historyKey);
+    }
+
+    updateHiddenElements();
 
     notifyOverlaySubscribers();
 
@@ -189,29 +708,191 @@ export const useHoneyOverlays = () => {
   }, []);
 
   /**
-   * Unregisters an overlay by ID and removes it from the overlay stack.
+   * Updates a registered overlay in place with a new configuration.
+   *
+   * Unlike unregistering and registering the overlay again, its descendants stay registered and
+   * its history entry is kept. An overlay whose priority changes is moved above the overlays with
+   * the new priority and receives a new z-index. The ID of the overlay cannot be changed.
+   *
+   * Subscribers are notified only when the configuration changes the registered overlay.
+   *
+   * @param overlayId - The ID of the overlay to update.
+   * @param overlayConfig - The new overlay configuration.
+   */
+  const updateOverlay = useCallback<HoneyUpdateOverlay>((overlayId, overlayConfig) => {
+    const overlay = overlaysRef.current.find(overlay => overlay.id === overlayId);
+    if (!overlay) {
+      return;
+    }
+
+    const {
+      priority = HONEY_OVERLAY_PRIORITY.default,
+      modal = false,
+      trapFocus = false,
+      listenKeys = [],
+      parentId = null,
+    } = overlayConfig;
+
+    configHandlersUpdatersRef.current.get(overlay)?.(overlayConfig);
+
+    if (overlayConfig.onDeactivate) {
+      deactivateCallbacksRef.current.set(overlay, overlayConfig.onDeactivate);
+    } else {
+      deactivateCallbacksRef.current.delete(overlay);
+    }
+
+    updateOverlayHistoryEntry(overlayId, overlayConfig.historyKey);
+
+    overlay.listenKeys = listenKeys;
+
+    if (
+      overlay.priority === priority &&
+      overlay.modal === modal &&
+      overlay.trapFocus === trapFocus &&
+      overlay.parentId === parentId
+    ) {
+      return;
+    }
+
+    overlay.modal = modal;
+    overlay.trapFocus = trapFocus;
+    overlay.parentId = parentId;
+
+    if (overlay.priority === priority) {
+      // A new snapshot is published, so subscribers read the updated overlay
+      overlaysRef.current = [...overlaysRef.current];
+    } else {
+      const otherOverlays = overlaysRef.current.filter(
+        stackedOverlay => stackedOverlay !== overlay,
+      );
+
+      overlay.priority = priority;
+      overlay.zIndex = getOverlayZIndex(otherOverlays, priority);
+
+      overlaysRef.current = insertOverlay(otherOverlays, overlay);
+    }
+
+    updateHiddenElements();
+
+    notifyOverlaySubscribers();
+  }, []);
+
+  /**
+   * Returns the overlays whose `parentId` is the given overlay ID.
+   *
+   * @param overlayId - The ID of the parent overlay.
+   *
+   * @returns The child overlays in stack order.
+   */
+  const getOverlayChildren = useCallback<HoneyGetOverlayChildren>(
+    overlayId => overlaysRef.current.filter(overlay => overlay.parentId === overlayId),
+    [],
+  );
+
+  /**
+   * Unregisters an overlay by ID and removes it from the overlay stack together with all of its
+   * descendants.
+   *
+   * This should usually be called when an overlay is deactivated or unmounted. Descendants are
+   * removed even when their own components are still mounted, so an ancestor that unmounts first
+   * does not leave orphaned registrations behind. Their `onDeactivate` callbacks are invoked
+   * after the new stack is published.
    *
-   * This should usually be called when an overlay is deactivated or unmounted.
    * Subscribers are notified only when an overlay with the supplied ID was present.
    *
    * @param targetOverlayId - The ID of the overlay to remove.
    */
   const unregisterOverlay = useCallback<HoneyUnregisterOverlay>(targetOverlayId => {
-    const nextOverlays = overlaysRef.current.filter(overlay => overlay.id !== targetOverlayId);
+    if (!overlaysRef.current.some(overlay => overlay.id === targetOverlayId)) {
+      return;
+    }
+
+    const removedOverlayIds = new Set<HoneyOverlayId>([targetOverlayId]);
+    const descendants: HoneyActiveOverlay[] = [];
+
+    // Descendants can be anywhere in the stack, so it is scanned until no new descendant is found
+    let isDescendantFound = true;
 
-    if (nextOverlays.length !== overlaysRef.current.length) {
-      overlaysRef.current = nextOverlays;
+    while (isDescendantFound) {
+      isDescendantFound = false;
 
-      notifyOverlaySubscribers();
+      overlaysRef.current.forEach(overlay => {
+        if (
+          overlay.parentId !== null &&
+          removedOverlayIds.has(overlay.parentId) &&
+          !removedOverlayIds.has(overlay.id)
+        ) {
+          removedOverlayIds.add(overlay.id);
+          descendants.push(overlay);
+
+          isDescendantFound = true;
+        }
+      });
     }
+
+    overlaysRef.current = overlaysRef.current.filter(overlay => !removedOverlayIds.has(overlay.id));
+
+    updateHiddenElements();
+
+    removeOverlayHistoryEntries(removedOverlayIds);
+
+    notifyOverlaySubscribers();
+
+    descendants.forEach(descendant => {
+      deactivateCallbacksRef.current.get(descendant)?.();
+    });
   }, []);
 
+  /**
+   * Dispatches a user-defined event through the overlay stack.
+   *
+   * The event is delivered as a cancelable `CustomEvent` to the top-level overlay, or to the
+   * overlay with the given ID, and continues down the stack while listeners ask for propagation.
+   *
+   * @param eventType - The custom event name. Built-in overlay event names are not allowed.
+   * @param detail - Optional payload exposed as `e.detail` to listeners.
+   * @param options - Optional dispatch options, such as the target overlay ID.
+   *
+   * @returns `false` when a listener prevented the default action of the event, otherwise `true`.
+   */
+  const dispatchOverlayEvent = useCallback<HoneyDispatchOverlayEvent>(
+    (eventType, detail, { overlayId } = {}) => {
+      assert(
+        !BUILT_IN_OVERLAY_EVENT_TYPES.includes(eventType as HoneyOverlayBuiltInEventType),
+        `[@react-hive/honey-layout]: The "${eventType}" overlay event is dispatched by the overlay store and cannot be dispatched manually.`,
+      );
+
+      const e = new CustomEvent(eventType, {
+        detail,
+        cancelable: true,
+      });
+
+      const overlayIndex =
+        overlayId === undefined
+          ? overlaysRef.current.length - 1
+          : overlaysRef.current.findIndex(overlay => overlay.id === overlayId);
+
+      if (overlayIndex !== -1) {
+        notifyOverlaysFrom(overlayIndex, eventType, e);
+      }
+
+      return !e.defaultPrevented;
+    },
+    [],
+  );
+
   return useMemo(
     () => ({
       getOverlaysSnapshot,
       registerOverlay,
+      updateOverlay,
       subscribeOverlays,
       unregisterOverlay,
+      getOverlayChildren,
+      registerOverlayDeepLink,
+      dispatchOverlayEvent,
+      subscribeOverlayEvents,
+      subscribeUnhandledKeyDown,
     }),
     [],
   );
@@ -21,12 +21,7 @@ import { HONEY_LAYOUT_CSS_PROPERTY_PREFIX } from '../constants';
  * @see https://developer.mozilla.org/en-US/docs/Web/CSS/easing-function/steps#step-position
  */
 type HoneyCssStepFunctionPosition =
-  | 'jump-start'
-  | 'jump-end'
-  | 'jump-none'
-  | 'jump-both'
-  | 'start'
-  | 'end';
+  'jump-start' | 'jump-end' | 'jump-none' | 'jump-both' | 'start' | 'end';
 
 /**
  * Defining the allowed timing functions for the transition
@@ -91,8 +86,7 @@ type HoneyRawCssPropertyValue<CSSProperty extends keyof CSS.Properties> =
  */
 type HoneyResponsiveCssPropertyValue<CSSProperty extends keyof CSS.Properties> = {
   [K in HoneyBreakpointName]?:
-    | HoneyRawCssPropertyValue<CSSProperty>
-    | HoneyCssPropertyValueFn<CSSProperty>;
+    HoneyRawCssPropertyValue<CSSProperty> | HoneyCssPropertyValueFn<CSSProperty>;
 };
 
 /**
@@ -111,6 +105,18 @@ export type HoneyCssPropertyValue<CSSProperty extends keyof CSS.Properties> =
   | HoneyCssPropertyValueFn<CSSProperty>
   | HoneyResponsiveCssPropertyValue<CSSProperty>;
 
+/**
+ * A value applied at any screen width, or a value per breakpoint. A breakpoint value applies from the
+ * breakpoint width up, until a larger breakpoint sets another value.
+ *
+ * @template Value - The type of the value.
+ */
+export type HoneyResponsiveValue<Value extends string | number | boolean> =
+  | Value
+  | {
+      [K in HoneyBreakpointName]?: Value;
+    };
+
 /**
  * A utility type that adds the configured CSS property prefix to a given CSS property name.
  *
@@ -136,5 +142,7 @@ export type HoneyPrefixedCssProperty<
  * ```
  */
 export type HoneyPrefixedCssProperties = {
-  [CSSProperty in keyof CSS.Properties as HoneyPrefixedCssProperty<CSSProperty>]?: HoneyCssPropertyValue<CSSProperty>;
+  [
+    CSSProperty in keyof CSS.Properties as HoneyPrefixedCssProperty<CSSProperty>
+  ]?: HoneyCssPropertyValue<CSSProperty>;
 };
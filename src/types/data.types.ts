@@ -15,7 +15,67 @@ export type HoneyEffect<Config = unknown, Props extends object = object> = (
 
 export type HoneyOverlayId = string;
 
-export type HoneyOverlayEventType = 'keyup';
+/**
+ * Maps each built-in overlay event type to the native event delivered with it.
+ */
+export interface HoneyOverlayEventMap {
+  keyup: KeyboardEvent;
+  keydown: KeyboardEvent;
+  /**
+   * Dispatched to the top-level overlay when a pointer is pressed outside its container.
+   */
+  'pointerdown-outside': PointerEvent;
+  /**
+   * Dispatched to the top-level overlay when focus moves to an element outside its container.
+   */
+  'focusin-outside': FocusEvent;
+}
+
+/**
+ * Overlay event types that are delivered together with a keyboard key code.
+ */
+export type HoneyOverlayKeyboardEventType = 'keyup' | 'keydown';
+
+/**
+ * Overlay event types dispatched by the overlay store from native document events.
+ */
+export type HoneyOverlayBuiltInEventType = keyof HoneyOverlayEventMap;
+
+/**
+ * A user-defined overlay event name.
+ *
+ * Custom events are dispatched through `dispatchOverlayEvent` and delivered to listeners as a
+ * `CustomEvent`. Any name except the built-in event types can be used.
+ */
+export type HoneyOverlayCustomEventType = string & Record<never, never>;
+
+export type HoneyOverlayEventType = HoneyOverlayBuiltInEventType | HoneyOverlayCustomEventType;
+
+/**
+ * Resolves the native event delivered with an overlay event type.
+ *
+ * @template EventType - The overlay event type.
+ * @template Detail - The `detail` payload type of a custom event.
+ */
+export type HoneyOverlayNativeEvent<
+  EventType extends HoneyOverlayEventType,
+  Detail = unknown,
+> = EventType extends HoneyOverlayBuiltInEventType
+  ? HoneyOverlayEventMap[EventType]
+  : CustomEvent<Detail>;
+
+/**
+ * Allows an overlay event listener to control how the event moves through the overlay stack.
+ */
+export interface HoneyOverlayEventControl {
+  /**
+   * Stops the event from reaching the overlays below the current one.
+   *
+   * Takes precedence over the `propagate` listener option and over the automatic propagation
+   * of keyboard events the overlay does not listen to.
+   */
+  stopPropagation: () => void;
+}
 
 /**
  * Handler function for an overlay event listener.
@@ -23,17 +83,114 @@ export type HoneyOverlayEventType = 'keyup';
  * @param keyCode - The code of the key that triggered the event.
  * @param overlay - The overlay.
  * @param e - The original keyboard event.
+ * @param control - Controls the propagation of the event through the overlay stack.
  */
 export type HoneyOverlayEventListenerHandler = (
   keyCode: HoneyKeyboardEventCode,
   overlay: HoneyActiveOverlay,
   e: KeyboardEvent,
+  control: HoneyOverlayEventControl,
 ) => void;
 
 /**
- * A tuple representing an event listener, including the event type and the handler function.
+ * Handler function for an overlay pointer event listener.
+ *
+ * @param overlay - The overlay.
+ * @param e - The original pointer event.
+ * @param control - Controls the propagation of the event through the overlay stack.
  */
-export type HoneyOverlayEventListener = [HoneyOverlayEventType, HoneyOverlayEventListenerHandler];
+export type HoneyOverlayPointerEventListenerHandler = (
+  overlay: HoneyActiveOverlay,
+  e: PointerEvent,
+  control: HoneyOverlayEventControl,
+) => void;
+
+/**
+ * Handler function for an overlay focus event listener.
+ *
+ * @param overlay - The overlay.
+ * @param e - The original focus event.
+ * @param control - Controls the propagation of the event through the overlay stack.
+ */
+export type HoneyOverlayFocusEventListenerHandler = (
+  overlay: HoneyActiveOverlay,
+  e: FocusEvent,
+  control: HoneyOverlayEventControl,
+) => void;
+
+/**
+ * Handler function for a custom overlay event listener.
+ *
+ * @template Detail - The `detail` payload type of the custom event.
+ *
+ * @param overlay - The overlay.
+ * @param e - The dispatched custom event.
+ * @param control - Controls the propagation of the event through the overlay stack.
+ */
+export type HoneyOverlayCustomEventListenerHandler<Detail = unknown> = (
+  overlay: HoneyActiveOverlay,
+  e: CustomEvent<Detail>,
+  control: HoneyOverlayEventControl,
+) => void;
+
+/**
+ * Resolves the handler signature used by listeners of an overlay event type.
+ *
+ * Keyboard events receive the key code as the first argument, all other events receive
+ * the overlay and the native event. The last argument always controls event propagation.
+ *
+ * @template EventType - The overlay event type.
+ * @template Detail - The `detail` payload type of a custom event.
+ */
+export type HoneyOverlayEventHandler<
+  EventType extends HoneyOverlayEventType,
+  Detail = unknown,
+> = EventType extends HoneyOverlayKeyboardEventType
+  ? HoneyOverlayEventListenerHandler
+  : (
+      overlay: HoneyActiveOverlay,
+      e: HoneyOverlayNativeEvent<EventType, Detail>,
+      control: HoneyOverlayEventControl,
+    ) => void;
+
+/**
+ * Options that control how an overlay event listener treats the event it handles.
+ */
+export interface HoneyOverlayEventListenerOptions {
+  /**
+   * Whether the default action of the native event is prevented before the listener is called.
+   *
+   * @default `true` for `keyup` listeners, `false` for all other listeners
+   */
+  preventDefault?: boolean;
+  /**
+   * Whether the event continues to the overlay below after this listener handled it.
+   *
+   * Listeners can still stop a propagating event with `control.stopPropagation()`.
+   *
+   * @default false
+   */
+  propagate?: boolean;
+}
+
+/**
+ * A tuple representing an event listener, including the handler function and the listener options.
+ *
+ * Custom event handlers are stored with a `never` payload, so a handler expecting any `detail`
+ * type can be stored. The payload is defined by the code that dispatches the event.
+ *
+ * @template EventType - The overlay event type the listener is added for.
+ */
+export type HoneyOverlayEventListener<
+  EventType extends HoneyOverlayEventType = HoneyOverlayEventType,
+> = [HoneyOverlayEventHandler<EventType, never>, HoneyOverlayEventListenerOptions];
+
+/**
+ * The event listeners of an overlay, grouped by the event type they are added for.
+ */
+export type HoneyOverlayEventListeners = {
+  [EventType in HoneyOverlayEventType]?: HoneyOverlayEventListener<EventType>[];
+};
 
 /**
  * Configuration object for an overlay, used to specify the overlay's behavior and event handling.
@@ -50,14 +207,80 @@ export interface HoneyOverlayConfig {
    * List of keyboard event codes to listen for (e.g., "Escape", "Enter").
    * If undefined or empty, all key codes will be listened to.
    *
+   * Keyboard events with other key codes are not handled by the overlay and move on to the
+   * overlay below it in the stack.
+   *
    * @default undefined
    */
   listenKeys?: HoneyKeyboardEventCode[];
+  /**
+   * Stacking priority of the overlay.
+   *
+   * Overlays with a higher priority are kept above overlays with a lower priority in the stack,
+   * receive events first and get a higher z-index. Overlays with the same priority are stacked
+   * in registration order. See `HONEY_OVERLAY_PRIORITY` for the built-in levels.
+   *
+   * @default 0
+   */
+  priority?: number;
+  /**
+   * Whether the overlay is modal, meaning the content below it should not be interacted with
+   * while it is open.
+   *
+   * @default false
+   */
+  modal?: boolean;
+  /**
+   * Whether the overlay keeps keyboard focus inside its container.
+   *
+   * Focus traps of the overlays stacked below it are paused while it is registered.
+   *
+   * @default false
+   */
+  trapFocus?: boolean;
   /**
    * Callback function to be invoked when a key event occurs for the specified key(s).
    * If `listenKeys` is provided, this will only be triggered for those keys.
    */
   onKeyUp: HoneyOverlayEventListenerHandler;
+  /**
+   * Callback function to be invoked when a pointer is pressed outside the overlay container
+   * while the overlay is the top-level overlay.
+   */
+  onPointerDownOutside?: HoneyOverlayPointerEventListenerHandler;
+  /**
+   * Callback function to be invoked when a key is pressed while the overlay is the top-level
+   * overlay. If `listenKeys` is provided, this will only be triggered for those keys.
+   *
+   * The default browser action is not prevented unless the handler prevents it.
+   */
+  onKeyDown?: HoneyOverlayEventListenerHandler;
+  /**
+   * Callback function to be invoked when focus moves outside the overlay container while the
+   * overlay is the top-level overlay.
+   */
+  onFocusInOutside?: HoneyOverlayFocusEventListenerHandler;
+  /**
+   * ID of the overlay this overlay was opened from.
+   *
+   * Unregistering the parent overlay also removes this overlay and all of its descendants from
+   * the stack.
+   */
+  parentId?: HoneyOverlayId;
+  /**
+   * Key of the history entry pushed while the overlay is registered.
+   *
+   * When provided, registering the overlay pushes a browser history entry with the key in the
+   * `overlay` search parameter, so the Back button deactivates the overlay instead of leaving the
+   * page. Deep links with the key can reopen the overlay through `useHoneyOverlayDeepLink`, so the
+   * key should stay the same across registrations, unlike a generated overlay ID.
+   */
+  historyKey?: string;
+  /**
+   * Callback invoked when the overlay store requests the overlay to be deactivated, either
+   * because one of its ancestors was unregistered or because its history entry was popped.
+   */
+  onDeactivate?: () => void;
 }
 
 /**
@@ -68,6 +291,38 @@ export interface HoneyActiveOverlay {
    * Unique identifier for the overlay.
    */
   id: HoneyOverlayId;
+  /**
+   * Stacking priority of the overlay.
+   */
+  priority: number;
+  /**
+   * Whether the overlay is modal.
+   */
+  modal: boolean;
+  /**
+   * Whether the overlay keeps keyboard focus inside its container.
+   */
+  trapFocus: boolean;
+  /**
+   * ID of the overlay this overlay was opened from, or `null` for a root overlay.
+   */
+  parentId: Nullable<HoneyOverlayId>;
+  /**
+   * Sequence number of the registration, increasing with every overlay registered by the provider.
+   */
+  registrationOrder: number;
+  /**
+   * Keyboard keys handled by the overlay. Empty when the overlay handles all keys.
+   */
+  listenKeys: HoneyKeyboardEventCode[];
+  /**
+   * The z-index computed by the overlay store.
+   *
+   * It is higher than the z-index of every overlay with a lower priority, and of every overlay
+   * with the same priority that was registered, or updated to that priority, earlier and is still
+   * active.
+   */
+  zIndex: number;
   /**
    * Reference to the container element of the overlay.
    */
@@ -83,25 +338,164 @@ export interface HoneyActiveOverlay {
    *
    * @param type - The type of event to listen for.
    * @param handler - The handler function to execute when the event is triggered.
+   * @param options - Options that control default prevention and propagation of handled events.
    */
-  addListener: (type: HoneyOverlayEventType, handler: HoneyOverlayEventListenerHandler) => void;
+  addListener: <EventType extends HoneyOverlayEventType, Detail = unknown>(
+    type: EventType,
+    handler: HoneyOverlayEventHandler<EventType, Detail>,
+    options?: HoneyOverlayEventListenerOptions,
+  ) => void;
   /**
    * Removes a specific event listener from the overlay.
    *
    * @param type - The type of event for the listener.
    * @param handler - The handler function to remove.
    */
-  removeListener: (type: HoneyOverlayEventType, handler: HoneyOverlayEventListenerHandler) => void;
+  removeListener: <EventType extends HoneyOverlayEventType, Detail = unknown>(
+    type: EventType,
+    handler: HoneyOverlayEventHandler<EventType, Detail>,
+  ) => void;
+  /**
+   * Returns the number of event listeners currently added to the overlay.
+   */
+  getListenersCount: () => number;
+  /**
+   * Checks whether the keyboard listeners of an event type receive a key, meaning the key is
+   * accepted by `listenKeys` and at least one listener of the event type is added.
+   *
+   * @param eventType - The keyboard event type.
+   * @param keyCode - The key code to check.
+   */
+  isListeningForKey: (
+    eventType: HoneyOverlayKeyboardEventType,
+    keyCode: HoneyKeyboardEventCode,
+  ) => boolean;
   /**
    * Notifies all listeners of a specific event type.
    *
+   * For keyboard events, the key code is read from the native event and checked against
+   * the overlay `listenKeys`.
+   *
    * @param targetEventType - The type of event that occurred.
-   * @param keyCode - The code of the key that triggered the event.
-   * @param e - The original keyboard event.
+   * @param e - The original native event, or the dispatched custom event.
+   *
+   * @returns `true` when the event should continue to the overlay below, otherwise `false`.
+   * Keyboard events the overlay does not handle always continue unless propagation was stopped.
    */
-  notifyListeners: (
-    targetEventType: HoneyOverlayEventType,
-    keyCode: HoneyKeyboardEventCode,
-    e: KeyboardEvent,
-  ) => void;
+  notifyListeners: <EventType extends HoneyOverlayEventType>(
+    targetEventType: EventType,
+    e: HoneyOverlayNativeEvent<EventType>,
+  ) => boolean;
 }
+
+/**
+ * The history used by the overlay store to keep overlays with a `historyKey` in sync with the
+ * browser history.
+ *
+ * Use `createHoneyBrowserHistory()` for the browser history or `createHoneyMemoryHistory()` in
+ * tests and non-browser environments.
+ */
+export interface HoneyOverlayHistory {
+  /**
+   * Returns the current URL, including the search and hash parts.
+   */
+  getUrl: () => string;
+  /**
+   * Returns the state of the current history entry.
+   */
+  getState: () => unknown;
+  /**
+   * Adds a history entry above the current one.
+   */
+  push: (state: unknown, url: string) => void;
+  /**
+   * Replaces the state and URL of the current history entry.
+   */
+  replace: (state: unknown, url: string) => void;
+  /**
+   * Moves through the history by the given number of entries.
+   */
+  go: (delta: number) => void;
+  /**
+   * Subscribes to history navigation that is not caused by `push` or `replace`, such as the
+   * browser Back button.
+   *
+   * @returns A cleanup function that removes the listener.
+   */
+  listen: (listener: () => void) => () => void;
+}
+
+/**
+ * An overlay event delivered to the listeners of an overlay, reported to overlay event subscribers.
+ */
+export interface HoneyOverlayEventRecord {
+  /**
+   * ID of the overlay whose listeners received the event.
+   */
+  overlayId: HoneyOverlayId;
+  eventType: HoneyOverlayEventType;
+  /**
+   * The key code of a keyboard event.
+   */
+  keyCode?: HoneyKeyboardEventCode;
+  /**
+   * Time the event was delivered, in milliseconds since the epoch.
+   */
+  timeStamp: number;
+}
+
+/**
+ * A keyboard shortcut written as modifiers and a key joined with `+`, for example `'Mod+KeyK'`
+ * or `'Shift+ArrowDown'`.
+ *
+ * Steps of a key sequence are separated with spaces, for example `'g g'`.
+ *
+ * Supported modifiers are `Mod` (`Meta` on Apple platforms, `Ctrl` elsewhere), `Ctrl`, `Alt`,
+ * `Shift` and `Meta`. The key is a `HoneyKeyboardEventCode`. Single letters and digits can be
+ * used as a shorthand for their key codes, so `'Mod+K'` is the same as `'Mod+KeyK'` and `'1'`
+ * is the same as `'Digit1'`.
+ */
+export type HoneyHotkey = string;
+
+export type HoneyHotkeyId = string;
+
+/**
+ * Handler function for a keyboard shortcut.
+ *
+ * @param e - The keydown event that completed the shortcut.
+ */
+export type HoneyHotkeyHandler = (e: KeyboardEvent) => void;
+
+/**
+ * A keyboard shortcut registered in the layout system.
+ *
+ * Registered shortcuts are exposed through `useHoneyRegisteredHotkeys`, for example to render
+ * a keyboard shortcuts help dialog.
+ */
+export interface HoneyRegisteredHotkey {
+  /**
+   * Unique identifier of the registered shortcut.
+   */
+  id: HoneyHotkeyId;
+  /**
+   * Key combinations or sequences that trigger the shortcut.
+   */
+  keys: HoneyHotkey[];
+  /**
+   * Human-readable description of the shortcut.
+   */
+  description?: string;
+  /**
+   * Optional group name used to organize shortcuts in a help dialog.
+   */
+  group?: string;
+  /**
+   * ID of the overlay the shortcut is scoped to, or `null` for page-level shortcuts.
+   */
+  overlayId: Nullable<HoneyOverlayId>;
+}
+
+/**
+ * Configuration object for registering a keyboard shortcut.
+ */
+export type HoneyHotkeyConfig = Omit<HoneyRegisteredHotkey, 'id'>;